@@ -1,88 +1,244 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { fileToBase64 } from './utils/fileUtils';
-import { generateAdContent, editAdImage } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useReducer, useRef } from 'react';
+import { fileToBase64, downloadFile, dataUrlToBase64, imageExtension } from './utils/fileUtils';
+import { generateAdContent, editAdImage, editAdImageRegion, collectVariationFeedback, regenerateImages, regenerateCopy, reviewGeneration } from './services/adService';
+import { exportVariationsZip } from './services/exportService';
+import {
+  saveProject, loadProject, deleteProject, listProjects, migrateLegacyProjects, updateProjectDetails,
+  getStorageUsage, requestPersistentStorage, StorageQuotaError
+} from './services/projectStore';
 import Spinner from './components/Spinner';
+import ActionButton from './components/ActionButton';
+import ImageDisplay from './components/ImageDisplay';
+import HistoryModal from './components/HistoryModal';
+import VersionCompareModal from './components/VersionCompareModal';
+import VariationCompareModal from './components/VariationCompareModal';
+import VariationReview from './components/VariationReview';
+import ImageEditor from './components/ImageEditor';
+import TextOverlayEditor from './components/TextOverlayEditor';
+import BrandKitManager from './components/BrandKitManager';
+import StylePresetManager, { StyleThumbnail } from './components/StylePresetManager';
+import BatchMode from './components/BatchMode';
+import CopyPanel from './components/CopyPanel';
+import AdvancedPanel from './components/AdvancedPanel';
+import AdChecklistBadge from './components/AdChecklistBadge';
+import InputImageGrid from './components/InputImageGrid';
+import ImageCropper from './components/ImageCropper';
+import ImageAnalyzer from './components/ImageAnalyzer';
+import PrintDialog from './components/PrintDialog';
+import UsageDashboard from './components/UsageDashboard';
+import ErrorNotice, { type ErrorDetails } from './components/ErrorNotice';
+import { toApiError } from './services/apiErrors';
+import { exportProjectBundle, importProjectBundle } from './services/projectBundle';
+import { checkBudget } from './services/usageStore';
+import { clearDraft, loadDraft, saveDraft } from './services/draftStore';
+import {
+  listBrandKits, saveBrandKit, deleteBrandKit, getActiveBrandKitId, setActiveBrandKitId
+} from './services/brandKitStore';
+import {
+  BUILT_IN_STYLE_PRESETS, listStylePresets, saveStylePreset, deleteStylePreset, findStylePreset
+} from './services/stylePresetStore';
+import type { AdCheck, AdFormat, AdImage, BrandKit, Generation, GenerationReview, ImageVersion, OverlayText, ProjectSummary, SavedProject, SessionDraft, StorageUsage, StylePreset } from './types';
+import { AD_FORMATS, DEFAULT_FORMAT, formatSlug } from './utils/adFormats';
+import { currentImageUrl, selectVersion } from './utils/versionTree';
+import { addDisclaimerLayer, applyOverlayText, renderFinalImage } from './utils/textLayers';
+import { confirmExport } from './utils/adChecks';
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGES } from './utils/languages';
+import { ACCEPTED_IMAGE_TYPES, type CropRect, cropImage, prepareUploads } from './utils/imagePreprocess';
+import { isChosen, isDisliked, isLiked, updateReview } from './utils/variationReview';
+import {
+  type AppRoute, type SessionEvent, type SessionState, createSession, isEmptyDraft, parseRouteHash, routeHash, sessionDraft, sessionReducer, sessionRoute
+} from './utils/session';
 
-type AppStep = 'upload' | 'processing' | 'result' | 'editing';
-type Generation = {
-    imageUrl: string;
-    description: string;
-}
-type SavedProject = {
-  id: string;
-  generations: Generation[];
-  timestamp: string;
-  previewImage: string;
-};
-
-const ActionButton: React.FC<{icon: string, title: string, onClick: (e: React.MouseEvent<HTMLButtonElement>) => void, className?: string, disabled?: boolean}> = 
-({ icon, title, onClick, className, disabled }) => (
-    <button
-        onClick={onClick}
-        title={title}
-        disabled={disabled}
-        className={`bg-white/80 text-bordo hover:bg-crema disabled:text-slate-400 disabled:cursor-not-allowed w-11 h-11 rounded-full flex items-center justify-center transition-all shadow-md border border-slate-200/50 ${className}`}
-    >
-        <i className={`fas ${icon} text-lg`}></i>
-    </button>
-);
+// How long the session has to stay unchanged before it is checkpointed.
+const DRAFT_SAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
-  const [step, setStep] = useState<AppStep>('upload');
-  const [error, setError] = useState<string>('');
+  const [session, dispatch] = useReducer(sessionReducer, BUILT_IN_STYLE_PRESETS[0].id, createSession);
+  const {
+    step, inputFiles, inputImagePreviews, initialPrompt, selectedStyleId, selectedFormats, outputLanguage, insights,
+    generations, selectedGenerationId, editPrompt, currentProjectId,
+  } = session;
+  const [batchMode, setBatchMode] = useState<boolean>(false);
+  // A checkpoint from an earlier visit, offered until restored or dismissed.
+  const [pendingDraft, setPendingDraft] = useState<SessionDraft | null>(null);
+  // Brand kits and styles, which projects and drafts refer to, have been read.
+  const [librariesLoaded, setLibrariesLoaded] = useState<boolean>(false);
+  // The URL the app was opened with has been followed; until then the URL is left alone.
+  const [routeReady, setRouteReady] = useState<boolean>(false);
+  const [error, setError] = useState<ErrorDetails | null>(null);
+  // The model call in flight, so the user can cancel it.
+  const requestRef = useRef<AbortController | null>(null);
+  // Reviews run in the background, next to other calls, so they keep their own controllers.
+  const reviewsRef = useRef<Map<string, AbortController>>(new Map());
+  const [reviewingIds, setReviewingIds] = useState<string[]>([]);
+  // The latest session, for results that arrive after the handler that asked for them has gone stale.
+  const sessionRef = useRef(session);
+  useEffect(() => { sessionRef.current = session; }, [session]);
+  // Uploads are prepared one after another, each checked for duplicates against the photos added before it.
+  const uploadsRef = useRef<Promise<void>>(Promise.resolve());
+
+  /** Dispatches an event and applies it to `sessionRef` right away, for code that reads the session before the next render. */
+  const applyEvent = (event: SessionEvent): SessionState => {
+    const next = sessionReducer(sessionRef.current, event);
+    sessionRef.current = next;
+    dispatch(event);
+    return next;
+  };
   
   // State
-  const [inputFiles, setInputFiles] = useState<File[]>([]);
-  const [inputImagePreviews, setInputImagePreviews] = useState<string[]>([]);
-  const [initialPrompt, setInitialPrompt] = useState<string>('');
-  const [selectedStyle, setSelectedStyle] = useState<string>('Automático');
+  const [isPreparingImages, setIsPreparingImages] = useState<boolean>(false);
+  const [cropIndex, setCropIndex] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [generations, setGenerations] = useState<Generation[]>([]);
-  const [editPrompt, setEditPrompt] = useState<string>('');
-  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [activeFormats, setActiveFormats] = useState<Record<string, AdFormat>>({});
+  const [textEdit, setTextEdit] = useState<{ generationId: string; image: AdImage } | null>(null);
+  const [regionEdit, setRegionEdit] = useState<{ generationId: string; image: AdImage } | null>(null);
+  const [comparison, setComparison] = useState<{ generationId: string; image: AdImage; left: ImageVersion; right: ImageVersion } | null>(null);
+  const [isVariationCompareOpen, setIsVariationCompareOpen] = useState<boolean>(false);
+  const [useReviewsAsGuidance, setUseReviewsAsGuidance] = useState<boolean>(true);
+  const [isExportingChosen, setIsExportingChosen] = useState<boolean>(false);
+  const [printImage, setPrintImage] = useState<AdImage | null>(null);
+  const [isCatalogPrintOpen, setIsCatalogPrintOpen] = useState<boolean>(false);
+
+  // Brand kits
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeBrandKitId, setActiveBrandKitIdState] = useState<string | null>(getActiveBrandKitId);
+  const [isBrandKitOpen, setIsBrandKitOpen] = useState<boolean>(false);
+  const activeBrandKit = brandKits.find(kit => kit.id === activeBrandKitId) ?? null;
+
+  const refreshBrandKits = useCallback(async () => {
+    try {
+      setBrandKits(await listBrandKits());
+    } catch (e) {
+      console.error("No se pudieron cargar los kits de marca:", e);
+    }
+  }, []);
+
+  const handleActivateBrandKit = (id: string | null) => {
+    setActiveBrandKitId(id);
+    setActiveBrandKitIdState(id);
+  };
+
+  const handleSaveBrandKit = async (kit: BrandKit) => {
+    await saveBrandKit(kit);
+    await refreshBrandKits();
+  };
+
+  const handleDeleteBrandKit = async (id: string) => {
+    await deleteBrandKit(id);
+    if (id === activeBrandKitId) handleActivateBrandKit(null);
+    await refreshBrandKits();
+  };
+
+  // Style presets
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>(BUILT_IN_STYLE_PRESETS);
+  const [isStylesOpen, setIsStylesOpen] = useState<boolean>(false);
+  const activeStylePreset = stylePresets.find(preset => preset.id === selectedStyleId) ?? BUILT_IN_STYLE_PRESETS[0];
+
+  const refreshStylePresets = useCallback(async () => {
+    try {
+      setStylePresets(await listStylePresets());
+    } catch (e) {
+      console.error("No se pudieron cargar los estilos:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    Promise.all([refreshBrandKits(), refreshStylePresets()]).finally(() => setLibrariesLoaded(true));
+  }, [refreshBrandKits, refreshStylePresets]);
+
+  /** Picking a style also picks its default format; more formats can be added afterwards. */
+  const handleSelectStyle = (preset: StylePreset) => {
+    dispatch({ type: 'change', changes: { selectedStyleId: preset.id, selectedFormats: [preset.defaultFormat] } });
+  };
+
+  const handleSaveStylePresets = async (presets: StylePreset[]) => {
+    for (const preset of presets) await saveStylePreset(preset);
+    await refreshStylePresets();
+  };
+
+  const handleDeleteStylePreset = async (id: string) => {
+    await deleteStylePreset(id);
+    if (id === selectedStyleId) dispatch({ type: 'change', changes: { selectedStyleId: BUILT_IN_STYLE_PRESETS[0].id } });
+    await refreshStylePresets();
+  };
 
   // History
-  const [savedProjects, setSavedProjects] = useState<SavedProject[]>([]);
+  const [savedProjects, setSavedProjects] = useState<ProjectSummary[]>([]);
   const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageWarning, setStorageWarning] = useState<string>('');
 
-  useEffect(() => {
+  const refreshProjects = useCallback(async () => {
     try {
-      const storedProjects = localStorage.getItem('savedProjects');
-      if (storedProjects) {
-        setSavedProjects(JSON.parse(storedProjects));
-      }
+      setSavedProjects(await listProjects());
+      setStorageUsage(await getStorageUsage());
     } catch (e) {
       console.error("No se pudo cargar el historial:", e);
     }
   }, []);
 
-  const saveCurrentProject = useCallback((updatedGenerations: Generation[]) => {
-    if (updatedGenerations.length === 0 || !currentProjectId) return;
+  useEffect(() => {
+    requestPersistentStorage().catch(() => {});
+    migrateLegacyProjects()
+      .catch(e => {
+        console.error("No se pudo migrar el historial anterior:", e);
+        setStorageWarning('No se pudo migrar tu historial anterior. Se volverá a intentar la próxima vez que abras la app.');
+      })
+      .finally(refreshProjects);
+  }, [refreshProjects]);
 
-    const updatedProjects = savedProjects.filter(p => p.id !== currentProjectId);
-    const newProject: SavedProject = {
-        id: currentProjectId,
-        generations: updatedGenerations,
-        timestamp: new Date().toLocaleString('es-ES'),
-        previewImage: updatedGenerations[0].imageUrl
-    };
-    
-    const finalProjects = [newProject, ...updatedProjects];
-    setSavedProjects(finalProjects);
+  const saveCurrentProject = useCallback(async (projectId: string, updatedGenerations: Generation[]) => {
+    if (updatedGenerations.length === 0) return;
     try {
-        localStorage.setItem('savedProjects', JSON.stringify(finalProjects));
-    } catch(e) {
+        await saveProject({
+            id: projectId,
+            generations: updatedGenerations,
+            createdAt: Date.now(),
+            inputs: {
+                images: inputFiles,
+                prompt: initialPrompt,
+                style: activeStylePreset.name,
+                formats: selectedFormats,
+                brandKitId: activeBrandKitId,
+                language: outputLanguage,
+            },
+            tags: [],
+            folder: '',
+        });
+        setStorageWarning('');
+    } catch (e) {
         console.error("No se pudo guardar el proyecto automáticamente:", e);
+        setStorageWarning(e instanceof StorageQuotaError
+            ? 'No se pudo guardar el proyecto: el almacenamiento del navegador está lleno. Tus imágenes siguen aquí; descárgalas o elimina proyectos antiguos del historial y vuelve a intentarlo.'
+            : 'No se pudo guardar el proyecto en el historial. Descarga tus imágenes para no perderlas.');
     }
-  }, [currentProjectId, savedProjects]);
+    await refreshProjects();
+  }, [refreshProjects, inputFiles, initialPrompt, activeStylePreset, selectedFormats, activeBrandKitId, outputLanguage]);
+
+  /** Runs new photos through the preprocessing pipeline and reports the ones left out. */
+  const addInputFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    uploadsRef.current = uploadsRef.current.then(async () => {
+      setIsPreparingImages(true);
+      try {
+        const { accepted, rejected } = await prepareUploads(files, sessionRef.current.inputFiles);
+        applyEvent({ type: 'addInputs', files: accepted, previews: accepted.map(file => URL.createObjectURL(file)) });
+        setError(rejected.length === 0 ? null : {
+          message: rejected.length === 1 ? 'Una imagen no se añadió.' : `${rejected.length} imágenes no se añadieron.`,
+          suggestion: rejected.map(err => `${err.fileName}: ${err.message}.`).join(' '),
+        });
+      } catch (e) {
+        console.error("No se pudieron preparar las imágenes:", e);
+        setError({ message: 'No se pudieron preparar las imágenes.', suggestion: 'Inténtalo de nuevo con menos fotos a la vez.' });
+      } finally {
+        setIsPreparingImages(false);
+      }
+    });
+  }, []);
 
   const handleFileChange = (files: FileList | null) => {
-    if (files) {
-      const fileArray = Array.from(files);
-      setInputFiles(prev => [...prev, ...fileArray]);
-      const previewUrls = fileArray.map(file => URL.createObjectURL(file));
-      setInputImagePreviews(prev => [...prev, ...previewUrls]);
-    }
+    if (files) addInputFiles(Array.from(files));
   };
   
   const handlePaste = useCallback((event: ClipboardEvent) => {
@@ -96,131 +252,484 @@ const App: React.FC = () => {
         if (file) imageFiles.push(file);
       }
     }
-    if (imageFiles.length > 0) {
-        setInputFiles(prev => [...prev, ...imageFiles]);
-        const previewUrls = imageFiles.map(file => URL.createObjectURL(file));
-        setInputImagePreviews(prev => [...prev, ...previewUrls]);
-    }
-  }, [step]);
+    addInputFiles(imageFiles);
+  }, [step, addInputFiles]);
+
+  const removeInputFile = (index: number) => {
+    URL.revokeObjectURL(inputImagePreviews[index]);
+    dispatch({ type: 'removeInput', index });
+  };
+
+  const moveInputFile = (from: number, to: number) => dispatch({ type: 'moveInput', from, to });
+
+  const handleCropInput = async (rect: CropRect) => {
+    if (cropIndex === null) return;
+    const cropped = await cropImage(inputFiles[cropIndex], rect);
+    const previewUrl = URL.createObjectURL(cropped);
+    URL.revokeObjectURL(inputImagePreviews[cropIndex]);
+    dispatch({ type: 'replaceInput', index: cropIndex, file: cropped, preview: previewUrl });
+  };
   
   useEffect(() => {
     window.addEventListener('paste', handlePaste);
     return () => window.removeEventListener('paste', handlePaste);
   }, [handlePaste]);
   
-  const callGenerateAPI = async () => {
-    setError('');
+  const startRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current.signal;
+  };
+
+  const cancelRequest = () => requestRef.current?.abort();
+
+  /** Shows a failed model call with its next step; cancellations are the user's choice and stay silent. */
+  const reportError = (context: string, err: unknown) => {
+    const apiError = toApiError(err);
+    if (apiError.category === 'cancelled') return;
+    console.error(`${context}:`, err);
+    setError({ message: `${context}: ${apiError.message}`, suggestion: apiError.suggestion });
+  };
+
+  const callGenerateAPI = async (projectId: string | null) => {
+    setError(null);
+    const signal = startRequest();
     try {
         const base64Images = await Promise.all(inputFiles.map(fileToBase64));
-        const result = await generateAdContent(base64Images, initialPrompt, selectedStyle);
+        const result = await generateAdContent({
+            projectId,
+            images: base64Images,
+            userPrompt: initialPrompt,
+            style: activeStylePreset,
+            formats: selectedFormats,
+            brandKit: activeBrandKit,
+            language: outputLanguage,
+            insights,
+            feedback: useReviewsAsGuidance ? await collectVariationFeedback(generations) : null,
+        }, signal);
         return result;
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
-        setError(`Error al generar contenido: ${errorMessage}`);
-        setStep('upload'); 
+        reportError('Error al generar contenido', err);
+        dispatch({ type: 'failed' });
         return null;
     }
   }
 
   const handleGenerate = async () => {
     if (inputFiles.length === 0) {
-      setError('Por favor, sube al menos una imagen.');
+      setError({ message: 'Por favor, sube al menos una imagen.' });
+      return;
+    }
+    if (selectedFormats.length === 0) {
+      setError({ message: 'Por favor, elige al menos un formato.' });
       return;
     }
-    setStep('processing');
+    const budgetWarning = await checkBudget(selectedFormats.length);
+    if (budgetWarning && !confirm(budgetWarning)) return;
     const newId = new Date().toISOString();
-    setCurrentProjectId(newId);
+    dispatch({ type: 'generate', projectId: newId });
     
-    const result = await callGenerateAPI();
+    const result = await callGenerateAPI(newId);
     if (result) {
-        const newGenerations = [result];
-        setGenerations(newGenerations);
-        saveCurrentProject(newGenerations); // Trigger auto-save
-        setStep('result');
-    } else {
-        setCurrentProjectId(null); // Reset on failure
+        updateSession({ type: 'generated', generation: result });
+        runReview(result, newId);
     }
   };
 
   const handleGenerateAnother = async () => {
-     setStep('processing');
-     const result = await callGenerateAPI();
+     const budgetWarning = await checkBudget(selectedFormats.length);
+     if (budgetWarning && !confirm(budgetWarning)) return;
+     dispatch({ type: 'generate', projectId: currentProjectId });
+     const result = await callGenerateAPI(currentProjectId);
      if(result) {
-        const updatedGenerations = [...generations, result];
-        setGenerations(updatedGenerations);
-        saveCurrentProject(updatedGenerations); // Trigger auto-save
-        setStep('result');
+        updateSession({ type: 'generated', generation: result });
+        runReview(result, currentProjectId);
      }
   }
   
+  const getActiveImage = (generation: Generation): AdImage =>
+    generation.images.find(img => img.format === activeFormats[generation.id]) ?? generation.images[0];
+
+  /**
+   * Applies an event to the latest session rather than the one this render
+   * saw, since handlers that awaited a model call hold an old one, and
+   * autosaves the generations it leads to.
+   */
+  const updateSession = (event: SessionEvent) => {
+    const previous = sessionRef.current;
+    const next = applyEvent(event);
+    if (next.generations !== previous.generations && next.currentProjectId) {
+      saveCurrentProject(next.currentProjectId, next.generations); // Trigger auto-save
+    }
+  };
+
+  const updateImage = (generationId: string, image: AdImage) =>
+    updateSession({ type: 'replaceImage', generationId, image });
+
+  const updateGeneration = (generationId: string, changes: Partial<Omit<Generation, 'id'>>) =>
+    updateSession({ type: 'patchGeneration', generationId, changes });
+
+  const handleReview = (generationId: string, changes: Partial<GenerationReview>) =>
+    updateSession({ type: 'update', generations: updateReview(sessionRef.current.generations, generationId, changes) });
+
+  /**
+   * Reviews an ad without holding up the screen. The checklist lands on the
+   * generation as it is by then; one that changed meanwhile shows it as outdated.
+   */
+  const runReview = async (generation: Generation, projectId: string | null) => {
+    reviewsRef.current.get(generation.id)?.abort();
+    const controller = new AbortController();
+    reviewsRef.current.set(generation.id, controller);
+    setReviewingIds(prev => [...prev, generation.id]);
+    try {
+      const checklist = await reviewGeneration(
+        generation,
+        { userPrompt: initialPrompt, brandKit: activeBrandKit },
+        { projectId, brandKit: activeBrandKit },
+        controller.signal
+      );
+      updateGeneration(generation.id, { checklist });
+    } catch (err) {
+      reportError('No se pudo revisar el anuncio', err);
+    } finally {
+      if (reviewsRef.current.get(generation.id) === controller) reviewsRef.current.delete(generation.id);
+      setReviewingIds(prev => prev.filter(id => id !== generation.id));
+    }
+  };
+
+  const handleAcknowledgeCheck = (generation: Generation, check: AdCheck) => {
+    if (!generation.checklist) return;
+    updateGeneration(generation.id, { checklist: { ...generation.checklist, acknowledged: [...generation.checklist.acknowledged, check.id] } });
+  };
+
+  /** Adds the brand kit's legal text to every format that lacks it, then checks again. */
+  const handleAddDisclaimer = (generation: Generation) => {
+    const disclaimer = activeBrandKit?.disclaimer.trim();
+    if (!disclaimer) return;
+    const updated = { ...generation, images: generation.images.map(image => addDisclaimerLayer(image, disclaimer, activeBrandKit, activeStylePreset)) };
+    updateGeneration(generation.id, { images: updated.images });
+    runReview(updated, currentProjectId);
+  };
+
+  /** See `confirmExport`; variations are named by their number. */
+  const confirmExportOf = (targets: Generation[]): boolean =>
+    confirmExport(targets.map(gen => ({ label: generations.length > 1 ? `Variación ${generations.indexOf(gen) + 1}` : '', generation: gen })));
+
+  const handleExportChosen = async () => {
+    if (!confirmExportOf(generations.filter(isChosen))) return;
+    setIsExportingChosen(true);
+    try {
+      downloadFile(await exportVariationsZip(generations.filter(isChosen)), `anuncios-elegidos-${Date.now()}.zip`);
+    } catch (err) {
+      reportError('No se pudieron exportar las variaciones elegidas', err);
+    } finally {
+      setIsExportingChosen(false);
+    }
+  };
+
   const handleEdit = async () => {
     if (!editPrompt || generations.length === 0) return;
-    const lastGeneration = generations[generations.length - 1];
+    const target = generations.find(gen => gen.id === selectedGenerationId) ?? generations[generations.length - 1];
+    const image = getActiveImage(target);
     
-    setStep('editing');
-    setError('');
+    dispatch({ type: 'startEdit', generationId: target.id });
+    setError(null);
+    const signal = startRequest();
     try {
-      const response = await fetch(lastGeneration.imageUrl);
+      const response = await fetch(currentImageUrl(image));
       const blob = await response.blob();
       const file = new File([blob], "temp_image", {type: blob.type});
       const { base64, mimeType } = await fileToBase64(file);
-      const newImageUrl = await editAdImage(base64, mimeType, editPrompt);
+      const newImageUrl = await editAdImage(base64, mimeType, editPrompt, { projectId: currentProjectId, brandKit: activeBrandKit }, signal);
       
-      const updatedGenerations = [...generations];
-      updatedGenerations[updatedGenerations.length-1].imageUrl = newImageUrl;
-      setGenerations(updatedGenerations);
-      saveCurrentProject(updatedGenerations); // Trigger auto-save
+      updateSession({ type: 'addVersion', generationId: target.id, format: image.format, parentId: image.currentVersionId, imageUrl: newImageUrl, prompt: editPrompt });
 
-      setEditPrompt('');
-      setStep('result');
+      dispatch({ type: 'change', changes: { editPrompt: '' } });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Ocurrió un error desconocido.';
-      setError(`Error al editar imagen: ${errorMessage}`);
-      setStep('result');
+      reportError('Error al editar imagen', err);
+    } finally {
+      dispatch({ type: 'finishEdit' });
     }
   }
 
+  const handleRegionEdit = async (prompt: string, maskDataUrl: string) => {
+    if (!regionEdit) return;
+    const { generationId, image } = regionEdit;
+    dispatch({ type: 'startEdit', generationId });
+    const signal = startRequest();
+    try {
+      const newImageUrl = await editAdImageRegion(currentImageUrl(image), maskDataUrl, prompt, { projectId: currentProjectId, brandKit: activeBrandKit }, signal);
+      updateSession({ type: 'addVersion', generationId, format: image.format, parentId: image.currentVersionId, imageUrl: newImageUrl, prompt });
+    } finally {
+      dispatch({ type: 'finishEdit' });
+    }
+  };
+
+  const handleApplyOverlayText = (generation: Generation, text: OverlayText) => {
+    updateGeneration(generation.id, {
+      overlayText: text,
+      images: generation.images.map(image => applyOverlayText(image, text, activeBrandKit, activeStylePreset)),
+    });
+  };
+
+  const handleRegenerateImage = async (generation: Generation, prompt: string) => {
+    dispatch({ type: 'startEdit', generationId: generation.id });
+    setError(null);
+    const signal = startRequest();
+    try {
+      const { images, imagePrompt } = await regenerateImages(generation, prompt, { projectId: currentProjectId, brandKit: activeBrandKit }, signal);
+      updateGeneration(generation.id, { images, imagePrompt });
+    } catch (err) {
+      reportError('Error al regenerar la imagen', err);
+    } finally {
+      dispatch({ type: 'finishEdit' });
+    }
+  };
+
+  const handleRegenerateCopy = async (generation: Generation) => {
+    dispatch({ type: 'startEdit', generationId: generation.id });
+    setError(null);
+    const signal = startRequest();
+    try {
+      const { images, overlayText, description, platformCopy, hashtags, detectedLanguage, language } = await regenerateCopy(generation, {
+        projectId: currentProjectId,
+        images: await Promise.all(inputFiles.map(fileToBase64)),
+        userPrompt: initialPrompt,
+        style: activeStylePreset,
+        brandKit: activeBrandKit,
+        language: outputLanguage,
+        insights,
+      }, signal);
+      updateGeneration(generation.id, { images, overlayText, description, platformCopy, hashtags, detectedLanguage, language });
+    } catch (err) {
+      reportError('Error al regenerar los textos', err);
+    } finally {
+      dispatch({ type: 'finishEdit' });
+    }
+  };
+
   const handleReset = () => {
-    setInputFiles([]);
-    setInputImagePreviews([]);
-    setInitialPrompt('');
-    setSelectedStyle('Automático');
-    setGenerations([]);
-    setEditPrompt('');
-    setError('');
-    setCurrentProjectId(null);
-    setStep('upload');
+    cancelRequest();
+    reviewsRef.current.forEach(controller => controller.abort());
+    dispatch({ type: 'reset', styleId: BUILT_IN_STYLE_PRESETS[0].id });
+    setActiveFormats({});
+    setIsVariationCompareOpen(false);
+    setError(null);
   };
   
-  const downloadImage = (imageUrl: string) => {
-    const link = document.createElement('a');
-    link.href = imageUrl;
-    link.download = `publicidad-ia-${Date.now()}.jpg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const downloadImage = async (image: AdImage, mimeType?: string) => {
+    const imageUrl = await renderFinalImage(image, mimeType);
+    // Browsers without a WebP encoder fall back to PNG, so the extension follows what was actually produced.
+    downloadFile(imageUrl, `publicidad-ia-${Date.now()}-${formatSlug(image.format)}.${imageExtension(dataUrlToBase64(imageUrl).mimeType)}`);
   }
   
-  const copyTextToClipboard = (text: string) => {
+  const copyTextToClipboard = (text: string, message = "¡Descripción copiada al portapapeles!") => {
     if (text) {
       navigator.clipboard.writeText(text);
-      alert("¡Descripción copiada al portapapeles!");
+      alert(message);
     }
   };
   
-  const handleDeleteProject = (projectId: string) => {
-    const updatedProjects = savedProjects.filter(p => p.id !== projectId);
-    setSavedProjects(updatedProjects);
+  const handleDeleteProjects = async (projectIds: string[]) => {
     try {
-        localStorage.setItem('savedProjects', JSON.stringify(updatedProjects));
+        await Promise.all(projectIds.map(deleteProject));
     } catch(e) {
         console.error("No se pudo eliminar el proyecto:", e);
     }
+    // Keep what is on screen, but stop autosave from bringing a deleted project back.
+    if (currentProjectId && projectIds.includes(currentProjectId)) dispatch({ type: 'forgetProject' });
+    await refreshProjects();
   }
 
+  const handleUpdateProjectDetails = async (projectId: string, details: Pick<SavedProject, 'tags' | 'folder'>) => {
+    await updateProjectDetails(projectId, details);
+    await refreshProjects();
+  };
+
+  /**
+   * Reopens a saved project in the result step with the inputs it was created from, ready for more variations.
+   * Resolves to false when it could not be opened.
+   */
+  const handleOpenProject = async (projectId: string): Promise<boolean> => {
+    let project: SavedProject | null;
+    try {
+      project = await loadProject(projectId);
+    } catch (e) {
+      console.error("No se pudo abrir el proyecto:", e);
+      alert("No se pudo abrir el proyecto.");
+      return false;
+    }
+    if (!project) {
+      setError({ message: 'Ese proyecto ya no está en el historial.', suggestion: 'Puede que se haya eliminado o que se creara en otro navegador.' });
+      await refreshProjects();
+      return false;
+    }
+    cancelRequest();
+    const inputs = project.inputs;
+    dispatch({ type: 'load', session: {
+      step: 'result',
+      inputFiles: inputs?.images ?? [],
+      inputImagePreviews: (inputs?.images ?? []).map(file => URL.createObjectURL(file)),
+      initialPrompt: inputs?.prompt ?? '',
+      selectedStyleId: findStylePreset(stylePresets, inputs?.style).id,
+      selectedFormats: inputs?.formats.length ? inputs.formats : [...new Set<AdFormat>(project.generations.flatMap(gen => gen.images.map(img => img.format)))],
+      outputLanguage: inputs?.language ?? DEFAULT_OUTPUT_LANGUAGE,
+      insights: null,
+      generations: project.generations,
+      selectedGenerationId: project.generations[project.generations.length - 1].id,
+      editPrompt: '',
+      currentProjectId: project.id,
+    } });
+    if (inputs?.brandKitId && brandKits.some(kit => kit.id === inputs.brandKitId)) handleActivateBrandKit(inputs.brandKitId);
+    setActiveFormats({});
+    setError(inputs?.images.length ? null : {
+      message: 'Este proyecto se guardó antes de que se conservaran las fotos originales.',
+      suggestion: 'Puedes editar sus imágenes, pero para generar otra variación vuelve a subir las fotos con "Crear nuevo anuncio".',
+    });
+    setIsHistoryOpen(false);
+    return true;
+  };
+
+  /** Picks up a checkpointed session where it was left, reading its results back from their project. */
+  const handleRestoreDraft = async (draft: SessionDraft) => {
+    setPendingDraft(null);
+    let project: SavedProject | null = null;
+    if (draft.step === 'result' && draft.projectId) {
+      project = await loadProject(draft.projectId).catch(e => {
+        console.error("No se pudo abrir el proyecto de la sesión:", e);
+        return null;
+      });
+    }
+    const generations = project?.generations ?? [];
+    cancelRequest();
+    dispatch({ type: 'load', session: {
+      step: generations.length > 0 ? 'result' : 'upload',
+      inputFiles: draft.inputs.images,
+      inputImagePreviews: draft.inputs.images.map(file => URL.createObjectURL(file)),
+      initialPrompt: draft.inputs.prompt,
+      selectedStyleId: findStylePreset(stylePresets, draft.inputs.style).id,
+      selectedFormats: draft.inputs.formats.length ? draft.inputs.formats : [DEFAULT_FORMAT],
+      outputLanguage: draft.inputs.language,
+      insights: draft.insights,
+      generations,
+      selectedGenerationId: generations.find(gen => gen.id === draft.selectedGenerationId)?.id ?? generations[generations.length - 1]?.id ?? null,
+      editPrompt: draft.editPrompt,
+      currentProjectId: project ? project.id : null,
+    } });
+    if (draft.inputs.brandKitId && brandKits.some(kit => kit.id === draft.inputs.brandKitId)) handleActivateBrandKit(draft.inputs.brandKitId);
+    setActiveFormats({});
+    setBatchMode(false);
+    setError(draft.interrupted ? {
+      message: 'La sesión se cerró mientras se generaba o editaba un anuncio, y ese resultado se perdió.',
+      suggestion: 'Vuelve a pedirlo; todo lo anterior está restaurado.',
+    } : null);
+  };
+
+  /** Follows a route the user navigated to with the browser's back and forward buttons or a link. */
+  const applyRoute = async (route: AppRoute) => {
+    if (route.name === 'project') {
+      if (route.projectId === currentProjectId && (step === 'result' || step === 'editing')) return;
+      if (!(await handleOpenProject(route.projectId))) {
+        const current = sessionRoute(session, batchMode);
+        if (current) window.history.replaceState(null, '', routeHash(current));
+      }
+      return;
+    }
+    if (step !== 'upload') {
+      cancelRequest();
+      dispatch({ type: 'backToUpload' });
+      setActiveFormats({});
+      setIsVariationCompareOpen(false);
+      setError(null);
+    }
+    setBatchMode(route.name === 'batch');
+  };
+
+  const handlePopState = () => { applyRoute(parseRouteHash(window.location.hash)); };
+
+  useEffect(() => {
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [handlePopState]);
+
+  // Once the brand kits and styles are loaded, open what the URL points at and
+  // look for a session to offer back.
+  const launchedRef = useRef(false);
+  useEffect(() => {
+    if (!librariesLoaded || launchedRef.current) return;
+    launchedRef.current = true;
+    (async () => {
+      const route = parseRouteHash(window.location.hash);
+      const draft = await loadDraft().catch(e => {
+        console.warn("No se pudo leer el borrador de la sesión:", e);
+        return null;
+      });
+      if (route.name === 'project') {
+        await handleOpenProject(route.projectId);
+      } else if (route.name === 'batch') {
+        setBatchMode(true);
+      }
+      // Reloading a project link already brings back that session.
+      if (draft && !isEmptyDraft(draft) && !(route.name === 'project' && draft.projectId === route.projectId)) {
+        setPendingDraft(draft);
+      }
+      setRouteReady(true);
+    })();
+  }, [librariesLoaded]);
+
+  const currentRouteHash = (() => {
+    const route = sessionRoute(session, batchMode);
+    return route ? routeHash(route) : null;
+  })();
+
+  // Each step gets its own history entry; the first one replaces whatever URL the app was opened with.
+  const replaceRouteRef = useRef(true);
+  useEffect(() => {
+    if (!routeReady || !currentRouteHash) return;
+    if (window.location.hash !== currentRouteHash) {
+      if (replaceRouteRef.current) {
+        window.history.replaceState(null, '', currentRouteHash);
+      } else {
+        window.history.pushState(null, '', currentRouteHash);
+      }
+    }
+    replaceRouteRef.current = false;
+  }, [routeReady, currentRouteHash]);
+
+  // Checkpoints the session shortly after it changes, and drops the checkpoint
+  // once the session is empty again. While an older draft is still on offer,
+  // an empty session must not wipe it.
+  useEffect(() => {
+    if (!routeReady) return;
+    const draft = sessionDraft(session, activeStylePreset.name, activeBrandKitId);
+    const empty = isEmptyDraft(draft);
+    if (empty && pendingDraft) return;
+    const timer = setTimeout(() => {
+      (empty ? clearDraft() : saveDraft(draft)).catch(e => console.warn("No se pudo guardar el borrador de la sesión:", e));
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [routeReady, session, activeStylePreset.name, activeBrandKitId, pendingDraft]);
+
+  const handleExportProjects = async (projectIds: string[]) => {
+    const bundle = await exportProjectBundle(projectIds);
+    downloadFile(bundle, `proyectos-${new Date().toISOString().slice(0, 10)}.zip`);
+  };
+
+  const handleImportProjects = async (file: File) => {
+    try {
+      return await importProjectBundle(file);
+    } finally {
+      await refreshProjects();
+    }
+  };
+
+  const toggleFormat = (format: AdFormat) => {
+    dispatch({ type: 'change', changes: { selectedFormats: selectedFormats.includes(format)
+      ? selectedFormats.filter(f => f !== format)
+      : AD_FORMATS.map(f => f.id).filter(id => id === format || selectedFormats.includes(id)) } });
+  };
+
   const renderUploadStep = () => {
-    const styles = ['Automático', 'Lujoso y Exclusivo', 'Fresco y Natural', 'Tecnológico y Moderno', 'Cálido y Acogedor', 'Divertido y Vibrante', 'Profesional y Corporativo'];
-    
     return (
         <div className="w-full max-w-3xl mx-auto flex flex-col gap-6 animate-fade-in">
            <header className="text-center mb-4">
@@ -230,61 +739,173 @@ const App: React.FC = () => {
               <p className="mt-2 text-lg text-slate-500 max-w-2xl mx-auto">
                 Transforma las fotos de tus productos en anuncios profesionales con un solo clic.
               </p>
+              <button onClick={() => setIsUsageOpen(true)} className="mt-2 text-sm font-semibold text-bordo hover:underline">
+                <i className="fas fa-chart-column mr-1"></i> Uso y costos
+              </button>
             </header>
+           <div className="flex justify-center">
+             <div className="inline-flex p-1 bg-white border border-slate-200 rounded-full">
+               {[{ batch: false, label: 'Un anuncio', icon: 'fa-image' }, { batch: true, label: 'Catálogo por lotes', icon: 'fa-table-list' }].map(mode => (
+                 <button
+                   key={mode.label}
+                   onClick={() => setBatchMode(mode.batch)}
+                   disabled={step === 'processing'}
+                   className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors ${batchMode === mode.batch ? 'bg-bordo text-white' : 'text-slate-700 hover:bg-slate-100'}`}
+                 >
+                   <i className={`fas ${mode.icon} mr-1`}></i> {mode.label}
+                 </button>
+               ))}
+             </div>
+           </div>
+           {!batchMode && <>
            <div 
             className="w-full p-10 border-2 border-dashed border-mostaza/50 rounded-xl text-center bg-white cursor-pointer hover:border-mostaza hover:bg-crema/20 transition-all"
             onClick={() => fileInputRef.current?.click()}
             onDragOver={(e) => e.preventDefault()}
             onDrop={(e) => { e.preventDefault(); handleFileChange(e.dataTransfer.files); }}
           >
-            <input type="file" ref={fileInputRef} onChange={(e) => handleFileChange(e.target.files)} accept="image/*" multiple className="hidden" />
-            <i className="fas fa-images text-5xl text-mostaza"></i>
-            <p className="mt-4 text-xl font-semibold text-bordo">Arrastra tus imágenes aquí</p>
+            <input type="file" ref={fileInputRef} onChange={(e) => { handleFileChange(e.target.files); e.target.value = ''; }} accept={ACCEPTED_IMAGE_TYPES.join(',')} multiple className="hidden" />
+            {isPreparingImages ? <Spinner className="h-12 w-12 mx-auto text-mostaza" /> : <i className="fas fa-images text-5xl text-mostaza"></i>}
+            <p className="mt-4 text-xl font-semibold text-bordo">{isPreparingImages ? 'Preparando imágenes...' : 'Arrastra tus imágenes aquí'}</p>
             <p className="text-slate-500 mt-1">o haz clic para seleccionar. También puedes pegarlas (Ctrl+V).</p>
           </div>
           
           {inputImagePreviews.length > 0 && (
-            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4">
-                {inputImagePreviews.map((src, index) => <img key={index} src={src} className="w-full h-24 object-cover rounded-md border" alt={`preview ${index}`}/>)}
-            </div>
+            <InputImageGrid
+              files={inputFiles}
+              previews={inputImagePreviews}
+              onRemove={removeInputFile}
+              onMove={moveInputFile}
+              onCrop={setCropIndex}
+            />
           )}
 
+          {inputFiles.length > 0 && (
+            <ImageAnalyzer files={inputFiles} brandKit={activeBrandKit} insights={insights} onChange={(changed) => dispatch({ type: 'change', changes: { insights: changed } })} />
+          )}
+           </>}
+
+          <div className="flex items-center gap-3 p-3 bg-white border border-slate-200 rounded-lg">
+             {activeBrandKit?.logoUrl
+               ? <img src={activeBrandKit.logoUrl} alt="" className="w-10 h-10 object-contain" />
+               : <i className="fas fa-store text-2xl text-mostaza w-10 text-center"></i>}
+             <div className="flex-grow min-w-0">
+               <p className="text-xs text-slate-500">Kit de marca</p>
+               <p className="font-semibold text-bordo truncate">{activeBrandKit ? activeBrandKit.name : 'Ninguno'}</p>
+             </div>
+             {brandKits.length > 0 && (
+               <select
+                 value={activeBrandKitId ?? ''}
+                 onChange={(e) => handleActivateBrandKit(e.target.value || null)}
+                 className="p-2 border border-slate-300 rounded-lg text-sm bg-white"
+               >
+                 <option value="">Sin marca</option>
+                 {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+               </select>
+             )}
+             <button onClick={() => setIsBrandKitOpen(true)} className="text-sm font-semibold text-bordo hover:underline whitespace-nowrap">
+               Gestionar marcas
+             </button>
+          </div>
+
+          <div className="flex items-center gap-3 p-3 bg-white border border-slate-200 rounded-lg">
+             <i className="fas fa-language text-2xl text-mostaza w-10 text-center"></i>
+             <label htmlFor="outputLanguage" className="flex-grow text-sm text-slate-600">Idioma de los textos del anuncio</label>
+             <select
+               id="outputLanguage"
+               value={outputLanguage}
+               onChange={(e) => dispatch({ type: 'change', changes: { outputLanguage: e.target.value } })}
+               className="p-2 border border-slate-300 rounded-lg text-sm bg-white"
+             >
+               {OUTPUT_LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.label}</option>)}
+             </select>
+          </div>
+
           <div>
-             <label className="block text-sm font-medium text-bordo mb-2">1. Elige un estilo</label>
+             <div className="flex items-center justify-between mb-2">
+               <label className="block text-sm font-medium text-bordo">1. Elige un estilo</label>
+               <button onClick={() => setIsStylesOpen(true)} className="text-sm font-semibold text-bordo hover:underline">
+                 Gestionar estilos
+               </button>
+             </div>
              <div className="flex flex-wrap gap-2">
-                {styles.map(style => (
+                {stylePresets.map(preset => (
                     <button
-                        key={style}
-                        onClick={() => setSelectedStyle(style)}
-                        className={`px-4 py-2 rounded-full text-sm font-semibold transition-colors ${
-                            selectedStyle === style
+                        key={preset.id}
+                        onClick={() => handleSelectStyle(preset)}
+                        title={[preset.copyPrompt, preset.imagePrompt].filter(Boolean).join(' ')}
+                        className={`pl-1 pr-4 py-1 rounded-full text-sm font-semibold transition-colors flex items-center gap-2 ${
+                            selectedStyleId === preset.id
                             ? 'bg-bordo text-white'
                             : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
                         }`}
                     >
-                        {style}
+                        <StyleThumbnail preset={preset} className="w-7 h-7 !rounded-full" />
+                        {preset.name}
                     </button>
                 ))}
             </div>
           </div>
     
           <div>
-            <label htmlFor="initialPrompt" className="block text-sm font-medium text-bordo mb-2">2. Pega la descripción existente o da contexto (opcional)</label>
+             <div className="flex items-center justify-between mb-2">
+               <label className="block text-sm font-medium text-bordo">2. Elige los formatos</label>
+               <button
+                 onClick={() => dispatch({ type: 'change', changes: { selectedFormats: selectedFormats.length === AD_FORMATS.length ? [DEFAULT_FORMAT] : AD_FORMATS.map(f => f.id) } })}
+                 className="text-sm font-semibold text-bordo hover:underline"
+               >
+                 {selectedFormats.length === AD_FORMATS.length ? 'Solo cuadrado' : 'Generar todos los formatos'}
+               </button>
+             </div>
+             <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {AD_FORMATS.map(format => (
+                    <button
+                        key={format.id}
+                        onClick={() => toggleFormat(format.id)}
+                        className={`p-3 rounded-lg text-left transition-colors border ${
+                            selectedFormats.includes(format.id)
+                            ? 'bg-bordo text-white border-bordo'
+                            : 'bg-white text-slate-700 hover:bg-slate-100 border-slate-300'
+                        }`}
+                    >
+                        <span className="block text-sm font-semibold">{format.label} · {format.id}</span>
+                        <span className={`block text-xs ${selectedFormats.includes(format.id) ? 'text-white/80' : 'text-slate-500'}`}>{format.usage}</span>
+                    </button>
+                ))}
+            </div>
+          </div>
+
+          {/* Kept mounted while hidden, like the upload step itself, so neither switching modes nor opening a result cancels a running batch. */}
+          <div className={batchMode ? '' : 'hidden'}>
+            <label className="block text-sm font-medium text-bordo mb-2">3. Sube el catálogo y sus fotos</label>
+            <BatchMode style={activeStylePreset} formats={selectedFormats} brandKit={activeBrandKit} language={outputLanguage} onProjectSaved={refreshProjects} />
+          </div>
+          {!batchMode && <>
+          <div>
+            <label htmlFor="initialPrompt" className="block text-sm font-medium text-bordo mb-2">3. Pega la descripción existente o da contexto (opcional)</label>
             <textarea
               id="initialPrompt"
               value={initialPrompt}
-              onChange={(e) => setInitialPrompt(e.target.value)}
+              onChange={(e) => dispatch({ type: 'change', changes: { initialPrompt: e.target.value } })}
               placeholder="Ej: Pega aquí la descripción de tu post de Facebook. La IA priorizará este texto para la imagen."
               className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-mostaza bg-white"
               rows={4}
             />
           </div>
     
-          <button onClick={handleGenerate} disabled={step === 'processing'} className="w-full bg-bordo hover:bg-opacity-90 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center disabled:bg-bordo/50">
-            {step === 'processing' ? <><Spinner className="text-white"/> Procesando...</> : 'Generar Contenido'}
-          </button>
+          <div className="flex gap-2">
+            <button onClick={handleGenerate} disabled={step === 'processing' || isPreparingImages} className="flex-grow bg-bordo hover:bg-opacity-90 text-white font-bold py-3 px-4 rounded-lg transition-colors flex items-center justify-center disabled:bg-bordo/50">
+              {step === 'processing' ? <><Spinner className="text-white"/> Procesando...</> : 'Generar Contenido'}
+            </button>
+            {step === 'processing' && (
+              <button onClick={cancelRequest} className="px-5 py-3 rounded-lg font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">
+                Cancelar
+              </button>
+            )}
+          </div>
     
-          {error && <p className="text-red-500 text-center">{error}</p>}
+          {error && <ErrorNotice error={error} onDismiss={() => setError(null)} />}
+          </>}
         </div>
       );
   }
@@ -292,29 +913,71 @@ const App: React.FC = () => {
   const renderResultStep = () => (
     <div className="w-full max-w-7xl mx-auto flex flex-col items-center pb-28">
         <div className="w-full max-w-2xl flex flex-col gap-8">
+            {error && <ErrorNotice error={error} onDismiss={() => setError(null)} />}
+            {generations.length > 1 && (
+                <div className="bg-white p-4 rounded-2xl shadow-lg border border-slate-200/80 flex flex-wrap items-center gap-3">
+                    <button onClick={() => setIsVariationCompareOpen(true)} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90">
+                        <i className="fas fa-table-columns mr-1"></i> Comparar variaciones
+                    </button>
+                    <button onClick={handleExportChosen} disabled={!generations.some(isChosen) || isExportingChosen} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300 disabled:opacity-50">
+                        {isExportingChosen ? <Spinner className="inline mr-1" /> : <i className="fas fa-file-zipper mr-1"></i>} Exportar elegidas ({generations.filter(isChosen).length})
+                    </button>
+                    <button onClick={() => confirmExportOf(generations) && setIsCatalogPrintOpen(true)} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">
+                        <i className="fas fa-file-pdf mr-1"></i> Catálogo PDF
+                    </button>
+                    <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                        <input type="checkbox" checked={useReviewsAsGuidance} onChange={(e) => setUseReviewsAsGuidance(e.target.checked)} className="accent-bordo" />
+                        Usar mis valoraciones como guía para la próxima variación
+                        {useReviewsAsGuidance && (
+                            <span className="text-xs text-slate-500">({generations.filter(isLiked).length} me gustan, {generations.filter(isDisliked).length} no)</span>
+                        )}
+                    </label>
+                </div>
+            )}
             {generations.map((gen, index) => (
-                <div key={index} className="bg-white p-4 sm:p-5 rounded-2xl shadow-lg border border-slate-200/80 animate-fade-in">
-                    <div className="w-full aspect-square bg-slate-100 rounded-lg flex items-center justify-center overflow-hidden relative group">
-                         {(step === 'processing' || (step === 'editing' && index === generations.length -1)) && <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-10"><Spinner className="text-white h-8 w-8"/></div>}
-                         <img src={gen.imageUrl} alt={`Imagen generada ${index + 1}`} className="w-full h-full object-contain" />
-                         <ActionButton 
-                            icon="fa-download" 
-                            title="Descargar Imagen" 
-                            onClick={() => downloadImage(gen.imageUrl)}
-                            className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity"
-                         />
-                    </div>
-                    <div className="mt-4 flex gap-4 items-center">
-                         <ActionButton 
-                           icon="fa-clipboard"
-                           title="Copiar Descripción"
-                           onClick={() => copyTextToClipboard(gen.description)}
-                           className="w-9 h-9 flex-shrink-0"
-                        />
-                        <div className="flex-grow p-3 bg-crema/20 border border-crema rounded-lg">
-                           <p className="whitespace-pre-wrap font-sans text-slate-700 text-sm">{gen.description}</p>
+                <div
+                    key={gen.id}
+                    onClick={() => dispatch({ type: 'select', generationId: gen.id })}
+                    className={`bg-white p-4 sm:p-5 rounded-2xl shadow-lg border animate-fade-in ${
+                        gen.id === selectedGenerationId && generations.length > 1 ? 'border-mostaza ring-2 ring-mostaza/50' : 'border-slate-200/80'
+                    } ${gen.review.rejected ? 'opacity-60' : ''}`}
+                >
+                    <ImageDisplay
+                        generation={gen}
+                        index={index}
+                        activeFormat={getActiveImage(gen).format}
+                        busy={step === 'processing' || (step === 'editing' && gen.id === selectedGenerationId)}
+                        onFormatChange={(format) => setActiveFormats(prev => ({ ...prev, [gen.id]: format }))}
+                        onDownload={(images, mimeType) => confirmExportOf([gen]) && images.forEach(image => downloadImage(image, mimeType))}
+                        onPrint={(image) => confirmExportOf([gen]) && setPrintImage(image)}
+                        onImageChange={(image) => updateImage(gen.id, image)}
+                        onCompare={(image, left, right) => setComparison({ generationId: gen.id, image, left, right })}
+                        onEditRegion={(image) => setRegionEdit({ generationId: gen.id, image })}
+                        onEditText={(image) => setTextEdit({ generationId: gen.id, image })}
+                    />
+                    <AdChecklistBadge
+                        generation={gen}
+                        reviewing={reviewingIds.includes(gen.id)}
+                        busy={step !== 'result'}
+                        canAddDisclaimer={Boolean(activeBrandKit?.disclaimer.trim())}
+                        onReview={() => runReview(gen, currentProjectId)}
+                        onAcknowledge={(check) => handleAcknowledgeCheck(gen, check)}
+                        onAddDisclaimer={() => handleAddDisclaimer(gen)}
+                    />
+                    {generations.length > 1 && (
+                        <div className="mt-3">
+                            <VariationReview review={gen.review} onChange={(changes) => handleReview(gen.id, changes)} />
                         </div>
-                    </div>
+                    )}
+                    <CopyPanel generation={gen} onCopy={copyTextToClipboard} />
+                    <AdvancedPanel
+                        generation={gen}
+                        busy={step !== 'result'}
+                        canRegenerateCopy={inputFiles.length > 0}
+                        onRegenerateImage={(prompt) => handleRegenerateImage(gen, prompt)}
+                        onRegenerateCopy={() => handleRegenerateCopy(gen)}
+                        onApplyText={(text) => handleApplyOverlayText(gen, text)}
+                    />
                 </div>
             ))}
         </div>
@@ -322,76 +985,148 @@ const App: React.FC = () => {
         <div className="fixed bottom-0 left-0 right-0 p-3 bg-white/70 backdrop-blur-sm border-t border-slate-200/80 z-30">
             <div className="max-w-2xl mx-auto flex items-center gap-2">
                  <div className="flex items-center gap-2">
-                    <ActionButton icon="fa-wand-magic-sparkles" title="Generar otra variación" onClick={handleGenerateAnother} disabled={step !== 'result'}/>
+                    <ActionButton icon="fa-wand-magic-sparkles" title="Generar otra variación" onClick={handleGenerateAnother} disabled={step !== 'result' || inputFiles.length === 0}/>
                     <ActionButton icon="fa-history" title="Ver Historial" onClick={() => setIsHistoryOpen(true)} />
+                    <ActionButton icon="fa-chart-column" title="Uso y costos" onClick={() => setIsUsageOpen(true)} />
                     <ActionButton icon="fa-plus" title="Crear Nuevo Anuncio" onClick={handleReset}/>
                  </div>
                  <input 
                     type="text"
                     id="editPrompt"
                     value={editPrompt}
-                    onChange={(e) => setEditPrompt(e.target.value)}
-                    placeholder="Edita la última imagen... ej: cambia el fondo a una playa"
+                    onChange={(e) => dispatch({ type: 'change', changes: { editPrompt: e.target.value } })}
+                    placeholder={generations.length > 1 ? 'Edita la imagen seleccionada... ej: cambia el fondo a una playa' : 'Edita la imagen... ej: cambia el fondo a una playa'}
                     className="flex-grow p-3 border border-slate-300 rounded-full focus:ring-2 focus:ring-mostaza shadow-sm mx-2"
                     onKeyDown={(e) => e.key === 'Enter' && handleEdit()}
                   />
-                  <ActionButton 
-                    icon="fa-paper-plane" 
-                    title="Aplicar Edición" 
-                    onClick={handleEdit} 
-                    disabled={!editPrompt || step === 'editing'}
-                  />
+                  {step === 'editing' ? (
+                    <ActionButton icon="fa-xmark" title="Cancelar edición" onClick={cancelRequest} />
+                  ) : (
+                    <ActionButton 
+                      icon="fa-paper-plane" 
+                      title="Aplicar Edición" 
+                      onClick={handleEdit} 
+                      disabled={!editPrompt}
+                    />
+                  )}
             </div>
         </div>
     </div>
   );
   
-  const HistoryModal = () => (
-    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={() => setIsHistoryOpen(false)}>
-      <div className="bg-white w-full max-w-4xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
-        <header className="p-4 border-b flex justify-between items-center">
-            <h2 className="text-xl font-bold text-bordo">Historial de Proyectos</h2>
-            <button onClick={() => setIsHistoryOpen(false)} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
-        </header>
-        <div className="overflow-y-auto p-6">
-            {savedProjects.length === 0 ? (
-                <p className="text-slate-500 text-center py-8">Tu historial está vacío. ¡Empieza a crear!</p>
-            ) : (
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {savedProjects.map(project => (
-                        <div key={project.id} className="bg-white rounded-lg shadow-md overflow-hidden border border-slate-200 group relative">
-                            <img src={project.previewImage} alt="Creación guardada" className="w-full h-40 object-cover"/>
-                             <button 
-                                title="Eliminar Proyecto"
-                                onClick={() => handleDeleteProject(project.id)}
-                                className="absolute top-2 right-2 w-8 h-8 bg-black/50 text-white rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500"
-                              >
-                               <i className="fas fa-trash-alt text-xs"></i>
-                             </button>
-                            <div className="p-4">
-                               <p className="text-xs text-slate-400 mb-2">{project.timestamp}</p>
-                               <p className="text-sm text-slate-600 whitespace-pre-wrap line-clamp-3">{project.generations[0].description}</p>
-                            </div>
-                        </div>
-                    ))}
-                </div>
-            )}
-        </div>
-      </div>
-    </div>
-  );
-
   return (
     <>
+      {storageWarning && (
+        <div className="sticky top-0 z-40 bg-amber-100 border-b border-amber-300 text-amber-900 px-4 py-3 flex items-center gap-3">
+          <i className="fas fa-triangle-exclamation"></i>
+          <p className="flex-grow text-sm">{storageWarning}</p>
+          <button onClick={() => setStorageWarning('')} className="text-amber-900/70 hover:text-amber-900 text-xl font-bold">&times;</button>
+        </div>
+      )}
+      {pendingDraft && (
+        <div className="bg-crema/60 border-b border-mostaza/50 text-bordo px-4 py-3 flex flex-wrap items-center gap-3 animate-fade-in">
+          <i className="fas fa-clock-rotate-left"></i>
+          <p className="flex-grow text-sm">
+            Tienes una sesión sin terminar del {new Date(pendingDraft.savedAt).toLocaleString('es')}
+            {' '}({pendingDraft.inputs.images.length === 1 ? '1 foto' : `${pendingDraft.inputs.images.length} fotos`}{pendingDraft.step === 'result' ? ', con resultados' : ''}).
+          </p>
+          <button onClick={() => handleRestoreDraft(pendingDraft)} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90">
+            Restaurar sesión
+          </button>
+          <button onClick={() => setPendingDraft(null)} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">
+            Descartar
+          </button>
+        </div>
+      )}
       <div className="flex-grow">
         <div className="container mx-auto p-4 sm:p-6 md:p-8">
           <main className="min-h-[60vh]">
-            {(step === 'upload' || step === 'processing') && renderUploadStep()}
+            {/* Hidden rather than unmounted during results: it holds the catalog batch, whose queue lives as long as it does. */}
+            <div className={step === 'upload' || step === 'processing' ? '' : 'hidden'}>{renderUploadStep()}</div>
             {(step === 'result' || step === 'editing') && renderResultStep()}
           </main>
         </div>
       </div>
-      {isHistoryOpen && <HistoryModal />}
+      {isStylesOpen && (
+        <StylePresetManager
+          presets={stylePresets}
+          activePresetId={selectedStyleId}
+          onActivate={handleSelectStyle}
+          onSave={handleSaveStylePresets}
+          onDelete={handleDeleteStylePreset}
+          onClose={() => setIsStylesOpen(false)}
+        />
+      )}
+      {isBrandKitOpen && (
+        <BrandKitManager
+          kits={brandKits}
+          activeKitId={activeBrandKitId}
+          onActivate={handleActivateBrandKit}
+          onSave={handleSaveBrandKit}
+          onDelete={handleDeleteBrandKit}
+          onClose={() => setIsBrandKitOpen(false)}
+        />
+      )}
+      {textEdit && (
+        <TextOverlayEditor
+          imageUrl={currentImageUrl(textEdit.image)}
+          format={textEdit.image.format}
+          layers={textEdit.image.layers}
+          logo={textEdit.image.logo}
+          onSave={(layers, logo) => updateImage(textEdit.generationId, { ...textEdit.image, layers, logo })}
+          onClose={() => setTextEdit(null)}
+        />
+      )}
+      {regionEdit && (
+        <ImageEditor
+          imageUrl={currentImageUrl(regionEdit.image)}
+          onApply={handleRegionEdit}
+          onCancel={cancelRequest}
+          onClose={() => setRegionEdit(null)}
+        />
+      )}
+      {cropIndex !== null && inputImagePreviews[cropIndex] && (
+        <ImageCropper
+          imageUrl={inputImagePreviews[cropIndex]}
+          onApply={handleCropInput}
+          onClose={() => setCropIndex(null)}
+        />
+      )}
+      {comparison && (
+        <VersionCompareModal
+          left={comparison.left}
+          right={comparison.right}
+          onUse={(versionId) => {
+            updateImage(comparison.generationId, selectVersion(comparison.image, versionId));
+            setComparison(null);
+          }}
+          onClose={() => setComparison(null)}
+        />
+      )}
+      {printImage && <PrintDialog image={printImage} onClose={() => setPrintImage(null)} />}
+      {isCatalogPrintOpen && <PrintDialog generations={generations} onClose={() => setIsCatalogPrintOpen(false)} />}
+      {isVariationCompareOpen && (
+        <VariationCompareModal
+          generations={generations}
+          onReview={handleReview}
+          onExportChosen={handleExportChosen}
+          exporting={isExportingChosen}
+          onClose={() => setIsVariationCompareOpen(false)}
+        />
+      )}
+      {isUsageOpen && <UsageDashboard projects={savedProjects} onClose={() => setIsUsageOpen(false)} />}
+      {isHistoryOpen && (
+        <HistoryModal
+          projects={savedProjects}
+          storageUsage={storageUsage}
+          onClose={() => setIsHistoryOpen(false)}
+          onOpen={handleOpenProject}
+          onDelete={handleDeleteProjects}
+          onUpdateDetails={handleUpdateProjectDetails}
+          onExport={handleExportProjects}
+          onImport={handleImportProjects}
+        />
+      )}
     </>
   );
 };
@@ -0,0 +1,15 @@
+import React from 'react';
+
+const ActionButton: React.FC<{icon: string, title: string, onClick: (e: React.MouseEvent<HTMLButtonElement>) => void, className?: string, disabled?: boolean}> = 
+({ icon, title, onClick, className, disabled }) => (
+    <button
+        onClick={onClick}
+        title={title}
+        disabled={disabled}
+        className={`bg-white/80 text-bordo hover:bg-crema disabled:text-slate-400 disabled:cursor-not-allowed w-11 h-11 rounded-full flex items-center justify-center transition-all shadow-md border border-slate-200/50 ${className}`}
+    >
+        <i className={`fas ${icon} text-lg`}></i>
+    </button>
+);
+
+export default ActionButton;
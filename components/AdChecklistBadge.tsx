@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import Spinner from './Spinner';
+import type { AdCheck, CheckStatus, Generation } from '../types';
+import { checklistState, type ChecklistState } from '../utils/adChecks';
+
+const STATE_STYLES: Record<ChecklistState, { icon: string; label: string; className: string }> = {
+  pass: { icon: 'fa-circle-check', label: 'Revisión superada', className: 'bg-green-100 text-green-800 border-green-200' },
+  warn: { icon: 'fa-triangle-exclamation', label: 'Revisión con avisos', className: 'bg-amber-100 text-amber-900 border-amber-200' },
+  fail: { icon: 'fa-circle-xmark', label: 'Revisión con problemas', className: 'bg-red-100 text-red-700 border-red-200' },
+  outdated: { icon: 'fa-rotate', label: 'Cambió desde la revisión', className: 'bg-slate-100 text-slate-700 border-slate-300' },
+  unchecked: { icon: 'fa-clipboard-question', label: 'Sin revisar', className: 'bg-slate-100 text-slate-700 border-slate-300' },
+};
+
+const CHECK_ICONS: Record<CheckStatus, string> = {
+  pass: 'fa-check text-green-600',
+  warn: 'fa-triangle-exclamation text-amber-500',
+  fail: 'fa-xmark text-red-600',
+};
+
+/**
+ * Accessibility and compliance status of one ad, as a pill that opens the
+ * list of checks. A failed check can be fixed, reviewed again or
+ * acknowledged to let the ad be exported anyway.
+ */
+const AdChecklistBadge: React.FC<{
+  generation: Generation;
+  reviewing: boolean;
+  busy: boolean;
+  /** Whether the active brand kit has a legal text that can be added as a layer. */
+  canAddDisclaimer: boolean;
+  onReview: () => void;
+  onAcknowledge: (check: AdCheck) => void;
+  onAddDisclaimer: () => void;
+}> = ({ generation, reviewing, busy, canAddDisclaimer, onReview, onAcknowledge, onAddDisclaimer }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const { checklist } = generation;
+  const state = checklistState(generation);
+  const style = STATE_STYLES[state];
+  const counts = checklist && state !== 'outdated'
+    ? (['fail', 'warn'] as const).map(status => [status, checklist.checks.filter(check => check.status === status).length] as const)
+    : [];
+
+  return (
+    <div className="mt-3" onClick={e => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setOpen(!open)}
+          disabled={reviewing && !checklist}
+          className={`px-3 py-1 rounded-full text-xs font-semibold border ${style.className}`}
+        >
+          {reviewing ? <Spinner className="inline mr-1" /> : <i className={`fas ${style.icon} mr-1`}></i>}
+          {reviewing ? 'Revisando accesibilidad y avisos legales…' : style.label}
+          {!reviewing && counts.filter(([, count]) => count > 0).map(([status, count]) => (
+            <span key={status} className="ml-1 font-normal">· {count} {status === 'fail' ? (count === 1 ? 'problema' : 'problemas') : (count === 1 ? 'aviso' : 'avisos')}</span>
+          ))}
+          {checklist && <i className={`fas ${open ? 'fa-chevron-up' : 'fa-chevron-down'} ml-2`}></i>}
+        </button>
+        {!reviewing && (state === 'unchecked' || state === 'outdated') && (
+          <button onClick={onReview} disabled={busy} className="text-xs font-semibold text-bordo hover:underline disabled:opacity-50">
+            <i className="fas fa-clipboard-check mr-1"></i> {state === 'unchecked' ? 'Revisar ahora' : 'Revisar de nuevo'}
+          </button>
+        )}
+      </div>
+
+      {open && checklist && (
+        <div className="mt-3 p-3 bg-slate-50 border border-slate-200 rounded-lg flex flex-col gap-3 animate-fade-in">
+          {state === 'outdated' && (
+            <p className="text-xs text-slate-600">El anuncio cambió después de esta revisión, del {new Date(checklist.checkedAt).toLocaleString('es')}; los resultados pueden no valer ya.</p>
+          )}
+          <ul className="flex flex-col gap-2">
+            {checklist.checks.map(check => {
+              const acknowledged = checklist.acknowledged.includes(check.id);
+              return (
+                <li key={check.id} className="flex items-start gap-2 text-sm">
+                  <i className={`fas ${CHECK_ICONS[check.status]} mt-1 w-4 text-center`}></i>
+                  <div className="flex-grow">
+                    <p className="font-semibold text-slate-800">
+                      {check.label}
+                      {acknowledged && <span className="ml-2 text-xs font-normal text-slate-500">(se exportará de todas formas)</span>}
+                    </p>
+                    <p className="text-xs text-slate-600">{check.detail}</p>
+                    {check.status === 'fail' && (
+                      <div className="flex flex-wrap gap-3 mt-1">
+                        {check.id === 'disclaimer:brand' && canAddDisclaimer && (
+                          <button onClick={onAddDisclaimer} disabled={busy} className="text-xs font-semibold text-bordo hover:underline disabled:opacity-50">
+                            <i className="fas fa-plus mr-1"></i> Añadir texto legal
+                          </button>
+                        )}
+                        {!acknowledged && (
+                          <button onClick={() => onAcknowledge(check)} className="text-xs font-semibold text-slate-600 hover:underline">
+                            Exportar de todas formas
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-slate-500">Una ayuda, no asesoría legal: los requisitos dependen del país y del producto.</p>
+            <button onClick={onReview} disabled={busy || reviewing} className="text-xs font-semibold text-bordo hover:underline disabled:opacity-50">
+              <i className="fas fa-rotate mr-1"></i> Revisar de nuevo
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdChecklistBadge;
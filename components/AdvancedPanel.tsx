@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import type { Generation, OverlayText } from '../types';
+import { ROLE_LABELS } from '../utils/textLayers';
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza bg-white';
+
+const OVERLAY_ROLES: (keyof OverlayText)[] = ['headline', 'price', 'contact', 'cta'];
+
+const sameText = (a: OverlayText, b: OverlayText) => OVERLAY_ROLES.every(role => a[role] === b[role]);
+
+/**
+ * The two intermediate results of a generation, editable: the image prompt,
+ * which can be rendered again without touching the copy, and the ad text,
+ * which can be applied to the layers as is. The copy can also be rewritten by
+ * the model for the images already there.
+ */
+const AdvancedPanel: React.FC<{
+  generation: Generation;
+  busy: boolean;
+  /** False when the input photos are not available, e.g. projects saved before they were kept. */
+  canRegenerateCopy: boolean;
+  onRegenerateImage: (prompt: string) => void;
+  onRegenerateCopy: () => void;
+  onApplyText: (text: OverlayText) => void;
+}> = ({ generation, busy, canRegenerateCopy, onRegenerateImage, onRegenerateCopy, onApplyText }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [prompt, setPrompt] = useState<string>(generation.imagePrompt);
+  const [text, setText] = useState<OverlayText>(generation.overlayText);
+
+  // Regenerating replaces what was being edited with the new result.
+  useEffect(() => setPrompt(generation.imagePrompt), [generation.imagePrompt]);
+  useEffect(() => setText(generation.overlayText), [generation.overlayText]);
+
+  const textChanged = !sameText(text, generation.overlayText);
+
+  return (
+    <div className="mt-4 border-t pt-3" onClick={e => e.stopPropagation()}>
+      <button onClick={() => setOpen(!open)} className="text-sm font-semibold text-bordo hover:underline">
+        <i className={`fas ${open ? 'fa-chevron-down' : 'fa-chevron-right'} mr-1`}></i> Opciones avanzadas
+      </button>
+      {open && (
+        <div className="mt-3 flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <label className="block text-xs font-medium text-slate-600">
+              Prompt de la imagen (en inglés)
+              <textarea
+                className={`${inputClass} mt-1 font-mono text-xs`}
+                rows={5}
+                value={prompt}
+                placeholder="Este anuncio se generó antes de que se guardara el prompt. Escribe uno para regenerar la imagen."
+                onChange={(e) => setPrompt(e.target.value)}
+              />
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => onRegenerateImage(prompt.trim())}
+                disabled={busy || !prompt.trim()}
+                className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90 disabled:bg-bordo/50"
+              >
+                <i className="fas fa-image mr-1"></i> Regenerar solo la imagen
+              </button>
+              {prompt !== generation.imagePrompt && (
+                <button onClick={() => setPrompt(generation.imagePrompt)} className="text-sm font-semibold text-slate-600 hover:underline">
+                  Deshacer cambios
+                </button>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">Se crea una imagen nueva en cada formato con este prompt; los textos se mantienen y la imagen anterior queda en el historial de versiones.</p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <p className="text-xs font-medium text-slate-600">Textos del anuncio</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {OVERLAY_ROLES.map(role => (
+                <label key={role} className="block text-xs text-slate-500">
+                  {ROLE_LABELS[role]}
+                  <input className={`${inputClass} mt-1`} value={text[role]} onChange={(e) => setText(prev => ({ ...prev, [role]: e.target.value }))} />
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => onApplyText(text)}
+                disabled={busy || !textChanged}
+                className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300 disabled:opacity-50"
+              >
+                <i className="fas fa-check mr-1"></i> Aplicar textos
+              </button>
+              <button
+                onClick={onRegenerateCopy}
+                disabled={busy || !canRegenerateCopy}
+                title={canRegenerateCopy ? undefined : 'Hacen falta las fotos originales del producto.'}
+                className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90 disabled:bg-bordo/50"
+              >
+                <i className="fas fa-pen-nib mr-1"></i> Regenerar solo los textos
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">Regenerar los textos escribe nuevos titular, descripción, textos por plataforma y hashtags para la imagen actual, que no cambia.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedPanel;
@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Spinner from './Spinner';
+import PrintDialog from './PrintDialog';
+import AdChecklistBadge from './AdChecklistBadge';
+import type { AdCheck, AdFormat, BrandKit, Generation, StylePreset } from '../types';
+import { type CatalogRow, parseCatalog } from '../utils/catalog';
+import { downloadFile } from '../utils/fileUtils';
+import { currentImageUrl } from '../utils/versionTree';
+import { addDisclaimerLayer } from '../utils/textLayers';
+import { confirmExport } from '../utils/adChecks';
+import {
+  type BatchItem, type BatchResult, exportBatchZip, generateCatalogItem, matchCatalogImages, reviewCatalogItem, updateCatalogItem
+} from '../services/batchService';
+import { toApiError } from '../services/apiErrors';
+import { checkBudget } from '../services/usageStore';
+import { type Job, type JobQueue, type JobStatus, createJobQueue } from '../services/jobQueue';
+
+type BatchJob = Job<BatchItem, BatchResult>;
+
+const STATUS_LABELS: Record<JobStatus, { label: string; className: string }> = {
+  pending: { label: 'En cola', className: 'bg-slate-100 text-slate-600' },
+  running: { label: 'Generando', className: 'bg-crema/60 text-bordo' },
+  done: { label: 'Listo', className: 'bg-green-100 text-green-800' },
+  failed: { label: 'Error', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelado', className: 'bg-slate-200 text-slate-600' },
+};
+
+const secondaryButton = 'px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300 disabled:opacity-50';
+
+/**
+ * Generates one ad per product of a client catalog (CSV or JSON plus a folder
+ * of photos). Style, formats, brand kit and output language come from the upload step, as for
+ * a single ad; every finished row is reviewed like a single ad and saved as its own project in the history.
+ */
+const BatchMode: React.FC<{
+  style: StylePreset;
+  formats: AdFormat[];
+  brandKit: BrandKit | null;
+  language: string;
+  onProjectSaved: () => void;
+}> = ({ style, formats, brandKit, language, onProjectSaved }) => {
+  const [catalogName, setCatalogName] = useState<string>('');
+  const [rows, setRows] = useState<CatalogRow[]>([]);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [paused, setPaused] = useState<boolean>(false);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [isCatalogPrintOpen, setIsCatalogPrintOpen] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const queueRef = useRef<JobQueue<BatchItem, BatchResult> | null>(null);
+  // Ads that changed after their row finished (reviewed again, checks acknowledged, legal text added), by job id.
+  const [changed, setChanged] = useState<Record<string, Generation>>({});
+  const [reviewingIds, setReviewingIds] = useState<string[]>([]);
+  const reviewsRef = useRef<Set<AbortController>>(new Set());
+
+  useEffect(() => () => {
+    queueRef.current?.cancel();
+    reviewsRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  const items = matchCatalogImages(rows, photos);
+  const ready = items.filter(item => item.files.length > 0);
+  const withoutPhotos = items.length - ready.length;
+  const isRunning = jobs.some(job => job.status === 'running' || job.status === 'pending');
+  const finished = jobs.filter(job => job.status === 'done' && job.result);
+  const failed = jobs.filter(job => job.status === 'failed' || job.status === 'cancelled');
+  const generationOf = (job: BatchJob): Generation => changed[job.id] ?? job.result!.generation;
+
+  const handleCatalog = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      setRows(parseCatalog(await file.text(), file.name));
+      setCatalogName(file.name);
+    } catch (err) {
+      setRows([]);
+      setCatalogName('');
+      setError(err instanceof Error ? err.message : 'No se pudo leer el catálogo.');
+    }
+  };
+
+  const handleStart = async () => {
+    if (formats.length === 0) {
+      setError('Por favor, elige al menos un formato.');
+      return;
+    }
+    const budgetWarning = await checkBudget(formats.length, ready.length);
+    if (budgetWarning && !confirm(budgetWarning)) return;
+    setError('');
+    const settings = { style, formats, brandKit, language, folder: catalogName.replace(/\.[^.]+$/, '') };
+    const queue = createJobQueue<BatchItem, BatchResult>(
+      ready,
+      async (item, signal) => {
+        const result = await generateCatalogItem(item, settings, signal);
+        onProjectSaved();
+        return result;
+      },
+      { concurrency, onChange: setJobs },
+    );
+    queueRef.current = queue;
+    setJobs(queue.getJobs());
+    setPaused(false);
+    queue.start();
+  };
+
+  const togglePause = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused()) queue.resume(); else queue.pause();
+    setPaused(queue.isPaused());
+  };
+
+  const handleCancel = () => {
+    queueRef.current?.cancel();
+    setPaused(true);
+  };
+
+  const retry = (ids: string[]) => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    ids.forEach(queue.retry);
+    queue.resume();
+    setPaused(false);
+  };
+
+  const handleReview = async (job: BatchJob, generation: Generation) => {
+    const controller = new AbortController();
+    reviewsRef.current.add(controller);
+    setReviewingIds(prev => [...prev, job.id]);
+    try {
+      const reviewed = await reviewCatalogItem(job.input.row, job.result!.projectId, generation, brandKit, controller.signal);
+      setChanged(prev => ({ ...prev, [job.id]: reviewed }));
+      onProjectSaved();
+    } catch (err) {
+      if (toApiError(err).category === 'cancelled') return;
+      console.error("No se pudo revisar el anuncio:", err);
+      setError(`No se pudo revisar el anuncio de ${job.input.row.name}.`);
+    } finally {
+      reviewsRef.current.delete(controller);
+      setReviewingIds(prev => prev.filter(id => id !== job.id));
+    }
+  };
+
+  const handleAcknowledge = async (job: BatchJob, check: AdCheck) => {
+    const generation = generationOf(job);
+    if (!generation.checklist) return;
+    const updated = { ...generation, checklist: { ...generation.checklist, acknowledged: [...generation.checklist.acknowledged, check.id] } };
+    setChanged(prev => ({ ...prev, [job.id]: updated }));
+    try {
+      await updateCatalogItem(job.result!.projectId, updated);
+    } catch (err) {
+      console.error("No se pudo guardar el proyecto:", err);
+    }
+  };
+
+  /** Adds the brand kit's legal text to every format of a row's ad, saves it and reviews it again. */
+  const handleAddDisclaimer = async (job: BatchJob) => {
+    const disclaimer = brandKit?.disclaimer.trim();
+    if (!disclaimer) return;
+    const generation = generationOf(job);
+    const updated = { ...generation, images: generation.images.map(image => addDisclaimerLayer(image, disclaimer, brandKit, style)) };
+    setChanged(prev => ({ ...prev, [job.id]: updated }));
+    try {
+      await updateCatalogItem(job.result!.projectId, updated);
+    } catch (err) {
+      console.error("No se pudo guardar el proyecto:", err);
+    }
+    handleReview(job, updated);
+  };
+
+  /** The finished rows named by product, for `confirmExport`. */
+  const exportableAds = () => finished.map(job => ({ label: job.input.row.name, generation: generationOf(job) }));
+
+  const handleExport = async () => {
+    if (!confirmExport(exportableAds())) return;
+    setExporting(true);
+    try {
+      const zip = await exportBatchZip(finished.map(job => ({ row: job.input.row, generation: generationOf(job) })));
+      downloadFile(zip, `catalogo-${Date.now()}.zip`);
+    } catch (err) {
+      console.error("No se pudo exportar el lote:", err);
+      setError('No se pudo crear el archivo zip del lote.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleNewBatch = () => {
+    queueRef.current?.cancel();
+    queueRef.current = null;
+    reviewsRef.current.forEach(controller => controller.abort());
+    setChanged({});
+    setJobs([]);
+    setRows([]);
+    setPhotos([]);
+    setCatalogName('');
+  };
+
+  if (jobs.length === 0) {
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="p-6 border-2 border-dashed border-mostaza/50 rounded-xl text-center bg-white cursor-pointer hover:border-mostaza hover:bg-crema/20 transition-all">
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => { handleCatalog(e.target.files?.[0]); e.target.value = ''; }} />
+            <i className="fas fa-file-csv text-4xl text-mostaza"></i>
+            <p className="mt-3 font-semibold text-bordo">{catalogName || 'Sube el catálogo'}</p>
+            <p className="text-xs text-slate-500 mt-1">CSV o JSON con columnas nombre, precio, descripción e imagen</p>
+          </label>
+          <label className="p-6 border-2 border-dashed border-mostaza/50 rounded-xl text-center bg-white cursor-pointer hover:border-mostaza hover:bg-crema/20 transition-all">
+            <input type="file" accept="image/*" multiple webkitdirectory="" className="hidden" onChange={(e) => setPhotos(Array.from(e.target.files ?? []).filter((f: File) => f.type.startsWith('image/')))} />
+            <i className="fas fa-folder-open text-4xl text-mostaza"></i>
+            <p className="mt-3 font-semibold text-bordo">{photos.length > 0 ? `${photos.length} fotos` : 'Elige la carpeta de fotos'}</p>
+            <p className="text-xs text-slate-500 mt-1">Los nombres de archivo deben coincidir con la columna imagen</p>
+          </label>
+        </div>
+
+        {items.length > 0 && (
+          <div className="p-3 bg-white border border-slate-200 rounded-lg text-sm text-slate-600">
+            <p><strong className="text-bordo">{items.length}</strong> productos en el catálogo, <strong className="text-bordo">{ready.length}</strong> con foto.</p>
+            {photos.length > 0 && withoutPhotos > 0 && (
+              <p className="mt-1 text-amber-700">
+                {withoutPhotos} sin foto no se generarán: {items.filter(i => i.files.length === 0).slice(0, 5).map(i => i.row.name).join(', ')}{withoutPhotos > 5 ? '…' : ''}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-3">
+          <label className="text-sm text-slate-600 flex items-center gap-2">
+            Anuncios en paralelo
+            <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className="p-2 border border-slate-300 rounded-lg text-sm bg-white">
+              {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={handleStart}
+            disabled={ready.length === 0}
+            className="flex-grow bg-bordo hover:bg-opacity-90 text-white font-bold py-3 px-4 rounded-lg transition-colors disabled:bg-bordo/50"
+          >
+            Generar {ready.length > 0 ? `${ready.length} anuncios` : 'catálogo'}
+          </button>
+        </div>
+
+        {error && <p className="text-red-500 text-center">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <p className="text-sm text-slate-600 mr-auto">
+          <strong className="text-bordo">{finished.length}</strong> de {jobs.length} listos
+          {failed.length > 0 && <span className="text-red-600"> · {failed.length} con error</span>}
+        </p>
+        {isRunning && (
+          <>
+            <button onClick={togglePause} className={secondaryButton}>
+              <i className={`fas ${paused ? 'fa-play' : 'fa-pause'} mr-1`}></i> {paused ? 'Reanudar' : 'Pausar'}
+            </button>
+            <button onClick={handleCancel} className={secondaryButton}>Cancelar</button>
+          </>
+        )}
+        {!isRunning && failed.length > 0 && (
+          <button onClick={() => retry(failed.map(job => job.id))} className={secondaryButton}><i className="fas fa-rotate-right mr-1"></i> Reintentar fallidos</button>
+        )}
+        <button onClick={handleExport} disabled={finished.length === 0 || exporting} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90 disabled:bg-bordo/50">
+          {exporting ? <Spinner className="text-white inline" /> : <i className="fas fa-file-zipper mr-1"></i>} Exportar zip
+        </button>
+        <button onClick={() => confirmExport(exportableAds()) && setIsCatalogPrintOpen(true)} disabled={finished.length === 0} className={secondaryButton}>
+          <i className="fas fa-file-pdf mr-1"></i> Catálogo PDF
+        </button>
+        {!isRunning && <button onClick={handleNewBatch} className={secondaryButton}>Nuevo lote</button>}
+      </div>
+
+      <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+        <div className="h-full bg-bordo transition-all" style={{ width: `${(finished.length / jobs.length) * 100}%` }}></div>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-left text-xs text-slate-500 uppercase">
+            <tr>
+              <th className="p-2 w-16"></th>
+              <th className="p-2">Producto</th>
+              <th className="p-2">Precio</th>
+              <th className="p-2">Estado</th>
+              <th className="p-2 text-center">Intentos</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {jobs.map(job => (
+              <tr key={job.id} className="border-t border-slate-100 align-top">
+                <td className="p-2">
+                  {job.result
+                    ? <img src={currentImageUrl(generationOf(job).images[0])} alt="" className="w-12 h-12 object-cover rounded" />
+                    : <div className="w-12 h-12 rounded bg-slate-100 flex items-center justify-center">{job.status === 'running' && <Spinner />}</div>}
+                </td>
+                <td className="p-2">
+                  <p className="font-semibold text-slate-800">{job.input.row.name}</p>
+                  {job.input.missing.length > 0 && <p className="text-xs text-amber-700">Sin encontrar: {job.input.missing.join(', ')}</p>}
+                  {job.error && <p className="text-xs text-red-600 mt-1">{job.error}</p>}
+                  {job.status === 'done' && job.result && (
+                    <AdChecklistBadge
+                      generation={generationOf(job)}
+                      reviewing={reviewingIds.includes(job.id)}
+                      busy={false}
+                      canAddDisclaimer={Boolean(brandKit?.disclaimer.trim())}
+                      onReview={() => handleReview(job, generationOf(job))}
+                      onAcknowledge={(check) => handleAcknowledge(job, check)}
+                      onAddDisclaimer={() => handleAddDisclaimer(job)}
+                    />
+                  )}
+                </td>
+                <td className="p-2 text-slate-600 whitespace-nowrap">{job.input.row.price}</td>
+                <td className="p-2">
+                  <span className={`px-2 py-1 rounded-full text-xs font-semibold whitespace-nowrap ${STATUS_LABELS[job.status].className}`}>{STATUS_LABELS[job.status].label}</span>
+                </td>
+                <td className="p-2 text-center text-slate-600">{job.attempts}</td>
+                <td className="p-2 text-right">
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button
+                      onClick={() => retry([job.id])}
+                      title="Reintentar"
+                      className="text-bordo hover:underline text-xs font-semibold"
+                    >
+                      <i className="fas fa-rotate-right"></i> Reintentar
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && <p className="text-red-500 text-center">{error}</p>}
+      {isCatalogPrintOpen && (
+        <PrintDialog generations={finished.map(generationOf)} onClose={() => setIsCatalogPrintOpen(false)} />
+      )}
+    </div>
+  );
+};
+
+export default BatchMode;
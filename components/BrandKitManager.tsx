@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import type { BrandKit } from '../types';
+import { createEmptyBrandKit, exportBrandKit, parseBrandKitImport } from '../services/brandKitStore';
+import { blobToDataUrl, createThumbnail, downloadFile, slugify } from '../utils/fileUtils';
+import { FONT_OPTIONS } from '../utils/textLayers';
+
+const MAX_PALETTE_COLORS = 6;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block text-xs font-medium text-slate-600">
+    {label}
+    <div className="mt-1">{children}</div>
+  </label>
+);
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza bg-white';
+
+const BrandKitForm: React.FC<{
+  kit: BrandKit;
+  onSave: (kit: BrandKit) => void;
+  onCancel: () => void;
+}> = ({ kit: initialKit, onSave, onCancel }) => {
+  const [kit, setKit] = useState<BrandKit>(initialKit);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const update = (changes: Partial<BrandKit>) => setKit(prev => ({ ...prev, ...changes }));
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    // PNG keeps the transparency most logos rely on.
+    update({ logoUrl: await blobToDataUrl(await createThumbnail(file, 512, 'image/png')) });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Field label="Nombre de la marca o cliente">
+        <input className={inputClass} value={kit.name} onChange={(e) => update({ name: e.target.value })} />
+      </Field>
+
+      <div className="flex items-center gap-4">
+        <div className="w-20 h-20 border border-dashed border-slate-300 rounded-lg flex items-center justify-center bg-slate-50 overflow-hidden">
+          {kit.logoUrl ? <img src={kit.logoUrl} alt="Logotipo" className="max-w-full max-h-full object-contain" /> : <i className="fas fa-image text-slate-300 text-2xl"></i>}
+        </div>
+        <div className="flex flex-col items-start gap-1">
+          <input type="file" ref={logoInputRef} accept="image/*" className="hidden" onChange={(e) => handleLogo(e.target.files?.[0])} />
+          <button onClick={() => logoInputRef.current?.click()} className="text-sm font-semibold text-bordo hover:underline">Subir logotipo</button>
+          {kit.logoUrl && <button onClick={() => update({ logoUrl: null })} className="text-sm text-red-500 hover:underline">Quitar</button>}
+        </div>
+      </div>
+
+      <Field label="Paleta de colores">
+        <div className="flex flex-wrap items-center gap-2">
+          {kit.palette.map((color, index) => (
+            <div key={index} className="relative group">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => update({ palette: kit.palette.map((c, i) => i === index ? e.target.value : c) })}
+                className="w-10 h-10 rounded cursor-pointer"
+              />
+              <button
+                onClick={() => update({ palette: kit.palette.filter((_, i) => i !== index) })}
+                title="Quitar color"
+                className="absolute -top-2 -right-2 w-5 h-5 bg-black/60 text-white rounded-full text-[10px] opacity-0 group-hover:opacity-100"
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+          {kit.palette.length < MAX_PALETTE_COLORS && (
+            <button onClick={() => update({ palette: [...kit.palette, '#ffffff'] })} className="w-10 h-10 rounded border border-dashed border-slate-300 text-slate-400 hover:text-bordo">
+              <i className="fas fa-plus"></i>
+            </button>
+          )}
+        </div>
+      </Field>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Field label="Fuente de títulos">
+          <select className={inputClass} value={kit.headingFont} onChange={(e) => update({ headingFont: e.target.value })}>
+            {FONT_OPTIONS.map(font => <option key={font} value={font}>{font}</option>)}
+          </select>
+        </Field>
+        <Field label="Fuente de textos">
+          <select className={inputClass} value={kit.bodyFont} onChange={(e) => update({ bodyFont: e.target.value })}>
+            {FONT_OPTIONS.map(font => <option key={font} value={font}>{font}</option>)}
+          </select>
+        </Field>
+      </div>
+
+      <Field label="Eslogan">
+        <input className={inputClass} value={kit.tagline} onChange={(e) => update({ tagline: e.target.value })} />
+      </Field>
+      <div className="grid grid-cols-2 gap-3">
+        <Field label="Teléfono">
+          <input className={inputClass} value={kit.phone} onChange={(e) => update({ phone: e.target.value })} />
+        </Field>
+        <Field label="WhatsApp">
+          <input className={inputClass} value={kit.whatsapp} onChange={(e) => update({ whatsapp: e.target.value })} />
+        </Field>
+      </div>
+      <Field label="Dirección">
+        <input className={inputClass} value={kit.address} onChange={(e) => update({ address: e.target.value })} />
+      </Field>
+      <Field label="Tono de voz">
+        <textarea className={inputClass} rows={2} value={kit.tone} placeholder="Ej: cercano, familiar, con humor" onChange={(e) => update({ tone: e.target.value })} />
+      </Field>
+      <Field label="Texto legal obligatorio">
+        <textarea className={inputClass} rows={2} value={kit.disclaimer} placeholder="Ej: Bebe con moderación. Prohibida su venta a menores de 18 años." onChange={(e) => update({ disclaimer: e.target.value })} />
+      </Field>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">Cancelar</button>
+        <button onClick={() => onSave({ ...kit, name: kit.name.trim() || 'Sin nombre' })} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90">Guardar marca</button>
+      </div>
+    </div>
+  );
+};
+
+const BrandKitManager: React.FC<{
+  kits: BrandKit[];
+  activeKitId: string | null;
+  onActivate: (id: string | null) => void;
+  onSave: (kit: BrandKit) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}> = ({ kits, activeKitId, onActivate, onSave, onDelete, onClose }) => {
+  const [editing, setEditing] = useState<BrandKit | null>(null);
+  const [error, setError] = useState<string>('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      const kit = parseBrandKitImport(await file.text());
+      await onSave(kit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo importar el kit de marca.');
+    }
+  };
+
+  const handleExport = (kit: BrandKit) => {
+    downloadFile(new Blob([exportBrandKit(kit)], { type: 'application/json' }), `marca-${slugify(kit.name) || 'kit'}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">{editing ? 'Editar marca' : 'Kits de marca'}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+        <div className="overflow-y-auto p-6">
+          {editing ? (
+            <BrandKitForm
+              kit={editing}
+              onSave={async (kit) => { await onSave(kit); setEditing(null); }}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="flex flex-col gap-3">
+              {kits.length === 0 && (
+                <p className="text-slate-500 text-center py-4">Aún no tienes marcas. Crea una para reutilizar logotipo, colores y datos de contacto.</p>
+              )}
+              {kits.map(kit => (
+                <div key={kit.id} className={`flex items-center gap-3 p-3 rounded-lg border ${kit.id === activeKitId ? 'border-mostaza bg-crema/20' : 'border-slate-200'}`}>
+                  <div className="w-12 h-12 flex-shrink-0 rounded bg-slate-50 flex items-center justify-center overflow-hidden">
+                    {kit.logoUrl ? <img src={kit.logoUrl} alt="" className="max-w-full max-h-full object-contain" /> : <i className="fas fa-store text-slate-300"></i>}
+                  </div>
+                  <div className="flex-grow min-w-0">
+                    <p className="font-semibold text-slate-800 truncate">{kit.name}</p>
+                    <div className="flex gap-1 mt-1">
+                      {kit.palette.map((color, i) => <span key={i} className="w-4 h-4 rounded-full border border-slate-200" style={{ background: color }}></span>)}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onActivate(kit.id === activeKitId ? null : kit.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold ${kit.id === activeKitId ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'}`}
+                  >
+                    {kit.id === activeKitId ? 'Activa' : 'Usar'}
+                  </button>
+                  <button title="Editar" onClick={() => setEditing(kit)} className="text-slate-500 hover:text-bordo"><i className="fas fa-pen"></i></button>
+                  <button title="Exportar JSON" onClick={() => handleExport(kit)} className="text-slate-500 hover:text-bordo"><i className="fas fa-file-export"></i></button>
+                  <button title="Eliminar" onClick={() => onDelete(kit.id)} className="text-slate-500 hover:text-red-500"><i className="fas fa-trash-alt"></i></button>
+                </div>
+              ))}
+              <div className="flex gap-4 mt-2">
+                <button onClick={() => setEditing(createEmptyBrandKit())} className="text-sm font-semibold text-bordo hover:underline">
+                  <i className="fas fa-plus mr-1"></i> Nueva marca
+                </button>
+                <input type="file" ref={importInputRef} accept="application/json,.json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+                <button onClick={() => importInputRef.current?.click()} className="text-sm font-semibold text-bordo hover:underline">
+                  <i className="fas fa-file-import mr-1"></i> Importar JSON
+                </button>
+              </div>
+              {error && <p className="text-red-500 text-sm">{error}</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitManager;
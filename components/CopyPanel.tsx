@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import ActionButton from './ActionButton';
+import type { Generation, Platform } from '../types';
+import { PLATFORMS, checkLength, getPlatformInfo, platformText } from '../utils/platforms';
+
+const LENGTH_NOTES = {
+  ok: { className: 'text-slate-500', note: '' },
+  truncated: { className: 'text-amber-700', note: 'se cortará con "ver más"' },
+  over: { className: 'text-red-600 font-semibold', note: 'supera el límite de la plataforma' },
+};
+
+/**
+ * The copy of a generation, one tab per platform, with each text measured
+ * against that platform's limits. Copying a platform's text appends only
+ * as many hashtags as the platform takes; the hashtags can also be copied
+ * on their own.
+ */
+const CopyPanel: React.FC<{
+  generation: Generation;
+  onCopy: (text: string, message: string) => void;
+}> = ({ generation, onCopy }) => {
+  const [platform, setPlatform] = useState<Platform>('instagram');
+  const info = getPlatformInfo(platform);
+  // Generations made before per-platform copy only have the generic description.
+  const copy = generation.platformCopy[platform] ?? generation.description;
+  const text = platformText(copy, generation.hashtags, platform);
+  const length = [...text].length;
+  const { className, note } = LENGTH_NOTES[checkLength(text, platform)];
+  const hashtags = generation.hashtags.map(tag => `#${tag}`).join(' ');
+
+  return (
+    <div className="mt-4">
+      <div role="tablist" className="flex flex-wrap gap-1 mb-2">
+        {PLATFORMS.map(p => (
+          <button
+            key={p.id}
+            role="tab"
+            aria-selected={p.id === platform}
+            onClick={() => setPlatform(p.id)}
+            title={p.label}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-colors ${
+              p.id === platform ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+            }`}
+          >
+            <i className={`fab ${p.icon} mr-1`}></i>{p.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <ActionButton
+          icon="fa-clipboard"
+          title={`Copiar texto para ${info.label}`}
+          onClick={() => onCopy(text, `¡Texto para ${info.label} copiado al portapapeles!`)}
+          className="w-9 h-9 flex-shrink-0"
+        />
+        <div className="flex-grow p-3 bg-crema/20 border border-crema rounded-lg">
+          <p className="whitespace-pre-wrap font-sans text-slate-700 text-sm">{text}</p>
+          <p className={`mt-2 text-xs text-right ${className}`}>
+            {length.toLocaleString('es')} / {info.maxChars.toLocaleString('es')}{note && ` · ${note}`}
+          </p>
+        </div>
+      </div>
+
+      {generation.hashtags.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-1.5">
+          {generation.hashtags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-full bg-crema/50 text-bordo/80 text-xs font-semibold">#{tag}</span>
+          ))}
+          <button
+            onClick={() => onCopy(hashtags, '¡Hashtags copiados al portapapeles!')}
+            className="ml-auto text-xs font-semibold text-bordo hover:underline"
+          >
+            <i className="fas fa-hashtag mr-1"></i>Copiar hashtags
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CopyPanel;
@@ -0,0 +1,16 @@
+import React from 'react';
+
+export type ErrorDetails = { message: string; suggestion?: string };
+
+const ErrorNotice: React.FC<{ error: ErrorDetails; onDismiss: () => void; className?: string }> = ({ error, onDismiss, className }) => (
+  <div role="alert" className={`flex items-start gap-3 p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg ${className ?? ''}`}>
+    <i className="fas fa-circle-exclamation mt-0.5"></i>
+    <div className="flex-grow text-sm">
+      <p className="font-semibold">{error.message}</p>
+      {error.suggestion && <p className="mt-1 text-red-700">{error.suggestion}</p>}
+    </div>
+    <button onClick={onDismiss} title="Cerrar" className="text-red-800/70 hover:text-red-800 text-xl font-bold leading-none">&times;</button>
+  </div>
+);
+
+export default ErrorNotice;
@@ -0,0 +1,302 @@
+import React, { useRef, useState } from 'react';
+import Spinner from './Spinner';
+import type { ProjectSummary, SavedProject, StorageUsage } from '../types';
+import type { BundleImportResult } from '../services/projectBundle';
+import { formatBytes } from '../utils/fileUtils';
+import { searchKey } from '../utils/text';
+
+type SortOrder = 'updated' | 'newest' | 'oldest';
+type ProjectDetails = Pick<SavedProject, 'tags' | 'folder'>;
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  updated: 'Última edición',
+  newest: 'Más recientes',
+  oldest: 'Más antiguos',
+};
+
+// Sentinel for the folder filter; real folder names are never empty.
+const NO_FOLDER = '\u0000';
+
+const formatDate = (time: number) => new Date(time).toLocaleString('es-ES', { dateStyle: 'medium', timeStyle: 'short' });
+
+/** Start of the given `<input type="date">` day, in local time. */
+const dayStart = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+const StorageIndicator: React.FC<{usage: StorageUsage}> = ({ usage }) => {
+  const percent = usage.quota > 0 ? Math.min(100, (usage.usage / usage.quota) * 100) : 0;
+  const barColor = percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-mostaza' : 'bg-bordo';
+  return (
+    <div className="w-48" title={`${percent.toFixed(1)}% del espacio disponible`}>
+      <p className="text-xs text-slate-500 mb-1">
+        <i className="fas fa-database mr-1"></i>
+        {formatBytes(usage.usage)} de {formatBytes(usage.quota)}
+      </p>
+      <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const DetailsForm: React.FC<{
+  project: ProjectSummary;
+  folders: string[];
+  onSave: (details: ProjectDetails) => Promise<void>;
+  onCancel: () => void;
+}> = ({ project, folders, onSave, onCancel }) => {
+  const [folder, setFolder] = useState<string>(project.folder);
+  const [tags, setTags] = useState<string>(project.tags.join(', '));
+  const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza bg-white';
+  return (
+    <div className="flex flex-col gap-2" onClick={e => e.stopPropagation()}>
+      <label className="text-xs text-slate-500">
+        Carpeta del cliente
+        <input className={inputClass} value={folder} list="history-folders" onChange={(e) => setFolder(e.target.value)} />
+        <datalist id="history-folders">{folders.map(f => <option key={f} value={f} />)}</datalist>
+      </label>
+      <label className="text-xs text-slate-500">
+        Etiquetas (separadas por comas)
+        <input className={inputClass} value={tags} placeholder="Ej: verano, oferta" onChange={(e) => setTags(e.target.value)} />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-sm text-slate-500 hover:underline">Cancelar</button>
+        <button onClick={() => onSave({ folder, tags: tags.split(',') })} className="text-sm font-semibold text-bordo hover:underline">Guardar</button>
+      </div>
+    </div>
+  );
+};
+
+const HistoryModal: React.FC<{
+  projects: ProjectSummary[];
+  storageUsage: StorageUsage | null;
+  onClose: () => void;
+  onOpen: (projectId: string) => void;
+  onDelete: (projectIds: string[]) => Promise<void>;
+  onUpdateDetails: (projectId: string, details: ProjectDetails) => Promise<void>;
+  onExport: (projectIds: string[]) => Promise<void>;
+  onImport: (file: File) => Promise<BundleImportResult>;
+}> = ({ projects, storageUsage, onClose, onOpen, onDelete, onUpdateDetails, onExport, onImport }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [folderFilter, setFolderFilter] = useState<string>('');
+  const [tagFilter, setTagFilter] = useState<string>('');
+  const [fromDate, setFromDate] = useState<string>('');
+  const [toDate, setToDate] = useState<string>('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('updated');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const folders = [...new Set<string>(projects.map(p => p.folder).filter(Boolean))].sort((a, b) => a.localeCompare(b, 'es'));
+  const tags = [...new Set<string>(projects.flatMap(p => p.tags))].sort((a, b) => a.localeCompare(b, 'es'));
+
+  const terms = searchKey(query).split(/\s+/).filter(Boolean);
+  const visible = projects
+    .filter(p => terms.every(term => p.searchText.includes(term)))
+    .filter(p => !folderFilter || (folderFilter === NO_FOLDER ? !p.folder : p.folder === folderFilter))
+    .filter(p => !tagFilter || p.tags.includes(tagFilter))
+    .filter(p => !fromDate || p.createdAt >= dayStart(fromDate))
+    .filter(p => !toDate || p.createdAt < dayStart(toDate) + 24 * 60 * 60 * 1000)
+    .sort((a, b) => sortOrder === 'updated' ? b.updatedAt - a.updatedAt
+      : sortOrder === 'newest' ? b.createdAt - a.createdAt
+      : a.createdAt - b.createdAt);
+  const isFiltered = visible.length !== projects.length;
+
+  // Selection only ever applies to what is on screen, so a filter cannot hide what gets deleted.
+  const visibleSelection = selectedIds.filter(id => visible.some(p => p.id === id));
+  const allVisibleSelected = visible.length > 0 && visibleSelection.length === visible.length;
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const run = async (task: () => Promise<string | void>, failure: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const text = await task();
+      if (text) setMessage({ text, isError: false });
+    } catch (err) {
+      console.error(failure, err);
+      setMessage({ text: err instanceof Error ? err.message : failure, isError: true });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = (ids: string[]) => run(() => onExport(ids), 'No se pudo exportar los proyectos.');
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    run(async () => {
+      const { imported, renamed } = await onImport(file);
+      return `${imported} ${imported === 1 ? 'proyecto importado' : 'proyectos importados'}`
+        + (renamed > 0 ? ` (${renamed} ya existía${renamed === 1 ? '' : 'n'} y se guardó como copia).` : '.');
+    }, 'No se pudo importar el paquete.');
+  };
+
+  const handleDeleteSelected = () => {
+    const count = visibleSelection.length;
+    if (!confirm(`¿Eliminar ${count} ${count === 1 ? 'proyecto' : 'proyectos'} del historial? Esta acción no se puede deshacer.`)) return;
+    run(async () => {
+      await onDelete(visibleSelection);
+      setSelectedIds([]);
+    }, 'No se pudieron eliminar los proyectos.');
+  };
+
+  const clearFilters = () => {
+    setQuery('');
+    setFolderFilter('');
+    setTagFilter('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  const controlClass = 'p-2 border border-slate-300 rounded-lg text-sm bg-white';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-5xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center gap-4">
+            <h2 className="text-xl font-bold text-bordo">Historial de Proyectos</h2>
+            <div className="flex items-center gap-4">
+              {storageUsage && <StorageIndicator usage={storageUsage} />}
+              <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+            </div>
+        </header>
+        <div className="px-6 py-3 border-b flex flex-col gap-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="relative flex-grow min-w-[12rem]">
+                <i className="fas fa-search absolute left-3 top-1/2 -translate-y-1/2 text-slate-400"></i>
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Buscar en descripciones, etiquetas y carpetas"
+                  className={`${controlClass} w-full pl-9`}
+                />
+              </div>
+              <select value={folderFilter} onChange={(e) => setFolderFilter(e.target.value)} className={controlClass}>
+                <option value="">Todas las carpetas</option>
+                <option value={NO_FOLDER}>Sin carpeta</option>
+                {folders.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+              <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} className={controlClass}>
+                {(Object.keys(SORT_LABELS) as SortOrder[]).map(order => <option key={order} value={order}>{SORT_LABELS[order]}</option>)}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-slate-600">
+              <label className="flex items-center gap-1">Desde <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={controlClass} /></label>
+              <label className="flex items-center gap-1">Hasta <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={controlClass} /></label>
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setTagFilter(tagFilter === tag ? '' : tag)}
+                  className={`px-2 py-1 rounded-full text-xs font-semibold ${tagFilter === tag ? 'bg-bordo text-white' : 'bg-crema/40 text-bordo hover:bg-crema'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+              {isFiltered && <button onClick={clearFilters} className="text-xs font-semibold text-bordo hover:underline">Quitar filtros</button>}
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={allVisibleSelected}
+                  disabled={visible.length === 0}
+                  onChange={() => setSelectedIds(allVisibleSelected ? [] : visible.map(p => p.id))}
+                />
+                {visibleSelection.length > 0 ? `${visibleSelection.length} seleccionado${visibleSelection.length === 1 ? '' : 's'}` : 'Seleccionar todo'}
+              </label>
+              {visibleSelection.length > 0 && (
+                <>
+                  <button onClick={() => handleExport(visibleSelection)} disabled={busy} className="font-semibold text-bordo hover:underline disabled:opacity-50">
+                    <i className="fas fa-file-zipper mr-1"></i> Exportar selección
+                  </button>
+                  <button onClick={handleDeleteSelected} disabled={busy} className="font-semibold text-red-500 hover:underline disabled:opacity-50">
+                    <i className="fas fa-trash-alt mr-1"></i> Eliminar selección
+                  </button>
+                </>
+              )}
+              <span className="flex-grow"></span>
+              <input type="file" ref={importInputRef} accept=".zip,application/zip" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+              <button onClick={() => importInputRef.current?.click()} disabled={busy} className="font-semibold text-bordo hover:underline disabled:opacity-50">
+                <i className="fas fa-file-import mr-1"></i> Importar paquete
+              </button>
+              <button onClick={() => handleExport(projects.map(p => p.id))} disabled={busy || projects.length === 0} className="font-semibold text-bordo hover:underline disabled:opacity-50">
+                <i className="fas fa-file-export mr-1"></i> Exportar todo
+              </button>
+              {busy && <Spinner />}
+            </div>
+            {message && <p className={message.isError ? 'text-red-500' : 'text-green-700'}>{message.text}</p>}
+        </div>
+        <div className="overflow-y-auto p-6">
+            {projects.length === 0 ? (
+                <p className="text-slate-500 text-center py-8">Tu historial está vacío. ¡Empieza a crear!</p>
+            ) : visible.length === 0 ? (
+                <p className="text-slate-500 text-center py-8">Ningún proyecto coincide con la búsqueda.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {visible.map(project => (
+                        <div
+                          key={project.id}
+                          onClick={() => editingId !== project.id && onOpen(project.id)}
+                          title="Abrir proyecto"
+                          className={`bg-white rounded-lg shadow-md overflow-hidden border group relative cursor-pointer hover:shadow-lg transition-shadow ${visibleSelection.includes(project.id) ? 'border-mostaza ring-2 ring-mostaza/50' : 'border-slate-200'}`}
+                        >
+                            <img src={project.previewImage} alt="Creación guardada" className="w-full h-40 object-cover"/>
+                            <label onClick={e => e.stopPropagation()} className="absolute top-2 left-2 w-8 h-8 bg-white/80 rounded-full flex items-center justify-center cursor-pointer" title="Seleccionar">
+                               <input type="checkbox" checked={visibleSelection.includes(project.id)} onChange={() => toggleSelected(project.id)} />
+                            </label>
+                            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button
+                                title="Carpeta y etiquetas"
+                                onClick={(e) => { e.stopPropagation(); setEditingId(project.id); }}
+                                className="w-8 h-8 bg-black/50 text-white rounded-full flex items-center justify-center hover:bg-bordo"
+                              >
+                                <i className="fas fa-tag text-xs"></i>
+                              </button>
+                              <button
+                                title="Eliminar Proyecto"
+                                onClick={(e) => { e.stopPropagation(); run(() => onDelete([project.id]), 'No se pudo eliminar el proyecto.'); }}
+                                className="w-8 h-8 bg-black/50 text-white rounded-full flex items-center justify-center hover:bg-red-500"
+                              >
+                               <i className="fas fa-trash-alt text-xs"></i>
+                              </button>
+                            </div>
+                            <div className="p-4">
+                               <p className="text-xs text-slate-400 mb-2 flex justify-between gap-2">
+                                 <span>{formatDate(project.createdAt)}</span>
+                                 {project.generationCount > 1 && <span>{project.generationCount} variaciones</span>}
+                               </p>
+                               {editingId === project.id ? (
+                                 <DetailsForm
+                                   project={project}
+                                   folders={folders}
+                                   onSave={async (details) => { await run(() => onUpdateDetails(project.id, details), 'No se pudieron guardar los cambios.'); setEditingId(null); }}
+                                   onCancel={() => setEditingId(null)}
+                                 />
+                               ) : (
+                                 <>
+                                   {project.folder && <p className="text-xs font-semibold text-bordo mb-1"><i className="fas fa-folder mr-1"></i>{project.folder}</p>}
+                                   <p className="text-sm text-slate-600 whitespace-pre-wrap line-clamp-3">{project.description}</p>
+                                   {project.tags.length > 0 && (
+                                     <div className="mt-2 flex flex-wrap gap-1">
+                                       {project.tags.map(tag => <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-crema/40 text-bordo">#{tag}</span>)}
+                                     </div>
+                                   )}
+                                 </>
+                               )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Spinner from './Spinner';
+import type { BrandKit, ImageInsights } from '../types';
+import { fileToBase64 } from '../utils/fileUtils';
+import { type PhotoReport, QUALITY_WARNINGS, inspectPhotos } from '../utils/imageInsights';
+import { analyzeInputImages } from '../services/adService';
+import { toApiError } from '../services/apiErrors';
+
+const EMPTY_INSIGHTS: ImageInsights = { extractedText: '', product: '', category: '', palette: [] };
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-mostaza';
+
+const Swatches: React.FC<{ colors: string[] }> = ({ colors }) => (
+  <span className="flex">
+    {colors.map(color => <span key={color} title={color} className="w-5 h-5 first:rounded-l last:rounded-r border border-black/10" style={{ backgroundColor: color }}></span>)}
+  </span>
+);
+
+/**
+ * Shows what the app understood from the input photos before anything is
+ * generated: quality warnings and a colour palette computed locally, and, on
+ * request, the text, product and category read by the model. Everything the
+ * user corrects here is sent with the generation and overrides what the
+ * model would read from the photos again.
+ */
+const ImageAnalyzer: React.FC<{
+  files: File[];
+  brandKit: BrandKit | null;
+  insights: ImageInsights | null;
+  onChange: (insights: ImageInsights | null) => void;
+}> = ({ files, brandKit, insights, onChange }) => {
+  const [reports, setReports] = useState<PhotoReport[]>([]);
+  const [photoPalette, setPhotoPalette] = useState<string[]>([]);
+  const [inspecting, setInspecting] = useState<boolean>(false);
+  const [analyzing, setAnalyzing] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  useEffect(() => {
+    let stale = false;
+    setReports([]);
+    setPhotoPalette([]);
+    if (files.length === 0) return;
+    setInspecting(true);
+    inspectPhotos(files)
+      .then(result => {
+        if (stale) return;
+        setReports(result.reports);
+        setPhotoPalette(result.palette);
+      })
+      .catch(e => console.error("No se pudieron revisar las fotos:", e))
+      .finally(() => !stale && setInspecting(false));
+    return () => { stale = true; };
+  }, [files]);
+
+  const handleAnalyze = async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setAnalyzing(true);
+    setError('');
+    try {
+      const analysis = await analyzeInputImages(await Promise.all(files.map(fileToBase64)), { projectId: null, brandKit }, controller.signal);
+      onChange({ ...analysis, palette: insights?.palette ?? [] });
+    } catch (err) {
+      const apiError = toApiError(err);
+      if (apiError.category !== 'cancelled') setError(`${apiError.message} ${apiError.suggestion}`.trim());
+    } finally {
+      if (requestRef.current === controller) setAnalyzing(false);
+    }
+  };
+
+  const update = (changes: Partial<ImageInsights>) => onChange({ ...(insights ?? EMPTY_INSIGHTS), ...changes });
+
+  const palettes = [
+    { id: 'auto', label: 'Automática', colors: [] as string[] },
+    ...(photoPalette.length > 0 ? [{ id: 'photos', label: 'De las fotos', colors: photoPalette }] : []),
+    ...(brandKit && brandKit.palette.length > 0 ? [{ id: 'brand', label: brandKit.name, colors: brandKit.palette }] : []),
+  ];
+  const chosenPalette = insights?.palette ?? [];
+  const warned = reports.map((report, index) => ({ index, warnings: report.warnings })).filter(r => r.warnings.length > 0);
+
+  return (
+    <div className="p-4 bg-white border border-slate-200 rounded-lg flex flex-col gap-4">
+      <div className="flex items-center gap-3">
+        <i className="fas fa-magnifying-glass text-xl text-mostaza"></i>
+        <p className="flex-grow text-sm font-medium text-bordo">Revisión de las fotos</p>
+        {inspecting && <Spinner />}
+        {analyzing ? (
+          <button onClick={() => requestRef.current?.abort()} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">
+            <Spinner className="inline mr-1" /> Cancelar
+          </button>
+        ) : (
+          <button onClick={handleAnalyze} disabled={files.length === 0} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90 disabled:bg-bordo/50">
+            <i className="fas fa-wand-magic-sparkles mr-1"></i> {insights?.product ? 'Volver a leer' : 'Leer texto y producto'}
+          </button>
+        )}
+      </div>
+
+      {warned.length > 0 && (
+        <ul className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 flex flex-col gap-1">
+          {warned.map(({ index, warnings }) => (
+            <li key={index}>
+              <strong>Foto {index + 1}:</strong> {warnings.map(w => QUALITY_WARNINGS[w].label.toLowerCase()).join(', ')}.{' '}
+              <span className="text-amber-700">{warnings.map(w => QUALITY_WARNINGS[w].hint).join(' ')}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+
+      {insights && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-xs text-slate-500">
+            Producto
+            <input value={insights.product} onChange={(e) => update({ product: e.target.value })} className={inputClass} />
+          </label>
+          <label className="text-xs text-slate-500">
+            Categoría
+            <input value={insights.category} onChange={(e) => update({ category: e.target.value })} className={inputClass} />
+          </label>
+          <label className="text-xs text-slate-500 sm:col-span-2">
+            Texto leído en las fotos (corrígelo si algo está mal; se usará tal cual)
+            <textarea value={insights.extractedText} onChange={(e) => update({ extractedText: e.target.value })} rows={3} className={inputClass} placeholder="No se encontró texto en las fotos." />
+          </label>
+        </div>
+      )}
+
+      <div>
+        <p className="text-xs text-slate-500 mb-2">Paleta de la imagen</p>
+        <div className="flex flex-wrap gap-2">
+          {palettes.map(palette => {
+            const selected = palette.colors.join() === chosenPalette.join();
+            return (
+              <button
+                key={palette.id}
+                onClick={() => update({ palette: palette.colors })}
+                className={`px-3 py-2 rounded-full text-sm font-semibold flex items-center gap-2 transition-colors ${
+                  selected ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+                }`}
+              >
+                {palette.label}
+                {palette.colors.length > 0 && <Swatches colors={palette.colors} />}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAnalyzer;
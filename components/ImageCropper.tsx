@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Spinner from './Spinner';
+import { AD_FORMATS } from '../utils/adFormats';
+import type { CropRect } from '../utils/imagePreprocess';
+
+type Point = { x: number; y: number };
+type Drag = { mode: 'draw' | 'move'; start: Point; rect: CropRect };
+
+const FULL: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+const MIN_SIZE = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** The largest centred rectangle with the given aspect ratio (width / height, in pixels). */
+const centredRect = (ratio: number, imageRatio: number): CropRect => {
+  const width = Math.min(1, ratio / imageRatio);
+  const height = Math.min(1, imageRatio / ratio);
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+/**
+ * Lets the user frame an input photo before generating: drag to draw the
+ * crop, drag inside it to move it. The ad format buttons lock the aspect
+ * ratio so the product is framed the way it will be published.
+ */
+const ImageCropper: React.FC<{
+  imageUrl: string;
+  onApply: (rect: CropRect) => Promise<void>;
+  onClose: () => void;
+}> = ({ imageUrl, onApply, onClose }) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<Drag | null>(null);
+  const [imageRatio, setImageRatio] = useState<number>(1);
+  const [ratio, setRatio] = useState<number | null>(null);
+  const [rect, setRect] = useState<CropRect>(FULL);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    setRect(ratio ? centredRect(ratio, imageRatio) : FULL);
+  }, [ratio, imageRatio]);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const bounds = areaRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - bounds.left) / bounds.width, 0, 1),
+      y: clamp((e.clientY - bounds.top) / bounds.height, 0, 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (busy) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = toPoint(e);
+    const inside = start.x >= rect.x && start.x <= rect.x + rect.width && start.y >= rect.y && start.y <= rect.y + rect.height;
+    drag.current = { mode: inside ? 'move' : 'draw', start, rect };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = drag.current;
+    if (!current) return;
+    const point = toPoint(e);
+    if (current.mode === 'move') {
+      setRect({
+        ...current.rect,
+        x: clamp(current.rect.x + point.x - current.start.x, 0, 1 - current.rect.width),
+        y: clamp(current.rect.y + point.y - current.start.y, 0, 1 - current.rect.height),
+      });
+      return;
+    }
+    let width = Math.abs(point.x - current.start.x);
+    let height = Math.abs(point.y - current.start.y);
+    if (ratio) {
+      // Keep the locked ratio, bounded by the side that would leave the image first.
+      const fractionRatio = ratio / imageRatio;
+      const maxWidth = point.x < current.start.x ? current.start.x : 1 - current.start.x;
+      const maxHeight = point.y < current.start.y ? current.start.y : 1 - current.start.y;
+      width = Math.min(Math.max(width, height * fractionRatio), maxWidth, maxHeight * fractionRatio);
+      height = width / fractionRatio;
+    }
+    setRect({
+      x: point.x < current.start.x ? current.start.x - width : current.start.x,
+      y: point.y < current.start.y ? current.start.y - height : current.start.y,
+      width,
+      height,
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (drag.current?.mode === 'draw' && (rect.width < MIN_SIZE || rect.height < MIN_SIZE)) {
+      setRect(drag.current.rect);
+    }
+    drag.current = null;
+  };
+
+  const handleApply = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await onApply(rect);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudo recortar la imagen.');
+      setBusy(false);
+    }
+  };
+
+  const ratioButton = (label: string, value: number | null) => (
+    <button
+      key={label}
+      onClick={() => setRatio(value)}
+      className={`px-3 py-2 rounded-full text-sm font-semibold transition-colors ${
+        ratio === value ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={busy ? undefined : onClose}>
+      <div className="bg-white w-full max-w-3xl max-h-[95vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">Recortar foto</h2>
+          <button onClick={onClose} disabled={busy} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+
+        <div className="p-4 flex flex-wrap items-center gap-2 border-b">
+          {ratioButton('Libre', null)}
+          {AD_FORMATS.map(format => ratioButton(`${format.label} · ${format.id}`, format.width / format.height))}
+          <button onClick={() => { setRatio(null); setRect(FULL); }} className="ml-auto text-sm font-semibold text-bordo hover:underline">Restablecer</button>
+        </div>
+
+        <div className="overflow-auto p-4 flex justify-center bg-slate-100">
+          <div
+            ref={areaRef}
+            className="relative inline-block overflow-hidden touch-none cursor-crosshair select-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              src={imageUrl}
+              onLoad={(e) => setImageRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
+              alt="Foto a recortar"
+              className="max-h-[55vh] max-w-full block"
+              draggable={false}
+            />
+            <div
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: `${rect.x * 100}%`,
+                top: `${rect.y * 100}%`,
+                width: `${rect.width * 100}%`,
+                height: `${rect.height * 100}%`,
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+              }}
+            ></div>
+            {busy && <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center"><Spinner className="text-white h-8 w-8"/></div>}
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex items-center gap-3">
+          {error && <p className="text-red-500 text-sm flex-grow">{error}</p>}
+          <button onClick={onClose} disabled={busy} className="ml-auto bg-white text-slate-700 hover:bg-slate-100 border border-slate-300 font-bold py-3 px-5 rounded-full transition-colors">
+            Cancelar
+          </button>
+          <button onClick={handleApply} disabled={busy} className="bg-bordo hover:bg-opacity-90 text-white font-bold py-3 px-5 rounded-full transition-colors disabled:bg-bordo/50">
+            Recortar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
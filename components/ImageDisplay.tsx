@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import Spinner from './Spinner';
+import ActionButton from './ActionButton';
+import VersionHistory from './VersionHistory';
+import TextOverlay from './TextOverlay';
+import type { AdFormat, AdImage, Generation, ImageVersion } from '../types';
+import { formatAspectRatio, getFormatInfo } from '../utils/adFormats';
+import { canRedo, canUndo, currentImageUrl, redo, selectVersion, undo } from '../utils/versionTree';
+
+const DOWNLOAD_TYPES = [
+  { label: 'JPG', mimeType: 'image/jpeg' },
+  { label: 'PNG', mimeType: 'image/png' },
+  { label: 'WebP', mimeType: 'image/webp' },
+];
+
+const ImageDisplay: React.FC<{
+  generation: Generation;
+  index: number;
+  activeFormat: AdFormat;
+  busy: boolean;
+  onFormatChange: (format: AdFormat) => void;
+  /** Without `mimeType`, the images are saved in the format they already have. */
+  onDownload: (images: AdImage[], mimeType?: string) => void;
+  onPrint: (image: AdImage) => void;
+  onImageChange: (image: AdImage) => void;
+  onCompare: (image: AdImage, left: ImageVersion, right: ImageVersion) => void;
+  onEditRegion: (image: AdImage) => void;
+  onEditText: (image: AdImage) => void;
+}> = ({ generation, index, activeFormat, busy, onFormatChange, onDownload, onPrint, onImageChange, onCompare, onEditRegion, onEditText }) => {
+  const [showVersions, setShowVersions] = useState(false);
+  const [showDownloads, setShowDownloads] = useState(false);
+  const image = generation.images.find(img => img.format === activeFormat) ?? generation.images[0];
+  const imageUrl = currentImageUrl(image);
+  const { width, height } = getFormatInfo(image.format);
+
+  return (
+    <div>
+      {generation.images.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          {generation.images.map(img => (
+            <button
+              key={img.format}
+              onClick={() => onFormatChange(img.format)}
+              title={getFormatInfo(img.format).usage}
+              className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                img.format === image.format
+                  ? 'bg-bordo text-white'
+                  : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+              }`}
+            >
+              {getFormatInfo(img.format).label} · {img.format}
+            </button>
+          ))}
+          <button
+            onClick={() => onDownload(generation.images)}
+            className="ml-auto text-xs font-semibold text-bordo hover:underline"
+          >
+            <i className="fas fa-download mr-1"></i> Descargar todos
+          </button>
+        </div>
+      )}
+      <div
+        className="bg-slate-100 rounded-lg flex items-center justify-center overflow-hidden relative group mx-auto"
+        style={{ aspectRatio: formatAspectRatio(image.format), width: `min(100%, calc(75vh * ${width} / ${height}))`, containerType: 'inline-size' }}
+      >
+        {busy && <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center z-10"><Spinner className="text-white h-8 w-8"/></div>}
+        <img src={imageUrl} alt={generation.checklist?.altText || `Imagen generada ${index + 1} (${image.format})`} className="w-full h-full object-contain" />
+        <TextOverlay layers={image.layers} logo={image.logo} />
+        <div className={`absolute top-3 right-3 flex flex-col items-end gap-2 transition-opacity ${showDownloads ? '' : 'opacity-0 group-hover:opacity-100'}`}>
+          <ActionButton icon="fa-download" title="Descargar Imagen" onClick={() => setShowDownloads(!showDownloads)} />
+          {showDownloads && (
+            <div className="bg-white rounded-lg shadow-lg border border-slate-200 py-1 text-sm" onMouseLeave={() => setShowDownloads(false)}>
+              {DOWNLOAD_TYPES.map(({ label, mimeType }) => (
+                <button key={label} onClick={() => { onDownload([image], mimeType); setShowDownloads(false); }} className="block w-full text-left px-4 py-1.5 hover:bg-crema/40">
+                  {label}
+                </button>
+              ))}
+              <button onClick={() => { onPrint(image); setShowDownloads(false); }} className="block w-full text-left px-4 py-1.5 hover:bg-crema/40 border-t border-slate-100">
+                <i className="fas fa-print mr-1"></i> PDF para imprimir
+              </button>
+            </div>
+          )}
+        </div>
+        <div className="absolute top-3 left-3 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <ActionButton icon="fa-rotate-left" title="Deshacer edición" onClick={() => onImageChange(undo(image))} disabled={busy || !canUndo(image)} />
+          <ActionButton icon="fa-rotate-right" title="Rehacer edición" onClick={() => onImageChange(redo(image))} disabled={busy || !canRedo(image)} />
+          <ActionButton icon="fa-paintbrush" title="Editar una zona" onClick={() => onEditRegion(image)} disabled={busy} />
+          <ActionButton icon="fa-font" title="Editar textos" onClick={() => onEditText(image)} disabled={busy} />
+        </div>
+      </div>
+      {image.versions.length > 1 && (
+        <button onClick={() => setShowVersions(!showVersions)} className="mt-2 text-xs font-semibold text-bordo hover:underline">
+          <i className="fas fa-code-branch mr-1"></i>
+          {showVersions ? 'Ocultar versiones' : `Ver versiones (${image.versions.length})`}
+        </button>
+      )}
+      {showVersions && (
+        <VersionHistory
+          image={image}
+          onSelect={(versionId) => onImageChange(selectVersion(image, versionId))}
+          onCompare={(left, right) => onCompare(image, left, right)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ImageDisplay;
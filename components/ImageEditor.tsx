@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import Spinner from './Spinner';
+import { isMaskEmpty } from '../utils/maskUtils';
+import { toApiError } from '../services/apiErrors';
+
+type Tool = 'brush' | 'eraser' | 'lasso';
+type Point = { x: number; y: number };
+
+const MASK_COLOR = '#ff2d55';
+
+const TOOLS: { id: Tool; icon: string; label: string }[] = [
+  { id: 'brush', icon: 'fa-paintbrush', label: 'Pincel' },
+  { id: 'lasso', icon: 'fa-draw-polygon', label: 'Lazo' },
+  { id: 'eraser', icon: 'fa-eraser', label: 'Borrador' },
+];
+
+/**
+ * Lets the user paint the region of an image that should change and describe
+ * the change. Everything outside the painted mask is kept pixel-for-pixel.
+ */
+const ImageEditor: React.FC<{
+  imageUrl: string;
+  onApply: (prompt: string, maskDataUrl: string) => Promise<void>;
+  /** Aborts the edit in flight; `onApply` then rejects with a cancelled `ApiError`. */
+  onCancel: () => void;
+  onClose: () => void;
+}> = ({ imageUrl, onApply, onCancel, onClose }) => {
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<Point | null>(null);
+  const lassoPoints = useRef<Point[]>([]);
+  const [tool, setTool] = useState<Tool>('brush');
+  // Brush diameter as a percentage of the image width, so it feels the same on any resolution.
+  const [brushSize, setBrushSize] = useState<number>(6);
+  const [prompt, setPrompt] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    for (const canvas of [maskRef.current, previewRef.current]) {
+      if (!canvas) continue;
+      canvas.width = naturalWidth;
+      canvas.height = naturalHeight;
+    }
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const drawStroke = (from: Point, to: Point) => {
+    const ctx = maskRef.current!.getContext('2d')!;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = (brushSize / 100) * maskRef.current!.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const drawLassoPreview = () => {
+    const canvas = previewRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    const points = lassoPoints.current;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (points.length < 2) return;
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = Math.max(2, canvas.width / 300);
+    ctx.setLineDash([ctx.lineWidth * 4, ctx.lineWidth * 3]);
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.stroke();
+  };
+
+  const fillLasso = () => {
+    const points = lassoPoints.current;
+    if (points.length > 2) {
+      const ctx = maskRef.current!.getContext('2d')!;
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    lassoPoints.current = [];
+    drawLassoPreview();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (busy) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      lassoPoints.current = [point];
+    } else {
+      drawStroke(point, point);
+    }
+    lastPoint.current = point;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPoint.current) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      lassoPoints.current.push(point);
+      drawLassoPreview();
+    } else {
+      drawStroke(lastPoint.current, point);
+    }
+    lastPoint.current = point;
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPoint.current) return;
+    if (tool === 'lasso') fillLasso();
+    lastPoint.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = maskRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const invertMask = () => {
+    const canvas = maskRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    ctx.globalCompositeOperation = 'xor';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const handleApply = async () => {
+    if (!prompt.trim()) {
+      setError('Describe el cambio que quieres hacer en la zona marcada.');
+      return;
+    }
+    if (isMaskEmpty(maskRef.current!)) {
+      setError('Pinta primero la zona de la imagen que quieres cambiar.');
+      return;
+    }
+    setBusy(true);
+    setError('');
+    try {
+      await onApply(prompt.trim(), maskRef.current!.toDataURL('image/png'));
+      onClose();
+    } catch (err) {
+      const apiError = toApiError(err);
+      if (apiError.category !== 'cancelled') {
+        setError(`Error al editar la zona: ${apiError.message} ${apiError.suggestion}`.trim());
+      }
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={busy ? undefined : onClose}>
+      <div className="bg-white w-full max-w-4xl max-h-[95vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">Editar una zona</h2>
+          <button onClick={onClose} disabled={busy} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+
+        <div className="p-4 flex flex-wrap items-center gap-3 border-b">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              className={`px-3 py-2 rounded-full text-sm font-semibold transition-colors ${
+                tool === t.id ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+              }`}
+            >
+              <i className={`fas ${t.icon} mr-1`}></i> {t.label}
+            </button>
+          ))}
+          {tool !== 'lasso' && (
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Tamaño
+              <input type="range" min={1} max={20} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+            </label>
+          )}
+          <div className="ml-auto flex gap-3">
+            <button onClick={invertMask} className="text-sm font-semibold text-bordo hover:underline">Invertir</button>
+            <button onClick={clearMask} className="text-sm font-semibold text-bordo hover:underline">Limpiar</button>
+          </div>
+        </div>
+
+        <div className="overflow-auto p-4 flex justify-center bg-slate-100">
+          <div className="relative inline-block">
+            <img src={imageUrl} onLoad={handleImageLoad} alt="Imagen a editar" className="max-h-[55vh] max-w-full block select-none" draggable={false} />
+            <canvas ref={maskRef} className="absolute inset-0 w-full h-full opacity-50 pointer-events-none" />
+            <canvas
+              ref={previewRef}
+              className="absolute inset-0 w-full h-full touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {busy && <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center"><Spinner className="text-white h-8 w-8"/></div>}
+          </div>
+        </div>
+
+        <div className="p-4 border-t flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+              placeholder="Describe el cambio en la zona marcada... ej: pon un fondo de playa"
+              className="flex-grow p-3 border border-slate-300 rounded-full focus:ring-2 focus:ring-mostaza shadow-sm"
+              disabled={busy}
+            />
+            {busy ? (
+              <button
+                onClick={onCancel}
+                className="bg-white text-slate-700 hover:bg-slate-100 border border-slate-300 font-bold py-3 px-5 rounded-full transition-colors"
+              >
+                Cancelar
+              </button>
+            ) : (
+              <button
+                onClick={handleApply}
+                className="bg-bordo hover:bg-opacity-90 text-white font-bold py-3 px-5 rounded-full transition-colors"
+              >
+                Aplicar
+              </button>
+            )}
+          </div>
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { formatBytes } from '../utils/fileUtils';
+
+const tileButton = 'w-7 h-7 rounded-full bg-white/90 text-bordo hover:bg-crema text-xs flex items-center justify-center shadow disabled:opacity-40';
+
+/**
+ * The photos the ad will be made from, in the order they are sent to the
+ * model. Tiles can be dragged to reorder them (or moved with the arrows),
+ * cropped and removed.
+ */
+const InputImageGrid: React.FC<{
+  files: File[];
+  previews: string[];
+  onRemove: (index: number) => void;
+  onMove: (from: number, to: number) => void;
+  onCrop: (index: number) => void;
+}> = ({ files, previews, onRemove, onMove, onCrop }) => {
+  const [dragged, setDragged] = useState<number | null>(null);
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4">
+      {previews.map((src, index) => (
+        <div
+          key={src}
+          draggable
+          onDragStart={(e) => { setDragged(index); e.dataTransfer.effectAllowed = 'move'; }}
+          onDragOver={(e) => { if (dragged !== null) e.preventDefault(); }}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragged !== null && dragged !== index) onMove(dragged, index);
+            setDragged(null);
+          }}
+          onDragEnd={() => setDragged(null)}
+          className={`group relative rounded-md border bg-white cursor-grab ${dragged === index ? 'opacity-40' : ''}`}
+        >
+          <img src={src} className="w-full h-24 object-cover rounded-md" alt={`Foto ${index + 1}: ${files[index]?.name ?? ''}`} draggable={false} />
+          <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-white text-xs font-semibold">{index + 1}</span>
+          {files[index] && (
+            <span className="absolute bottom-1 left-1 px-1.5 rounded bg-black/60 text-white text-[10px]">{formatBytes(files[index].size)}</span>
+          )}
+          <div className="absolute inset-x-1 top-1 flex justify-end gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button onClick={() => onCrop(index)} title="Recortar" className={tileButton}><i className="fas fa-crop-simple"></i></button>
+            <button onClick={() => onRemove(index)} title="Quitar" className={tileButton}><i className="fas fa-xmark"></i></button>
+          </div>
+          <div className="absolute inset-x-1 bottom-1 flex justify-end gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button onClick={() => onMove(index, index - 1)} disabled={index === 0} title="Mover antes" className={tileButton}><i className="fas fa-arrow-left"></i></button>
+            <button onClick={() => onMove(index, index + 1)} disabled={index === previews.length - 1} title="Mover después" className={tileButton}><i className="fas fa-arrow-right"></i></button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default InputImageGrid;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import Spinner from './Spinner';
+import type { AdImage, Generation } from '../types';
+import { exportCatalogPdf, exportFlyerPdf } from '../services/exportService';
+import { downloadFile, loadImage } from '../utils/fileUtils';
+import { formatSlug, getFormatInfo } from '../utils/adFormats';
+import { currentImageUrl } from '../utils/versionTree';
+import {
+  DPI_OPTIONS, PAPER_SIZES, type PaperSize, type PrintSettings, flyerLayout, loadPrintSettings, pixelsFor, savePrintSettings
+} from '../utils/print';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block text-xs font-medium text-slate-600">
+    {label}
+    <div className="mt-1">{children}</div>
+  </label>
+);
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza bg-white';
+
+/** How many times the flyer image has to be enlarged to reach the chosen DPI, or null when it is already big enough. */
+const upscaleFactor = (image: AdImage, naturalWidth: number, settings: PrintSettings): number | null => {
+  const { width, height } = getFormatInfo(image.format);
+  const { box } = flyerLayout(width / height, settings);
+  const factor = pixelsFor(box, settings.dpi).width / naturalWidth;
+  return factor > 1 ? factor : null;
+};
+
+/**
+ * Print settings and PDF export, either of one ad image as a flyer
+ * (`image`) or of several generations as a catalog with one page each
+ * (`generations`, all selected at first).
+ */
+const PrintDialog: React.FC<{
+  image?: AdImage;
+  generations?: Generation[];
+  onClose: () => void;
+}> = ({ image, generations, onClose }) => {
+  const [settings, setSettings] = useState<PrintSettings>(loadPrintSettings);
+  const [selectedIds, setSelectedIds] = useState<string[]>(() => generations?.map(gen => gen.id) ?? []);
+  const [naturalWidth, setNaturalWidth] = useState<number | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const update = (changes: Partial<PrintSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  useEffect(() => {
+    if (!image) return;
+    loadImage(currentImageUrl(image)).then(img => setNaturalWidth(img.naturalWidth)).catch(() => setNaturalWidth(null));
+  }, [image]);
+
+  const factor = image && naturalWidth ? upscaleFactor(image, naturalWidth, settings) : null;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError('');
+    savePrintSettings(settings);
+    try {
+      if (image) {
+        downloadFile(await exportFlyerPdf(image, settings), `flyer-${formatSlug(image.format)}-${settings.paper.toLowerCase()}-${Date.now()}.pdf`);
+      } else if (generations) {
+        const chosen = generations.filter(gen => selectedIds.includes(gen.id));
+        downloadFile(await exportCatalogPdf(chosen, settings), `catalogo-${settings.paper.toLowerCase()}-${Date.now()}.pdf`);
+      }
+      onClose();
+    } catch (err) {
+      console.error("No se pudo crear el PDF:", err);
+      setError(err instanceof Error ? err.message : 'No se pudo crear el PDF.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">{image ? 'PDF para imprimir' : 'Catálogo PDF'}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+        <div className="overflow-y-auto p-6 flex flex-col gap-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Papel">
+              <select className={inputClass} value={settings.paper} onChange={(e) => update({ paper: e.target.value as PaperSize })}>
+                {PAPER_SIZES.map(paper => <option key={paper.id} value={paper.id}>{paper.label}</option>)}
+              </select>
+            </Field>
+            <Field label="Resolución">
+              <select className={inputClass} value={settings.dpi} onChange={(e) => update({ dpi: Number(e.target.value) })}>
+                {DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} ppp{dpi === 300 ? ' (imprenta)' : ''}</option>)}
+              </select>
+            </Field>
+            <Field label="Sangrado (mm)">
+              <input type="number" min={0} max={10} step={0.5} className={inputClass} value={settings.bleedMm} onChange={(e) => update({ bleedMm: Math.max(0, Number(e.target.value) || 0) })} />
+            </Field>
+            {image && (
+              <Field label="Ajuste">
+                <select className={inputClass} value={settings.fit} onChange={(e) => update({ fit: e.target.value === 'cover' ? 'cover' : 'contain' })}>
+                  <option value="contain">Completa, con margen blanco</option>
+                  <option value="cover">Llenar la hoja (recorta bordes)</option>
+                </select>
+              </Field>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={settings.cropMarks} onChange={(e) => update({ cropMarks: e.target.checked })} className="accent-bordo" />
+            Marcas de corte
+          </label>
+
+          {factor && (
+            <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              La imagen se ampliará {factor.toFixed(1)}× para llegar a {settings.dpi} ppp. Los textos se dibujan nítidos, pero la foto puede verse algo suave.
+            </p>
+          )}
+
+          {generations && (
+            <div className="flex flex-col gap-2">
+              <p className="text-xs font-medium text-slate-600">Páginas ({selectedIds.length})</p>
+              <div className="grid grid-cols-4 gap-2">
+                {generations.map((gen, index) => {
+                  const selected = selectedIds.includes(gen.id);
+                  return (
+                    <button
+                      key={gen.id}
+                      onClick={() => setSelectedIds(prev => selected ? prev.filter(id => id !== gen.id) : [...prev, gen.id])}
+                      className={`relative rounded-md overflow-hidden border-2 ${selected ? 'border-bordo' : 'border-transparent opacity-50'}`}
+                    >
+                      <img src={currentImageUrl(gen.images[0])} alt={`Variación ${index + 1}`} className="w-full h-16 object-cover" />
+                      <span className="absolute top-1 left-1 px-1.5 rounded bg-black/60 text-white text-xs font-semibold">{index + 1}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">Cancelar</button>
+            <button
+              onClick={handleExport}
+              disabled={exporting || (!!generations && selectedIds.length === 0)}
+              className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90 disabled:bg-bordo/50"
+            >
+              {exporting ? <Spinner className="inline mr-1 text-white" /> : <i className="fas fa-file-pdf mr-1"></i>} Descargar PDF
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintDialog;
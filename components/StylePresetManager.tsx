@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import type { AdFormat, StylePreset } from '../types';
+import {
+  createEmptyStylePreset, duplicateStylePreset, exportStylePresets, parseStylePresetImport
+} from '../services/stylePresetStore';
+import { AD_FORMATS } from '../utils/adFormats';
+import { blobToDataUrl, createThumbnail, downloadFile, slugify } from '../utils/fileUtils';
+import { FONT_OPTIONS } from '../utils/textLayers';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="block text-xs font-medium text-slate-600">
+    {label}
+    <div className="mt-1">{children}</div>
+  </label>
+);
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza bg-white';
+
+export const StyleThumbnail: React.FC<{ preset: StylePreset; className?: string }> = ({ preset, className }) => (
+  <div className={`flex-shrink-0 rounded bg-crema/40 flex items-center justify-center overflow-hidden ${className ?? 'w-12 h-12'}`}>
+    {preset.thumbnailUrl ? <img src={preset.thumbnailUrl} alt="" className="w-full h-full object-cover" /> : <i className="fas fa-palette text-mostaza"></i>}
+  </div>
+);
+
+const FontSelect: React.FC<{ value: string; onChange: (font: string) => void }> = ({ value, onChange }) => (
+  <select className={inputClass} value={value} onChange={(e) => onChange(e.target.value)}>
+    <option value="">Sin preferencia</option>
+    {FONT_OPTIONS.map(font => <option key={font} value={font}>{font}</option>)}
+  </select>
+);
+
+const StylePresetForm: React.FC<{
+  preset: StylePreset;
+  onSave: (preset: StylePreset) => void;
+  onCancel: () => void;
+}> = ({ preset: initialPreset, onSave, onCancel }) => {
+  const [preset, setPreset] = useState<StylePreset>(initialPreset);
+  const thumbnailInputRef = useRef<HTMLInputElement>(null);
+  const update = (changes: Partial<StylePreset>) => setPreset(prev => ({ ...prev, ...changes }));
+
+  const handleThumbnail = async (file: File | undefined) => {
+    if (!file) return;
+    update({ thumbnailUrl: await blobToDataUrl(await createThumbnail(file, 320)) });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-4">
+        <button onClick={() => thumbnailInputRef.current?.click()} title="Subir imagen de ejemplo" className="rounded-lg border border-dashed border-slate-300 hover:border-mostaza">
+          <StyleThumbnail preset={preset} className="w-20 h-20" />
+        </button>
+        <input type="file" ref={thumbnailInputRef} accept="image/*" className="hidden" onChange={(e) => { handleThumbnail(e.target.files?.[0]); e.target.value = ''; }} />
+        <div className="flex-grow flex flex-col gap-1">
+          <Field label="Nombre del estilo">
+            <input className={inputClass} value={preset.name} onChange={(e) => update({ name: e.target.value })} />
+          </Field>
+          {preset.thumbnailUrl && <button onClick={() => update({ thumbnailUrl: null })} className="self-start text-sm text-red-500 hover:underline">Quitar ejemplo</button>}
+        </div>
+      </div>
+
+      <Field label="Indicaciones para los textos">
+        <textarea className={inputClass} rows={2} value={preset.copyPrompt} placeholder="Ej: tono juvenil, frases cortas, con emojis" onChange={(e) => update({ copyPrompt: e.target.value })} />
+      </Field>
+      <Field label="Indicaciones para la imagen">
+        <textarea className={inputClass} rows={2} value={preset.imagePrompt} placeholder="Ej: luz natural, fondo de madera clara, tonos pastel" onChange={(e) => update({ imagePrompt: e.target.value })} />
+      </Field>
+      <Field label="La imagen debe evitar">
+        <textarea className={inputClass} rows={2} value={preset.negativePrompt} placeholder="Ej: personas, fondos oscuros" onChange={(e) => update({ negativePrompt: e.target.value })} />
+      </Field>
+
+      <div className="grid grid-cols-3 gap-3">
+        <Field label="Formato por defecto">
+          <select className={inputClass} value={preset.defaultFormat} onChange={(e) => update({ defaultFormat: e.target.value as AdFormat })}>
+            {AD_FORMATS.map(format => <option key={format.id} value={format.id}>{format.label} · {format.id}</option>)}
+          </select>
+        </Field>
+        <Field label="Fuente de títulos">
+          <FontSelect value={preset.headingFont} onChange={(headingFont) => update({ headingFont })} />
+        </Field>
+        <Field label="Fuente de textos">
+          <FontSelect value={preset.bodyFont} onChange={(bodyFont) => update({ bodyFont })} />
+        </Field>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">Cancelar</button>
+        <button onClick={() => onSave({ ...preset, name: preset.name.trim() || 'Sin nombre' })} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90">Guardar estilo</button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lists the built-in styles (read-only, but they can be duplicated) and the
+ * user's own, which can be edited, deleted and shared as JSON.
+ */
+const StylePresetManager: React.FC<{
+  presets: StylePreset[];
+  activePresetId: string;
+  onActivate: (preset: StylePreset) => void;
+  onSave: (presets: StylePreset[]) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onClose: () => void;
+}> = ({ presets, activePresetId, onActivate, onSave, onDelete, onClose }) => {
+  const [editing, setEditing] = useState<StylePreset | null>(null);
+  const [error, setError] = useState<string>('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const own = presets.filter(preset => !preset.builtIn);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError('');
+    try {
+      const imported = parseStylePresetImport(await file.text());
+      if (imported.length === 0) throw new Error('El archivo no contiene ningún estilo.');
+      await onSave(imported);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No se pudieron importar los estilos.');
+    }
+  };
+
+  const handleExport = (toExport: StylePreset[], name: string) => {
+    downloadFile(new Blob([exportStylePresets(toExport)], { type: 'application/json' }), `estilos-${slugify(name) || 'kp-fly'}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-2xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">{editing ? 'Editar estilo' : 'Estilos'}</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+        <div className="overflow-y-auto p-6">
+          {editing ? (
+            <StylePresetForm
+              preset={editing}
+              onSave={async (preset) => { await onSave([preset]); setEditing(null); }}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="flex flex-col gap-3">
+              {presets.map(preset => (
+                <div key={preset.id} className={`flex items-center gap-3 p-3 rounded-lg border ${preset.id === activePresetId ? 'border-mostaza bg-crema/20' : 'border-slate-200'}`}>
+                  <StyleThumbnail preset={preset} />
+                  <div className="flex-grow min-w-0">
+                    <p className="font-semibold text-slate-800 truncate">
+                      {preset.name}
+                      {preset.builtIn && <span className="ml-2 px-2 py-0.5 rounded-full bg-slate-100 text-slate-500 text-[10px] font-semibold align-middle">Incluido</span>}
+                    </p>
+                    <p className="text-xs text-slate-500 truncate">{preset.defaultFormat}{preset.headingFont && ` · ${preset.headingFont}`}{preset.imagePrompt && ` · ${preset.imagePrompt}`}</p>
+                  </div>
+                  <button
+                    onClick={() => onActivate(preset)}
+                    className={`px-3 py-1 rounded-full text-xs font-semibold ${preset.id === activePresetId ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'}`}
+                  >
+                    {preset.id === activePresetId ? 'Activo' : 'Usar'}
+                  </button>
+                  {!preset.builtIn && <button title="Editar" onClick={() => setEditing(preset)} className="text-slate-500 hover:text-bordo"><i className="fas fa-pen"></i></button>}
+                  <button title="Duplicar" onClick={() => setEditing(duplicateStylePreset(preset))} className="text-slate-500 hover:text-bordo"><i className="fas fa-clone"></i></button>
+                  <button title="Exportar JSON" onClick={() => handleExport([preset], preset.name)} className="text-slate-500 hover:text-bordo"><i className="fas fa-file-export"></i></button>
+                  {!preset.builtIn && <button title="Eliminar" onClick={() => onDelete(preset.id)} className="text-slate-500 hover:text-red-500"><i className="fas fa-trash-alt"></i></button>}
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-4 mt-2">
+                <button onClick={() => setEditing(createEmptyStylePreset())} className="text-sm font-semibold text-bordo hover:underline">
+                  <i className="fas fa-plus mr-1"></i> Nuevo estilo
+                </button>
+                <input type="file" ref={importInputRef} accept="application/json,.json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+                <button onClick={() => importInputRef.current?.click()} className="text-sm font-semibold text-bordo hover:underline">
+                  <i className="fas fa-file-import mr-1"></i> Importar JSON
+                </button>
+                {own.length > 0 && (
+                  <button onClick={() => handleExport(own, 'equipo')} className="text-sm font-semibold text-bordo hover:underline">
+                    <i className="fas fa-file-export mr-1"></i> Exportar mis estilos
+                  </button>
+                )}
+              </div>
+              {error && <p className="text-red-500 text-sm">{error}</p>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetManager;
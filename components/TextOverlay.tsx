@@ -0,0 +1,57 @@
+import React from 'react';
+import type { LogoPlacement, TextLayer } from '../types';
+import { BOX_PADDING_X, BOX_PADDING_Y, LINE_HEIGHT } from '../utils/textLayers';
+
+/** Id used for the logo wherever it is handled like a layer (selection, dragging). */
+export const LOGO_ID = 'logo';
+
+// Renders the logo and text layers over an image. Sizes use container query
+// units, so the parent must be the image box with `container-type: inline-size`.
+const TextOverlay: React.FC<{
+  layers: TextLayer[];
+  logo?: LogoPlacement | null;
+  selectedId?: string | null;
+  onLayerPointerDown?: (layerId: string, e: React.PointerEvent<HTMLElement>) => void;
+}> = ({ layers, logo, selectedId, onLayerPointerDown }) => (
+  <div className="absolute inset-0 overflow-hidden pointer-events-none">
+    {logo && (
+      <img
+        src={logo.imageUrl}
+        alt="Logotipo"
+        draggable={false}
+        onPointerDown={onLayerPointerDown ? (e) => onLayerPointerDown(LOGO_ID, e) : undefined}
+        className={`absolute select-none ${onLayerPointerDown ? 'pointer-events-auto cursor-move touch-none' : ''} ${
+          selectedId === LOGO_ID ? 'outline outline-2 outline-dashed outline-mostaza' : ''
+        }`}
+        style={{ left: `${logo.x * 100}%`, top: `${logo.y * 100}%`, width: `${logo.width * 100}%`, transform: 'translate(-50%, -50%)' }}
+      />
+    )}
+    {layers.map(layer => (
+      <div
+        key={layer.id}
+        onPointerDown={onLayerPointerDown ? (e) => onLayerPointerDown(layer.id, e) : undefined}
+        className={`absolute whitespace-pre text-center select-none ${onLayerPointerDown ? 'pointer-events-auto cursor-move touch-none' : ''} ${
+          layer.id === selectedId ? 'outline outline-2 outline-dashed outline-mostaza' : ''
+        }`}
+        style={{
+          left: `${layer.x * 100}%`,
+          top: `${layer.y * 100}%`,
+          transform: 'translate(-50%, -50%)',
+          fontFamily: `"${layer.fontFamily}"`,
+          fontWeight: layer.fontWeight,
+          fontSize: `${layer.fontSize * 100}cqw`,
+          lineHeight: LINE_HEIGHT,
+          color: layer.color,
+          background: layer.background ?? undefined,
+          padding: layer.background ? `${BOX_PADDING_Y}em ${BOX_PADDING_X}em` : undefined,
+          borderRadius: layer.background ? '0.5em' : undefined,
+          textShadow: layer.shadow ? '0 0 0.15em rgba(0, 0, 0, 0.5)' : undefined,
+        }}
+      >
+        {layer.text}
+      </div>
+    ))}
+  </div>
+);
+
+export default TextOverlay;
@@ -0,0 +1,223 @@
+import React, { useRef, useState } from 'react';
+import TextOverlay, { LOGO_ID } from './TextOverlay';
+import type { AdFormat, LogoPlacement, TextLayer, TextLayerRole } from '../types';
+import { formatAspectRatio, getFormatInfo } from '../utils/adFormats';
+import { FONT_OPTIONS, ROLE_LABELS, createLayer } from '../utils/textLayers';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const TextOverlayEditor: React.FC<{
+  imageUrl: string;
+  format: AdFormat;
+  layers: TextLayer[];
+  logo: LogoPlacement | null;
+  onSave: (layers: TextLayer[], logo: LogoPlacement | null) => void;
+  onClose: () => void;
+}> = ({ imageUrl, format, layers: initialLayers, logo: initialLogo, onSave, onClose }) => {
+  const [layers, setLayers] = useState<TextLayer[]>(initialLayers);
+  const [logo, setLogo] = useState<LogoPlacement | null>(initialLogo);
+  const [selectedId, setSelectedId] = useState<string | null>(initialLayers[0]?.id ?? null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const backgroundRef = useRef<HTMLImageElement>(null);
+  const dragging = useRef<{ id: string; dx: number; dy: number } | null>(null);
+  const selected = layers.find(l => l.id === selectedId) ?? null;
+  const { width, height } = getFormatInfo(format);
+
+  const updateLayer = (id: string, changes: Partial<TextLayer>) =>
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l));
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = boxRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handleLayerPointerDown = (id: string, e: React.PointerEvent<HTMLElement>) => {
+    const target = id === LOGO_ID ? logo! : layers.find(l => l.id === id)!;
+    const { x, y } = pointerPosition(e);
+    boxRef.current!.setPointerCapture(e.pointerId);
+    dragging.current = { id, dx: target.x - x, dy: target.y - y };
+    setSelectedId(id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging.current) return;
+    const { x, y } = pointerPosition(e);
+    const { id, dx, dy } = dragging.current;
+    const position = { x: clamp(x + dx), y: clamp(y + dy) };
+    if (id === LOGO_ID) {
+      setLogo(prev => prev && { ...prev, ...position });
+    } else {
+      updateLayer(id, position);
+    }
+  };
+
+  const addLayer = (role: TextLayerRole) => {
+    const layer = createLayer(role, ROLE_LABELS[role], format);
+    setLayers(prev => [...prev, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const removeLayer = (id: string) => {
+    setLayers(prev => prev.filter(l => l.id !== id));
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-6xl max-h-[95vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">Editar textos</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+
+        <div className="flex flex-col md:flex-row flex-grow overflow-hidden">
+          <div className="flex-grow p-4 bg-slate-100 flex items-center justify-center overflow-auto">
+            <div
+              ref={boxRef}
+              className="relative"
+              style={{ aspectRatio: formatAspectRatio(format), width: `min(100%, calc(70vh * ${width} / ${height}))`, containerType: 'inline-size' }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => { dragging.current = null; }}
+              onPointerDown={(e) => { if (e.target === e.currentTarget || e.target === backgroundRef.current) setSelectedId(null); }}
+            >
+              <img ref={backgroundRef} src={imageUrl} alt="Fondo del anuncio" className="w-full h-full object-contain select-none" draggable={false} />
+              <TextOverlay layers={layers} logo={logo} selectedId={selectedId} onLayerPointerDown={handleLayerPointerDown} />
+            </div>
+          </div>
+
+          <aside className="w-full md:w-80 border-t md:border-t-0 md:border-l p-4 overflow-y-auto flex flex-col gap-4">
+            <div>
+              <p className="text-sm font-semibold text-bordo mb-2">Capas</p>
+              <ul className="flex flex-col gap-1">
+                {logo && (
+                  <li>
+                    <button
+                      onClick={() => setSelectedId(LOGO_ID)}
+                      className={`w-full text-left px-3 py-2 rounded-md text-sm flex items-center gap-2 ${selectedId === LOGO_ID ? 'bg-crema/50 text-bordo font-semibold' : 'hover:bg-slate-100 text-slate-700'}`}
+                    >
+                      <img src={logo.imageUrl} alt="" className="h-6 w-6 object-contain" /> Logotipo
+                    </button>
+                  </li>
+                )}
+                {layers.map(layer => (
+                  <li key={layer.id}>
+                    <button
+                      onClick={() => setSelectedId(layer.id)}
+                      className={`w-full text-left px-3 py-2 rounded-md text-sm ${layer.id === selectedId ? 'bg-crema/50 text-bordo font-semibold' : 'hover:bg-slate-100 text-slate-700'}`}
+                    >
+                      <span className="block text-[10px] uppercase text-slate-400">{ROLE_LABELS[layer.role]}</span>
+                      <span className="block truncate">{layer.text || '—'}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <select
+                value=""
+                onChange={(e) => e.target.value && addLayer(e.target.value as TextLayerRole)}
+                className="mt-2 w-full p-2 border border-slate-300 rounded-lg text-sm bg-white"
+              >
+                <option value="">+ Añadir capa…</option>
+                {(Object.keys(ROLE_LABELS) as TextLayerRole[]).map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+
+            {selectedId === LOGO_ID && logo && (
+              <div className="flex flex-col gap-3 border-t pt-4">
+                <label className="text-xs text-slate-600">
+                  Tamaño del logotipo
+                  <input
+                    type="range" min={0.05} max={0.5} step={0.01}
+                    value={logo.width}
+                    onChange={(e) => setLogo({ ...logo, width: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <button onClick={() => { setLogo(null); setSelectedId(null); }} className="self-start text-sm font-semibold text-red-500 hover:underline">
+                  <i className="fas fa-trash-alt mr-1"></i> Quitar logotipo
+                </button>
+              </div>
+            )}
+
+            {selected && (
+              <div className="flex flex-col gap-3 border-t pt-4">
+                <textarea
+                  value={selected.text}
+                  onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+                  rows={2}
+                  className="w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza"
+                />
+                <label className="text-xs text-slate-600">
+                  Fuente
+                  <select
+                    value={selected.fontFamily}
+                    onChange={(e) => updateLayer(selected.id, { fontFamily: e.target.value })}
+                    className="mt-1 w-full p-2 border border-slate-300 rounded-lg text-sm bg-white"
+                    style={{ fontFamily: `"${selected.fontFamily}"` }}
+                  >
+                    {FONT_OPTIONS.map(font => <option key={font} value={font} style={{ fontFamily: `"${font}"` }}>{font}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-slate-600">
+                  Tamaño
+                  <input
+                    type="range" min={0.015} max={0.2} step={0.005}
+                    value={selected.fontSize}
+                    onChange={(e) => updateLayer(selected.id, { fontSize: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </label>
+                <div className="flex items-center gap-4 text-xs text-slate-600">
+                  <label className="flex items-center gap-2">
+                    Color
+                    <input type="color" value={selected.color} onChange={(e) => updateLayer(selected.id, { color: e.target.value })} />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.fontWeight >= 700}
+                      onChange={(e) => updateLayer(selected.id, { fontWeight: e.target.checked ? 800 : 400 })}
+                    />
+                    Negrita
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={selected.shadow} onChange={(e) => updateLayer(selected.id, { shadow: e.target.checked })} />
+                    Sombra
+                  </label>
+                </div>
+                <div className="flex items-center gap-2 text-xs text-slate-600">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.background !== null}
+                      onChange={(e) => updateLayer(selected.id, { background: e.target.checked ? '#490F1F' : null })}
+                    />
+                    Fondo
+                  </label>
+                  {selected.background !== null && (
+                    <input type="color" value={selected.background} onChange={(e) => updateLayer(selected.id, { background: e.target.value })} />
+                  )}
+                </div>
+                <button onClick={() => removeLayer(selected.id)} className="self-start text-sm font-semibold text-red-500 hover:underline">
+                  <i className="fas fa-trash-alt mr-1"></i> Eliminar capa
+                </button>
+              </div>
+            )}
+          </aside>
+        </div>
+
+        <footer className="p-4 border-t flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300">
+            Cancelar
+          </button>
+          <button onClick={() => { onSave(layers, logo); onClose(); }} className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90">
+            Guardar textos
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default TextOverlayEditor;
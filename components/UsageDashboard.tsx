@@ -0,0 +1,298 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Spinner from './Spinner';
+import type { ProjectSummary, UsageOperation, UsageRecord } from '../types';
+import { exportUsageCsv, listUsage } from '../services/usageStore';
+import { downloadFile } from '../utils/fileUtils';
+import {
+  DEFAULT_PRICES, type ModelPrice, type UsageSettings, type UsageTotals, dayKey, formatUsd, hasPrice, loadUsageSettings,
+  recordCost, saveUsageSettings, startOfMonth, summarizeUsage
+} from '../utils/usageCost';
+
+type Period = 'month' | '30days' | 'all';
+type Grouping = 'project' | 'day' | 'brand';
+
+const PERIOD_LABELS: Record<Period, string> = { month: 'Este mes', '30days': 'Últimos 30 días', all: 'Todo' };
+const GROUPING_LABELS: Record<Grouping, string> = { project: 'Por proyecto', day: 'Por día', brand: 'Por marca / cliente' };
+const GROUP_COLUMNS: Record<Grouping, string> = { project: 'Proyecto', day: 'Día', brand: 'Marca / cliente' };
+const OPERATION_LABELS: Record<UsageOperation, string> = { analyze: 'Lectura de fotos', copy: 'Textos', image: 'Imágenes', edit: 'Ediciones', review: 'Revisiones' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const periodStart = (period: Period): number =>
+  period === 'month' ? startOfMonth() : period === '30days' ? Date.now() - 30 * DAY_MS : 0;
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-mostaza bg-white';
+
+const Stat: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="p-3 bg-crema/20 border border-crema rounded-lg">
+    <p className="text-xs text-slate-500">{label}</p>
+    <p className="text-xl font-bold text-bordo">{value}</p>
+    {detail && <p className="text-xs text-slate-500">{detail}</p>}
+  </div>
+);
+
+const BudgetBar: React.FC<{ spent: number; budget: number }> = ({ spent, budget }) => {
+  const percent = Math.min(100, (spent / budget) * 100);
+  const barColor = percent >= 100 ? 'bg-red-500' : percent > 80 ? 'bg-mostaza' : 'bg-bordo';
+  return (
+    <div className="flex flex-col gap-1">
+      <p className="text-xs text-slate-600">{formatUsd(spent)} de {formatUsd(budget)} este mes</p>
+      <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+        <div className={`h-full ${barColor}`} style={{ width: `${percent}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+const number = (value: number) => value.toLocaleString('es');
+
+const PriceTable: React.FC<{ prices: ModelPrice[]; unpriced: string[]; onChange: (prices: ModelPrice[]) => void }> = ({ prices, unpriced, onChange }) => {
+  const update = (index: number, changes: Partial<ModelPrice>) =>
+    onChange(prices.map((price, i) => i === index ? { ...price, ...changes } : price));
+  const priceInput = (index: number, field: 'inputPerMillion' | 'outputPerMillion' | 'perImage') => (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      className={inputClass}
+      value={prices[index][field]}
+      onChange={(e) => update(index, { [field]: Math.max(0, Number(e.target.value) || 0) })}
+    />
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-500">
+            <th className="font-medium pb-1">Modelo</th>
+            <th className="font-medium pb-1">Entrada (USD / 1M tokens)</th>
+            <th className="font-medium pb-1">Salida (USD / 1M tokens)</th>
+            <th className="font-medium pb-1">Por imagen (USD)</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {prices.map((price, index) => (
+            <tr key={index}>
+              <td className="pr-2 py-1"><input className={inputClass} value={price.model} onChange={(e) => update(index, { model: e.target.value })} /></td>
+              <td className="pr-2 py-1">{priceInput(index, 'inputPerMillion')}</td>
+              <td className="pr-2 py-1">{priceInput(index, 'outputPerMillion')}</td>
+              <td className="pr-2 py-1">{priceInput(index, 'perImage')}</td>
+              <td className="py-1">
+                <button onClick={() => onChange(prices.filter((_, i) => i !== index))} title="Quitar" className="text-slate-400 hover:text-red-500">
+                  <i className="fas fa-trash"></i>
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {unpriced.length > 0 && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-2">
+          Sin precio, cuentan como gratis: {unpriced.join(', ')}.
+        </p>
+      )}
+      <div className="flex flex-wrap gap-3 text-sm">
+        {unpriced.map(model => (
+          <button key={model} onClick={() => onChange([...prices, { model, inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }])} className="font-semibold text-bordo hover:underline">
+            <i className="fas fa-plus mr-1"></i> Añadir {model}
+          </button>
+        ))}
+        <button onClick={() => onChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0, perImage: 0 }])} className="font-semibold text-bordo hover:underline">
+          <i className="fas fa-plus mr-1"></i> Añadir modelo
+        </button>
+        <button onClick={() => onChange(DEFAULT_PRICES)} className="font-semibold text-slate-600 hover:underline">
+          Restablecer precios
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * What the model calls cost, from the usage records: totals for a period
+ * grouped by project, day or brand, the monthly budget and the price table
+ * the costs are computed with. Costs are recomputed from the token counts,
+ * so editing a price updates the whole history.
+ */
+const UsageDashboard: React.FC<{
+  projects: ProjectSummary[];
+  onClose: () => void;
+}> = ({ projects, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[] | null>(null);
+  const [error, setError] = useState<string>('');
+  const [settings, setSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [period, setPeriod] = useState<Period>('month');
+  const [grouping, setGrouping] = useState<Grouping>('project');
+  const [showPrices, setShowPrices] = useState<boolean>(false);
+
+  useEffect(() => {
+    listUsage().then(setRecords).catch(err => {
+      console.error("No se pudo cargar el registro de uso:", err);
+      setError('No se pudo cargar el registro de uso.');
+      setRecords([]);
+    });
+  }, []);
+
+  useEffect(() => saveUsageSettings(settings), [settings]);
+
+  const { prices, monthlyBudget } = settings;
+  const projectName = (projectId: string | null): string => {
+    if (!projectId) return 'Sin proyecto (lectura de fotos)';
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return 'Proyecto eliminado';
+    const date = new Date(project.createdAt).toLocaleDateString('es');
+    return project.description ? `${date} · ${project.description.slice(0, 60)}` : date;
+  };
+
+  const inPeriod = useMemo(() => {
+    const start = periodStart(period);
+    return (records ?? []).filter(record => record.time >= start);
+  }, [records, period]);
+
+  const monthSpent = useMemo(() => {
+    const start = startOfMonth();
+    return (records ?? []).filter(record => record.time >= start).reduce((sum, record) => sum + recordCost(record, prices), 0);
+  }, [records, prices]);
+
+  const [total] = summarizeUsage(inPeriod, prices, () => 'total');
+  const rows: UsageTotals[] = summarizeUsage(inPeriod, prices, record =>
+    grouping === 'project' ? record.projectId ?? '' : grouping === 'day' ? dayKey(record.time) : record.brandName || 'Sin marca');
+  if (grouping === 'day') rows.sort((a, b) => b.key.localeCompare(a.key));
+  const byOperation = summarizeUsage(inPeriod, prices, record => record.operation);
+  const unpriced = [...new Set<string>((records ?? []).map(record => record.model))].filter(model => !hasPrice(model, prices));
+
+  const rowLabel = (key: string) =>
+    grouping === 'project' ? projectName(key || null) : grouping === 'day' ? new Date(`${key}T00:00`).toLocaleDateString('es', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' }) : key;
+
+  const handleExport = () => {
+    downloadFile(new Blob([exportUsageCsv(inPeriod, prices, projectName)], { type: 'text/csv;charset=utf-8' }), `uso-api-${dayKey(Date.now())}.csv`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-5xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center gap-4">
+          <h2 className="text-xl font-bold text-bordo">Uso y costos</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+        <div className="overflow-y-auto p-6 flex flex-col gap-5">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="inline-flex p-1 bg-white border border-slate-200 rounded-full">
+              {(Object.keys(PERIOD_LABELS) as Period[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => setPeriod(id)}
+                  className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${period === id ? 'bg-bordo text-white' : 'text-slate-700 hover:bg-slate-100'}`}
+                >
+                  {PERIOD_LABELS[id]}
+                </button>
+              ))}
+            </div>
+            <label className="block text-xs font-medium text-slate-600 w-44">
+              Presupuesto mensual (USD)
+              <input
+                type="number"
+                min={0}
+                step="any"
+                className={`${inputClass} mt-1`}
+                value={monthlyBudget || ''}
+                placeholder="Sin límite"
+                onChange={(e) => setSettings(prev => ({ ...prev, monthlyBudget: Math.max(0, Number(e.target.value) || 0) }))}
+              />
+            </label>
+            {monthlyBudget > 0 && <div className="flex-grow min-w-[12rem]"><BudgetBar spent={monthSpent} budget={monthlyBudget} /></div>}
+          </div>
+
+          {records === null ? (
+            <Spinner className="h-8 w-8 mx-auto text-mostaza" />
+          ) : (
+            <>
+              {error && <p className="text-red-500 text-sm">{error}</p>}
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Costo estimado" value={formatUsd(total?.cost ?? 0)} />
+                <Stat label="Llamadas" value={number(total?.calls ?? 0)} detail={total?.failed ? `${number(total.failed)} fallidas` : undefined} />
+                <Stat label="Imágenes" value={number(total?.images ?? 0)} />
+                <Stat label="Tokens" value={number((total?.inputTokens ?? 0) + (total?.outputTokens ?? 0))} detail={`${number(total?.inputTokens ?? 0)} entrada · ${number(total?.outputTokens ?? 0)} salida`} />
+              </div>
+              {byOperation.length > 0 && (
+                <p className="text-sm text-slate-600">
+                  {byOperation.map(op => `${OPERATION_LABELS[op.key as UsageOperation]}: ${formatUsd(op.cost)} (${number(op.calls)})`).join(' · ')}
+                </p>
+              )}
+
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="inline-flex p-1 bg-white border border-slate-200 rounded-full">
+                  {(Object.keys(GROUPING_LABELS) as Grouping[]).map(id => (
+                    <button
+                      key={id}
+                      onClick={() => setGrouping(id)}
+                      className={`px-3 py-1 rounded-full text-sm font-semibold transition-colors ${grouping === id ? 'bg-bordo text-white' : 'text-slate-700 hover:bg-slate-100'}`}
+                    >
+                      {GROUPING_LABELS[id]}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={handleExport}
+                  disabled={inPeriod.length === 0}
+                  className="px-4 py-2 rounded-full text-sm font-semibold bg-white text-slate-700 hover:bg-slate-100 border border-slate-300 disabled:opacity-50"
+                >
+                  <i className="fas fa-file-csv mr-1"></i> Exportar CSV
+                </button>
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="text-center text-slate-500 py-8">No hay llamadas registradas en este período.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 border-b">
+                      <th className="font-medium py-2">{GROUP_COLUMNS[grouping]}</th>
+                      <th className="font-medium py-2 text-right">Llamadas</th>
+                      <th className="font-medium py-2 text-right">Fallidas</th>
+                      <th className="font-medium py-2 text-right">Tokens</th>
+                      <th className="font-medium py-2 text-right">Imágenes</th>
+                      <th className="font-medium py-2 text-right">Latencia media</th>
+                      <th className="font-medium py-2 text-right">Costo</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.key} className="border-b border-slate-100">
+                        <td className="py-2 pr-2 max-w-xs truncate" title={rowLabel(row.key)}>{rowLabel(row.key)}</td>
+                        <td className="py-2 text-right">{number(row.calls)}</td>
+                        <td className={`py-2 text-right ${row.failed > 0 ? 'text-red-600' : 'text-slate-400'}`}>{number(row.failed)}</td>
+                        <td className="py-2 text-right">{number(row.inputTokens + row.outputTokens)}</td>
+                        <td className="py-2 text-right">{number(row.images)}</td>
+                        <td className="py-2 text-right">{(row.latencyMs / 1000).toFixed(1)} s</td>
+                        <td className="py-2 text-right font-semibold text-bordo">{formatUsd(row.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+
+          <div className="border-t pt-4">
+            <button onClick={() => setShowPrices(!showPrices)} className="text-sm font-semibold text-bordo hover:underline">
+              <i className={`fas ${showPrices ? 'fa-chevron-down' : 'fa-chevron-right'} mr-1`}></i> Tabla de precios
+            </button>
+            {showPrices && (
+              <div className="mt-3">
+                <PriceTable prices={prices} unpriced={unpriced} onChange={(updated) => setSettings(prev => ({ ...prev, prices: updated }))} />
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            Los costos se calculan con los tokens que informa cada respuesta y la tabla de precios; son una estimación y pueden diferir de la factura del proveedor.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
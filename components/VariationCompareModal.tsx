@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import Spinner from './Spinner';
+import TextOverlay from './TextOverlay';
+import VariationReview from './VariationReview';
+import type { AdFormat, Generation, GenerationReview } from '../types';
+import { formatAspectRatio, getFormatInfo } from '../utils/adFormats';
+import { currentImageUrl } from '../utils/versionTree';
+import { isChosen } from '../utils/variationReview';
+
+const MAX_COMPARED = 4;
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-1 sm:grid-cols-2',
+  3: 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-3',
+  4: 'grid-cols-1 sm:grid-cols-2 lg:grid-cols-4',
+};
+
+/**
+ * Shows up to four variations of the project side by side, in the same
+ * format, so they can be rated against each other. Reviews are applied (and
+ * saved) as they are given; the modal only keeps which variations are shown.
+ */
+const VariationCompareModal: React.FC<{
+  generations: Generation[];
+  onReview: (generationId: string, changes: Partial<GenerationReview>) => void;
+  onExportChosen: () => void;
+  exporting: boolean;
+  onClose: () => void;
+}> = ({ generations, onReview, onExportChosen, exporting, onClose }) => {
+  const [shownIds, setShownIds] = useState<string[]>(() => {
+    const candidates = generations.filter(gen => !gen.review.rejected);
+    return (candidates.length >= 2 ? candidates : generations).slice(-MAX_COMPARED).map(gen => gen.id);
+  });
+  const shown = generations.filter(gen => shownIds.includes(gen.id));
+  // Only formats every shown variation has can be compared.
+  const formats = (shown[0]?.images ?? []).map(img => img.format)
+    .filter(format => shown.every(gen => gen.images.some(img => img.format === format)));
+  const [chosenFormat, setChosenFormat] = useState<AdFormat | null>(null);
+  const format = chosenFormat && formats.includes(chosenFormat) ? chosenFormat : formats[0];
+  const chosenCount = generations.filter(isChosen).length;
+
+  const toggleShown = (id: string) => setShownIds(prev =>
+    prev.includes(id) ? prev.filter(other => other !== id) : prev.length < MAX_COMPARED ? [...prev, id] : prev
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-7xl max-h-[95vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-xl font-bold text-bordo">Comparar variaciones</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+        </header>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-2">
+          <span className="text-xs text-slate-500 mr-1">Mostrar (hasta {MAX_COMPARED}):</span>
+          {generations.map((gen, index) => {
+            const selected = shownIds.includes(gen.id);
+            return (
+              <button
+                key={gen.id}
+                onClick={() => toggleShown(gen.id)}
+                disabled={!selected && shownIds.length >= MAX_COMPARED}
+                className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors disabled:opacity-40 ${
+                  selected ? 'bg-bordo text-white' : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'
+                } ${gen.review.rejected ? 'line-through' : ''}`}
+              >
+                {index + 1}{gen.review.finalPick && <i className="fas fa-trophy ml-1"></i>}
+              </button>
+            );
+          })}
+          {formats.length > 1 && (
+            <select value={format} onChange={(e) => setChosenFormat(e.target.value as AdFormat)} className="ml-auto p-1.5 border border-slate-300 rounded-lg text-xs bg-white">
+              {formats.map(f => <option key={f} value={f}>{getFormatInfo(f).label} · {f}</option>)}
+            </select>
+          )}
+        </div>
+
+        <div className="overflow-y-auto p-6">
+          {shown.length < 2 && <p className="text-sm text-slate-500 mb-4">Elige al menos dos variaciones para compararlas.</p>}
+          <div className={`grid gap-6 ${GRID_COLUMNS[Math.max(1, shown.length)]}`}>
+            {shown.map(gen => {
+              const image = gen.images.find(img => img.format === format) ?? gen.images[0];
+              return (
+                <div key={gen.id} className={`flex flex-col gap-3 ${gen.review.rejected ? 'opacity-50' : ''}`}>
+                  <div
+                    className={`bg-slate-100 rounded-lg overflow-hidden relative ${gen.review.finalPick ? 'ring-4 ring-mostaza' : ''}`}
+                    style={{ aspectRatio: formatAspectRatio(image.format), containerType: 'inline-size' }}
+                  >
+                    <img src={currentImageUrl(image)} alt={`Variación ${generations.indexOf(gen) + 1}`} className="w-full h-full object-contain" />
+                    <TextOverlay layers={image.layers} logo={image.logo} />
+                  </div>
+                  <p className="text-sm font-semibold text-bordo">Variación {generations.indexOf(gen) + 1}</p>
+                  <p className="text-xs text-slate-600 line-clamp-3">{gen.description}</p>
+                  <VariationReview review={gen.review} onChange={(changes) => onReview(gen.id, changes)} />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <footer className="p-4 border-t flex items-center justify-between gap-4">
+          <p className="text-xs text-slate-500">Se exportan la elegida y las preseleccionadas ({chosenCount}).</p>
+          <button
+            onClick={onExportChosen}
+            disabled={chosenCount === 0 || exporting}
+            className="px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90 disabled:bg-bordo/50"
+          >
+            {exporting ? <Spinner className="inline mr-1 text-white" /> : <i className="fas fa-file-zipper mr-1"></i>} Exportar elegidas
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default VariationCompareModal;
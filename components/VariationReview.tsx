@@ -0,0 +1,42 @@
+import React from 'react';
+import type { GenerationReview } from '../types';
+
+const toggleClass = (active: boolean, activeClass: string) =>
+  `px-3 py-1 rounded-full text-xs font-semibold transition-colors ${active ? activeClass : 'bg-white text-slate-700 hover:bg-slate-100 border border-slate-300'}`;
+
+/**
+ * Star rating plus shortlist, reject and final-pick toggles for one
+ * variation. Clicking the current rating again clears it.
+ */
+const VariationReview: React.FC<{
+  review: GenerationReview;
+  onChange: (changes: Partial<GenerationReview>) => void;
+}> = ({ review, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2" onClick={e => e.stopPropagation()}>
+    <div className="flex" role="radiogroup" aria-label="Valoración">
+      {[1, 2, 3, 4, 5].map(stars => (
+        <button
+          key={stars}
+          role="radio"
+          aria-checked={review.rating === stars}
+          title={`${stars} de 5`}
+          onClick={() => onChange({ rating: review.rating === stars ? 0 : stars })}
+          className={`px-0.5 text-lg ${stars <= review.rating ? 'text-mostaza' : 'text-slate-300 hover:text-mostaza/60'}`}
+        >
+          <i className="fas fa-star"></i>
+        </button>
+      ))}
+    </div>
+    <button onClick={() => onChange({ starred: !review.starred })} title="Incluir al exportar las elegidas" className={toggleClass(review.starred, 'bg-mostaza text-bordo')}>
+      <i className="fas fa-bookmark mr-1"></i> Preseleccionar
+    </button>
+    <button onClick={() => onChange({ finalPick: !review.finalPick })} className={toggleClass(review.finalPick, 'bg-bordo text-white')}>
+      <i className="fas fa-trophy mr-1"></i> {review.finalPick ? 'Elegida' : 'Elegir'}
+    </button>
+    <button onClick={() => onChange({ rejected: !review.rejected })} className={toggleClass(review.rejected, 'bg-red-100 text-red-700 border border-red-200')}>
+      <i className="fas fa-thumbs-down mr-1"></i> {review.rejected ? 'Descartada' : 'Descartar'}
+    </button>
+  </div>
+);
+
+export default VariationReview;
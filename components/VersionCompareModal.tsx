@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ImageVersion } from '../types';
+
+const VersionPane: React.FC<{ version: ImageVersion; onUse: () => void }> = ({ version, onUse }) => (
+  <div className="flex-1 min-w-0 flex flex-col gap-2">
+    <img src={version.imageUrl} alt={version.prompt ?? 'Imagen original'} className="w-full max-h-[65vh] object-contain bg-slate-100 rounded-lg" />
+    <p className="text-sm text-slate-700">{version.prompt ?? 'Imagen original'}</p>
+    <button onClick={onUse} className="self-start px-4 py-2 rounded-full text-sm font-semibold bg-bordo text-white hover:bg-opacity-90">
+      Usar esta versión
+    </button>
+  </div>
+);
+
+const VersionCompareModal: React.FC<{
+  left: ImageVersion;
+  right: ImageVersion;
+  onUse: (versionId: string) => void;
+  onClose: () => void;
+}> = ({ left, right, onUse, onClose }) => (
+  <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+    <div className="bg-white w-full max-w-6xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+      <header className="p-4 border-b flex justify-between items-center">
+        <h2 className="text-xl font-bold text-bordo">Comparar versiones</h2>
+        <button onClick={onClose} className="text-slate-500 hover:text-bordo text-2xl font-bold">&times;</button>
+      </header>
+      <div className="overflow-y-auto p-6 flex flex-col sm:flex-row gap-6">
+        <VersionPane version={left} onUse={() => onUse(left.id)} />
+        <VersionPane version={right} onUse={() => onUse(right.id)} />
+      </div>
+    </div>
+  </div>
+);
+
+export default VersionCompareModal;
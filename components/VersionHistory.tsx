@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import type { AdImage, ImageVersion } from '../types';
+import { flattenTree } from '../utils/versionTree';
+
+const formatTime = (timestamp: number) =>
+  timestamp ? new Date(timestamp).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' }) : '';
+
+const VersionHistory: React.FC<{
+  image: AdImage;
+  onSelect: (versionId: string) => void;
+  onCompare: (left: ImageVersion, right: ImageVersion) => void;
+}> = ({ image, onSelect, onCompare }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const entries = flattenTree(image);
+
+  const toggleCompare = (versionId: string) => {
+    setCompareIds(prev => prev.includes(versionId)
+      ? prev.filter(id => id !== versionId)
+      : [...prev, versionId].slice(-2));
+  };
+
+  const startCompare = () => {
+    const [left, right] = compareIds.map(id => image.versions.find(v => v.id === id)!);
+    onCompare(left, right);
+  };
+
+  return (
+    <div className="mt-3 border border-slate-200 rounded-lg p-3 bg-slate-50">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-semibold text-bordo">Versiones ({image.versions.length})</p>
+        <button
+          onClick={startCompare}
+          disabled={compareIds.length !== 2}
+          className="text-xs font-semibold text-bordo hover:underline disabled:text-slate-400 disabled:no-underline"
+        >
+          <i className="fas fa-columns mr-1"></i> Comparar seleccionadas
+        </button>
+      </div>
+      <ul className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+        {entries.map(({ version, depth }) => {
+          const isCurrent = version.id === image.currentVersionId;
+          return (
+            <li
+              key={version.id}
+              className={`flex items-center gap-2 p-1 rounded-md ${isCurrent ? 'bg-crema/40' : 'hover:bg-white'}`}
+              style={{ marginLeft: depth * 16 }}
+            >
+              <input
+                type="checkbox"
+                title="Seleccionar para comparar"
+                checked={compareIds.includes(version.id)}
+                onChange={() => toggleCompare(version.id)}
+              />
+              <button onClick={() => onSelect(version.id)} className="flex items-center gap-2 flex-grow text-left min-w-0">
+                <img src={version.imageUrl} alt="" className="w-10 h-10 object-cover rounded border flex-shrink-0" />
+                <span className="min-w-0">
+                  <span className="block text-xs text-slate-700 truncate">{version.prompt ?? 'Imagen original'}</span>
+                  <span className="block text-[10px] text-slate-400">{formatTime(version.createdAt)}{isCurrent && ' · actual'}</span>
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,57 @@
+// @ts-check
+// Settings for the API server, read once at start-up from the environment
+// and from `.env.local` (the same file Vite reads), so one file configures both.
+
+// `process.loadEnvFile` needs Node 20.12 or later (see "engines" in package.json).
+if (typeof process.loadEnvFile === 'function') {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No .env.local: rely on the real environment.
+  }
+} else {
+  console.warn(`Node ${process.version} no puede leer .env.local (hace falta 20.12 o posterior): solo se usan las variables de entorno.`);
+}
+
+/**
+ * @param {string | undefined} value
+ * @param {number} fallback
+ */
+const numberFromEnv = (value, fallback) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/** `--stub`: answer with the local stub of the Gemini API instead of the real one (see stubUpstream.js). */
+const useStub = process.argv.includes('--stub');
+
+export const SERVER_CONFIG = {
+  port: numberFromEnv(process.env.SERVER_PORT, 8787),
+  // Only this machine by default: whoever reaches the server spends the key,
+  // and client ids are whatever the caller sends. Set `0.0.0.0` to expose it.
+  host: process.env.SERVER_HOST || '127.0.0.1',
+  useStub,
+  stubPort: numberFromEnv(process.env.STUB_PORT, 8788),
+  // The stub accepts any key but "invalid", so none is needed to try it.
+  apiKey: process.env.GEMINI_API_KEY || (useStub ? 'stub' : ''),
+  /** Base URL of the Gemini API, for a gateway or another stub. Ignored with `--stub`. */
+  upstreamUrl: process.env.GEMINI_UPSTREAM_URL || undefined,
+  // The browser never chooses the model: each route always uses one of these.
+  models: {
+    text: process.env.GEMINI_TEXT_MODEL || 'gemini-2.5-flash',
+    image: process.env.GEMINI_IMAGE_MODEL || 'imagen-4.0-generate-001',
+    edit: process.env.GEMINI_EDIT_MODEL || 'gemini-2.5-flash-image',
+  },
+  /**
+   * Requests per minute for one browser (identified by its client id). A
+   * catalog batch runs four rows at once, each a copy, an image per format and
+   * a review, so this leaves room for it.
+   */
+  rateLimitPerUser: numberFromEnv(process.env.RATE_LIMIT_PER_MINUTE, 120),
+  /** Requests per minute from one IP address, whatever client ids it sends. */
+  rateLimitPerIp: numberFromEnv(process.env.RATE_LIMIT_PER_IP_PER_MINUTE, 300),
+  /** Larger request bodies are refused before they are parsed. */
+  maxBodyBytes: numberFromEnv(process.env.MAX_REQUEST_MB, 20) * 1024 * 1024,
+  /** Optional file the usage log is appended to, besides standard output. */
+  usageLogPath: process.env.USAGE_LOG_PATH || '',
+};
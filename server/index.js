@@ -0,0 +1,237 @@
+// @ts-check
+// API server for the app: the only place the Gemini key lives. The browser
+// calls the routes below (through Vite's `/api` proxy in development) and
+// never sees the key or chooses the model; each request is rate limited per
+// user and per IP, size limited and written to the usage log.
+//
+//   npm run server        against the real Gemini API (GEMINI_API_KEY)
+//   npm run server:stub   against a local stub of the API, no key or quota needed
+
+import http from 'node:http';
+import { appendFile } from 'node:fs/promises';
+import { GoogleGenAI, Modality } from '@google/genai';
+import { SERVER_CONFIG } from './config.js';
+import { createRateLimiter } from './rateLimiter.js';
+import { startStubUpstream } from './stubUpstream.js';
+
+/** An error answered with its own status and message, and a `code` when the browser has to tell it apart. */
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   * @param {Record<string, string>} [headers]
+   * @param {string} [code]
+   */
+  constructor(status, message, headers = {}, code) {
+    super(message);
+    this.status = status;
+    this.headers = headers;
+    this.code = code;
+  }
+}
+
+const upstreamUrl = SERVER_CONFIG.useStub ? await startStubUpstream(SERVER_CONFIG.stubPort) : SERVER_CONFIG.upstreamUrl;
+
+const ai = SERVER_CONFIG.apiKey
+  ? new GoogleGenAI({
+    apiKey: SERVER_CONFIG.apiKey,
+    httpOptions: upstreamUrl ? { baseUrl: upstreamUrl } : undefined,
+  })
+  : null;
+
+const userLimiter = createRateLimiter(SERVER_CONFIG.rateLimitPerUser);
+const ipLimiter = createRateLimiter(SERVER_CONFIG.rateLimitPerIp);
+
+// Client ids are random ids the browser keeps in localStorage; anything else is treated as anonymous.
+const CLIENT_ID_PATTERN = /^[\w-]{8,64}$/;
+
+/** @param {http.IncomingMessage} req */
+const clientIdOf = (req) => {
+  const header = req.headers['x-client-id'];
+  return typeof header === 'string' && CLIENT_ID_PATTERN.test(header) ? header : 'anonymous';
+};
+
+/**
+ * @param {string} user
+ * @param {string} ip
+ */
+const checkRateLimits = (user, ip) => {
+  const waitSeconds = ipLimiter.take(`ip:${ip}`) || userLimiter.take(`user:${user}`);
+  if (waitSeconds > 0) {
+    // Coded so the browser does not take it for the Gemini quota, which also answers 429.
+    throw new HttpError(429, 'Demasiadas solicitudes; espera un momento.', { 'Retry-After': String(waitSeconds) }, 'rate_limited');
+  }
+};
+
+/**
+ * Reads a JSON body, refusing it as soon as it grows past the size limit. The
+ * rest of a refused body is drained rather than cut off, so the client gets
+ * the 413 instead of a reset connection.
+ * @param {http.IncomingMessage} req
+ * @returns {Promise<{ body: any; bytes: number }>}
+ */
+const readJsonBody = (req) => new Promise((resolve, reject) => {
+  const tooLarge = () => new HttpError(413, 'La solicitud es demasiado grande.');
+  if (Number(req.headers['content-length']) > SERVER_CONFIG.maxBodyBytes) {
+    req.resume();
+    return reject(tooLarge());
+  }
+
+  /** @type {Buffer[]} */
+  const chunks = [];
+  let bytes = 0;
+  const onData = (/** @type {Buffer} */ chunk) => {
+    bytes += chunk.length;
+    if (bytes <= SERVER_CONFIG.maxBodyBytes) return chunks.push(chunk);
+    req.off('data', onData);
+    req.resume();
+    reject(tooLarge());
+  };
+  req.on('data', onData);
+  req.on('error', reject);
+  req.on('end', () => {
+    try {
+      resolve({ body: JSON.parse(Buffer.concat(chunks).toString('utf8')), bytes });
+    } catch {
+      reject(new HttpError(400, 'El cuerpo de la solicitud no es JSON válido.'));
+    }
+  });
+});
+
+/** @param {unknown} value */
+const requireArray = (value) => {
+  if (!Array.isArray(value) || value.length === 0) throw new HttpError(400, 'Faltan los contenidos de la solicitud.');
+  return value;
+};
+
+// The SDK's own HTTP details are of no use to the browser.
+/** @param {{ sdkHttpResponse?: unknown }} response */
+const withoutHttpDetails = ({ sdkHttpResponse, ...rest }) => rest;
+
+/**
+ * Each route validates the body, calls one model and returns what the
+ * browser needs. Only the listed config fields are forwarded.
+ *
+ * @type {Record<string, { model: string; handle: (body: any, signal: AbortSignal) => Promise<{ result: object; usage?: any }> }>}
+ */
+const ROUTES = {
+  '/api/generate-content': {
+    model: SERVER_CONFIG.models.text,
+    handle: async ({ contents, config = {} }, signal) => {
+      const response = await /** @type {GoogleGenAI} */ (ai).models.generateContent({
+        model: SERVER_CONFIG.models.text,
+        contents: requireArray(contents),
+        config: { responseMimeType: config.responseMimeType, responseSchema: config.responseSchema, abortSignal: signal },
+      });
+      return { result: { ...withoutHttpDetails(response), text: response.text }, usage: response.usageMetadata };
+    },
+  },
+  '/api/generate-images': {
+    model: SERVER_CONFIG.models.image,
+    handle: async ({ prompt, aspectRatio }, signal) => {
+      if (typeof prompt !== 'string' || !prompt.trim()) throw new HttpError(400, 'Falta el prompt de la imagen.');
+      const response = await /** @type {GoogleGenAI} */ (ai).models.generateImages({
+        model: SERVER_CONFIG.models.image,
+        prompt,
+        config: { numberOfImages: 1, outputMimeType: 'image/jpeg', aspectRatio, abortSignal: signal },
+      });
+      return { result: withoutHttpDetails(response) };
+    },
+  },
+  '/api/edit-image': {
+    model: SERVER_CONFIG.models.edit,
+    handle: async ({ parts }, signal) => {
+      const response = await /** @type {GoogleGenAI} */ (ai).models.generateContent({
+        model: SERVER_CONFIG.models.edit,
+        contents: { parts: requireArray(parts) },
+        config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+      });
+      return { result: withoutHttpDetails(response), usage: response.usageMetadata };
+    },
+  },
+};
+
+/** @param {Record<string, unknown>} entry */
+const logUsage = (entry) => {
+  const line = JSON.stringify({ time: new Date().toISOString(), ...entry });
+  console.log(line);
+  if (SERVER_CONFIG.usageLogPath) {
+    appendFile(SERVER_CONFIG.usageLogPath, `${line}\n`).catch(err => console.error('No se pudo escribir el registro de uso:', err));
+  }
+};
+
+/**
+ * @param {http.ServerResponse} res
+ * @param {number} status
+ * @param {object} body
+ * @param {Record<string, string>} [headers]
+ */
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * SDK errors carry the upstream status; anything else is our own failure.
+ * @param {unknown} err
+ * @returns {HttpError}
+ */
+const toHttpError = (err) => {
+  if (err instanceof HttpError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof (/** @type {{ status?: unknown }} */ (err))?.status === 'number' ? /** @type {{ status: number }} */ (err).status : 502;
+  return new HttpError(status, message);
+};
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+  const route = ROUTES[path];
+  const user = clientIdOf(req);
+  const ip = req.socket.remoteAddress ?? 'unknown';
+  let requestBytes = 0;
+  /** @type {any} */
+  let usage;
+
+  if (!route) return sendJson(res, 404, { error: { message: `Ruta desconocida: ${path}` } });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: { message: 'Usa POST.' } }, { Allow: 'POST' });
+
+  // Stop the upstream call (and its cost) when the browser gives up on it.
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  let status = 200;
+  try {
+    checkRateLimits(user, ip);
+    if (!ai) throw new HttpError(401, 'GEMINI_API_KEY no está configurada en el servidor.');
+    const { body, bytes } = await readJsonBody(req);
+    requestBytes = bytes;
+    const { result, usage: reported } = await route.handle(body, controller.signal);
+    usage = reported;
+    sendJson(res, status, { ...result, model: route.model });
+  } catch (err) {
+    const error = toHttpError(err);
+    status = controller.signal.aborted ? 499 : error.status;
+    if (status >= 500) console.error(`${path}:`, err);
+    if (!res.headersSent && !controller.signal.aborted) sendJson(res, status, { error: { message: error.message, code: error.code } }, error.headers);
+  }
+
+  logUsage({
+    user,
+    ip,
+    route: path,
+    model: route.model,
+    status,
+    ms: Date.now() - started,
+    requestBytes,
+    promptTokens: usage?.promptTokenCount ?? null,
+    outputTokens: usage?.candidatesTokenCount ?? null,
+  });
+});
+
+server.listen(SERVER_CONFIG.port, SERVER_CONFIG.host, () => {
+  console.log(`Servidor de la API en http://${SERVER_CONFIG.host}:${SERVER_CONFIG.port}${upstreamUrl ? ` (upstream: ${upstreamUrl})` : ''}`);
+  if (!ai) console.warn('GEMINI_API_KEY no está configurada: todas las solicitudes responderán 401.');
+});
@@ -0,0 +1,38 @@
+// @ts-check
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Sliding-window limiter: at most `limit` requests per key in any 60-second
+ * window. Keys with no recent requests are dropped as they are checked, and
+ * all of them every window, so memory stays bounded by the active clients.
+ *
+ * @param {number} limit
+ */
+export const createRateLimiter = (limit) => {
+  /** @type {Map<string, number[]>} */
+  const hits = new Map();
+
+  setInterval(() => {
+    const cutoff = Date.now() - WINDOW_MS;
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= cutoff) hits.delete(key);
+    }
+  }, WINDOW_MS).unref();
+
+  return {
+    /**
+     * Records a request for `key` if it is allowed.
+     * @param {string} key
+     * @returns {number} 0 when allowed, otherwise the seconds until it would be.
+     */
+    take(key) {
+      const now = Date.now();
+      const times = (hits.get(key) ?? []).filter(time => time > now - WINDOW_MS);
+      hits.set(key, times);
+      if (times.length >= limit) return Math.max(1, Math.ceil((times[0] + WINDOW_MS - now) / 1000));
+      times.push(now);
+      return 0;
+    },
+  };
+};
@@ -0,0 +1,152 @@
+// @ts-check
+// A stand-in for the Gemini REST API, to run the API server and the whole app
+// locally without a key, network or quota (`npm run server:stub`). It answers
+// the three calls the server makes with canned but well-formed responses:
+//
+// - `generateContent` with a response schema: a JSON object built from the schema.
+// - `generateContent` asking for an image: the first image of the request, unchanged.
+// - `predict` (Imagen): a gradient PNG with the requested aspect ratio.
+//
+// The API key "invalid" is rejected like the real API does, to try the error path.
+
+import http from 'node:http';
+import { crc32, deflateSync } from 'node:zlib';
+
+/** Canned values for the string fields the app validates. */
+const STRINGS = {
+  detectedLanguage: 'es',
+  imagePrompt: 'Studio product photo on a warm burgundy background, soft light, no text, clean space at the top and bottom.',
+  headline: 'Producto de prueba',
+  price: '$9.990',
+  contact: 'WhatsApp +56 9 1234 5678',
+  cta: '¡Pídelo hoy!',
+  product: 'Producto de prueba',
+  category: 'Prueba',
+  altText: 'Anuncio de un producto de prueba sobre fondo burdeos, a $9.990, con pedidos por WhatsApp.',
+  visibleText: 'Producto de prueba\n$9.990\nWhatsApp +56 9 1234 5678\n¡Pídelo hoy!',
+};
+
+/**
+ * A value matching a (Gemini-style) response schema.
+ * @param {any} schema
+ * @param {string} [name]
+ * @returns {unknown}
+ */
+const sampleFor = (schema, name = '') => {
+  switch (String(schema?.type).toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, value]) => [key, sampleFor(value, key)]));
+    case 'ARRAY':
+      return name === 'hashtags' ? ['prueba', 'oferta', 'local'] : [sampleFor(schema.items, name)];
+    case 'NUMBER':
+    case 'INTEGER':
+      return 1;
+    case 'BOOLEAN':
+      return true;
+    default:
+      return STRINGS[/** @type {keyof typeof STRINGS} */ (name)] ?? `Texto de prueba (${name || 'stub'}).`;
+  }
+};
+
+/**
+ * @param {string} type
+ * @param {Buffer} data
+ */
+const pngChunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+/**
+ * A diagonal gradient PNG, 512 pixels on the longest side.
+ * @param {string} aspectRatio e.g. "16:9"
+ */
+const gradientPng = (aspectRatio) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const ratio = w > 0 && h > 0 ? w / h : 1;
+  const width = Math.round(ratio >= 1 ? 512 : 512 * ratio);
+  const height = Math.round(ratio >= 1 ? 512 / ratio : 512);
+
+  const rows = Buffer.alloc((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    for (let x = 0; x < width; x++) {
+      const t = (x / width + y / height) / 2;
+      rows[row + 1 + x * 3] = Math.round(128 + 100 * t);
+      rows[row + 2 + x * 3] = Math.round(30 + 150 * t);
+      rows[row + 3 + x * 3] = Math.round(60 - 30 * t);
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(rows)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]).toString('base64');
+};
+
+const USAGE = { promptTokenCount: 100, candidatesTokenCount: 50, totalTokenCount: 150 };
+
+/** @param {any} body */
+const generateContent = (body) => {
+  const config = body.generationConfig ?? {};
+  if (config.responseModalities?.includes('IMAGE')) {
+    const parts = (body.contents ?? []).flatMap((/** @type {any} */ content) => content.parts ?? []);
+    const image = parts.find((/** @type {any} */ part) => part.inlineData)?.inlineData;
+    if (!image) return { status: 400, body: { error: { code: 400, message: 'No image in request.', status: 'INVALID_ARGUMENT' } } };
+    return { status: 200, body: { candidates: [{ content: { role: 'model', parts: [{ inlineData: image }] }, finishReason: 'STOP' }], usageMetadata: USAGE } };
+  }
+  const schema = config.responseSchema ?? config.responseJsonSchema;
+  const text = schema ? JSON.stringify(sampleFor(schema)) : 'Respuesta de prueba.';
+  return { status: 200, body: { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }], usageMetadata: USAGE } };
+};
+
+/** @param {any} body */
+const predict = (body) => ({
+  status: 200,
+  body: { predictions: [{ bytesBase64Encoded: gradientPng(body.parameters?.aspectRatio ?? '1:1'), mimeType: 'image/png' }] },
+});
+
+const handleRequest = async (/** @type {http.IncomingMessage} */ req, /** @type {http.ServerResponse} */ res) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const send = (/** @type {number} */ status, /** @type {object} */ body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  if (req.headers['x-goog-api-key'] === 'invalid') {
+    return send(400, { error: { code: 400, message: 'API key not valid. Please pass a valid API key.', status: 'INVALID_ARGUMENT' } });
+  }
+  const action = (req.url ?? '').split('?')[0].split(':').pop();
+  let body;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+  } catch {
+    return send(400, { error: { code: 400, message: 'Invalid JSON payload.', status: 'INVALID_ARGUMENT' } });
+  }
+  const result = action === 'generateContent' ? generateContent(body) : action === 'predict' ? predict(body) : null;
+  if (!result) return send(404, { error: { code: 404, message: `Unknown method: ${req.url}`, status: 'NOT_FOUND' } });
+  console.log(`stub ${req.method} ${req.url} → ${result.status}`);
+  send(result.status, result.body);
+};
+
+/**
+ * Starts the stub on `port` and resolves with its base URL.
+ * @param {number} port
+ * @returns {Promise<string>}
+ */
+export const startStubUpstream = (port) => new Promise((resolve, reject) => {
+  const server = http.createServer(handleRequest);
+  server.on('error', reject);
+  server.listen(port, '127.0.0.1', () => resolve(`http://127.0.0.1:${port}`));
+});
@@ -0,0 +1,274 @@
+import { getProvider } from './providers';
+import type { AdProvider, ImageAnalysis, InputImage, ModelUsage, UsageReporter, VariationExample, VariationFeedback } from './providers';
+import { withRetry } from './request';
+import { toApiError } from './apiErrors';
+import { recordUsage } from './usageStore';
+import type { AdChecklist, AdFormat, BrandKit, Generation, ImageInsights, StylePreset, UsageOperation, UsageRecord } from '../types';
+import { addVersion, createAdImage, currentImageUrl } from '../utils/versionTree';
+import { blobToDataUrl, createThumbnail, dataUrlToBase64, dataUrlToBlob } from '../utils/fileUtils';
+import { EMPTY_REVIEW, isDisliked, isLiked } from '../utils/variationReview';
+import { applyOverlayText, createDefaultLayers, createDisclaimerLayer, createLogoPlacement, renderFinalImage } from '../utils/textLayers';
+import { checkDisclaimers, checkFacts, checkTextLayers, createChecklist } from '../utils/adChecks';
+import { compositeMasked, maskToModelImage } from '../utils/maskUtils';
+
+// Every provider call goes through `withRetry`, so callers get timeouts,
+// backoff and cancellation for free and only ever see `ApiError`s, and
+// through `tracked`, so every attempt lands in the usage records.
+
+/** Who a call is billed to in the usage records. */
+export type UsageContext = {
+  /** Null before there is a project, e.g. when reading the input photos. */
+  projectId: string | null;
+  brandKit: BrandKit | null;
+};
+
+const OPERATION_IMAGES: Record<UsageOperation, number> = { analyze: 0, copy: 0, image: 1, edit: 1, review: 0 };
+
+/**
+ * Runs a provider call with retries and records each attempt: the tokens the
+ * provider reports, the images produced, how long it took and how it ended.
+ */
+const tracked = <T>(
+  operation: UsageOperation,
+  { projectId, brandKit }: UsageContext,
+  call: (provider: AdProvider, signal: AbortSignal, onUsage: UsageReporter) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const provider = getProvider();
+  return withRetry(async attemptSignal => {
+    const started = Date.now();
+    const reports: ModelUsage[] = [];
+    const record = (status: UsageRecord['status']) => recordUsage({
+      id: crypto.randomUUID(),
+      time: started,
+      projectId,
+      brandKitId: brandKit?.id ?? null,
+      brandName: brandKit?.name ?? '',
+      operation,
+      model: reports[0]?.model || provider.name,
+      inputTokens: reports.reduce((sum, usage) => sum + usage.inputTokens, 0),
+      outputTokens: reports.reduce((sum, usage) => sum + usage.outputTokens, 0),
+      images: status === 'ok' ? OPERATION_IMAGES[operation] : 0,
+      latencyMs: Date.now() - started,
+      status,
+    });
+    try {
+      const result = await call(provider, attemptSignal, usage => reports.push(usage));
+      record('ok');
+      return result;
+    } catch (err) {
+      record(toApiError(err).category);
+      throw err;
+    }
+  }, { signal });
+};
+
+export type GenerateRequest = {
+  /** See `UsageContext`. */
+  projectId: string | null;
+  images: InputImage[];
+  userPrompt: string;
+  style: StylePreset;
+  formats: AdFormat[];
+  brandKit: BrandKit | null;
+  /** Output language code, see `OUTPUT_LANGUAGES`. */
+  language: string;
+  /** The user's corrections to `analyzeInputImages`, if they reviewed it. */
+  insights?: ImageInsights | null;
+  /** See `collectVariationFeedback`. */
+  feedback?: VariationFeedback | null;
+};
+
+// Each example adds an image to the copy request, so only the most telling few are sent.
+const MAX_FEEDBACK_EXAMPLES = 3;
+// Generated ads are shown to the copy model small: enough to see the composition.
+const REFERENCE_IMAGE_SIZE = 512;
+
+const referenceImage = async (generation: Generation): Promise<InputImage> => {
+  const thumbnail = await createThumbnail(await dataUrlToBlob(currentImageUrl(generation.images[0])), REFERENCE_IMAGE_SIZE);
+  return dataUrlToBase64(await blobToDataUrl(thumbnail));
+};
+
+const toExample = async (generation: Generation): Promise<VariationExample> => ({
+  headline: generation.images[0].layers.find(layer => layer.role === 'headline')?.text ?? '',
+  description: generation.description,
+  image: await referenceImage(generation),
+});
+
+/**
+ * Turns the user's reviews into guidance for the next generation: the
+ * best-rated liked variations and the most recently rejected ones.
+ * Returns null when nothing has been judged yet.
+ */
+export const collectVariationFeedback = async (generations: Generation[]): Promise<VariationFeedback | null> => {
+  const liked = generations.filter(isLiked)
+    .sort((a, b) => Number(b.review.finalPick) - Number(a.review.finalPick) || b.review.rating - a.review.rating)
+    .slice(0, MAX_FEEDBACK_EXAMPLES);
+  const disliked = generations.filter(isDisliked).slice(-MAX_FEEDBACK_EXAMPLES);
+  if (liked.length === 0 && disliked.length === 0) return null;
+  return {
+    liked: await Promise.all(liked.map(toExample)),
+    disliked: await Promise.all(disliked.map(toExample)),
+  };
+};
+
+/** Reads the text, product and category in the input photos, so the user can check them before generating. */
+export const analyzeInputImages = (images: InputImage[], usage: UsageContext, signal?: AbortSignal): Promise<ImageAnalysis> =>
+  tracked('analyze', usage, (provider, s, onUsage) => provider.analyzeImages(images, s, onUsage), signal);
+
+/**
+ * Writes the copy and image prompt once, then renders that prompt in every
+ * requested format so all the images of a generation tell the same story.
+ * The ad text comes back as data and is laid out as editable layers per format,
+ * styled with the active brand kit, whose logo is placed on every image and
+ * whose legal text, if it has one, is added as a layer at the bottom.
+ */
+export const generateAdContent = async (
+  { projectId, images, userPrompt, style, formats, brandKit, language, insights, feedback }: GenerateRequest,
+  signal?: AbortSignal
+): Promise<Generation> => {
+  const usage = { projectId, brandKit };
+  const copy = await tracked('copy', usage, (provider, s, onUsage) =>
+    provider.generateCopy({ images, userPrompt, style, brandKit, language, insights, feedback }, s, onUsage), signal);
+  const adImages = await Promise.all(formats.map(async format => {
+    const imageUrl = await tracked('image', usage, (provider, s, onUsage) => provider.generateImage(copy.imagePrompt, format, s, onUsage), signal);
+    return {
+      ...createAdImage(format, imageUrl, [
+        ...createDefaultLayers(copy.overlayText, format, brandKit, style),
+        ...(brandKit?.disclaimer.trim() ? [createDisclaimerLayer(brandKit.disclaimer.trim(), format, brandKit, style)] : []),
+      ]),
+      logo: brandKit?.logoUrl ? createLogoPlacement(brandKit.logoUrl, format) : null,
+    };
+  }));
+  return {
+    id: crypto.randomUUID(),
+    images: adImages,
+    imagePrompt: copy.imagePrompt,
+    overlayText: copy.overlayText,
+    description: copy.description,
+    platformCopy: copy.platformCopy,
+    hashtags: copy.hashtags,
+    detectedLanguage: copy.detectedLanguage,
+    language,
+    review: EMPTY_REVIEW,
+    checklist: null,
+  };
+};
+
+/**
+ * Renders `prompt` again in every format of a generation, each as a new
+ * version of its image, so the previous picture stays in the history. The
+ * copy, text layers and logo are kept.
+ */
+export const regenerateImages = async (
+  generation: Generation,
+  prompt: string,
+  usage: UsageContext,
+  signal?: AbortSignal
+): Promise<Generation> => {
+  const images = await Promise.all(generation.images.map(async image => {
+    const imageUrl = await tracked('image', usage, (provider, s, onUsage) => provider.generateImage(prompt, image.format, s, onUsage), signal);
+    return addVersion(image, imageUrl, 'Imagen regenerada desde el prompt');
+  }));
+  return { ...generation, images, imagePrompt: prompt };
+};
+
+export type CopyRegenerationRequest = Omit<GenerateRequest, 'formats' | 'feedback'>;
+
+/**
+ * Writes new copy for a generation whose images are kept: the model sees the
+ * current ad next to the input photos, and the new ad text replaces the text
+ * of the layers without moving them. The image prompt is left as it was.
+ */
+export const regenerateCopy = async (
+  generation: Generation,
+  { projectId, images, userPrompt, style, brandKit, language, insights }: CopyRegenerationRequest,
+  signal?: AbortSignal
+): Promise<Generation> => {
+  const currentImage = await referenceImage(generation);
+  const copy = await tracked('copy', { projectId, brandKit }, (provider, s, onUsage) =>
+    provider.generateCopy({ images, userPrompt, style, brandKit, language, insights, currentImage }, s, onUsage), signal);
+  return {
+    ...generation,
+    images: generation.images.map(image => applyOverlayText(image, copy.overlayText, brandKit, style)),
+    overlayText: copy.overlayText,
+    description: copy.description,
+    platformCopy: copy.platformCopy,
+    hashtags: copy.hashtags,
+    detectedLanguage: copy.detectedLanguage,
+    language,
+  };
+};
+
+export const editAdImage = async (
+  base64Image: string,
+  mimeType: string,
+  editPrompt: string,
+  usage: UsageContext,
+  signal?: AbortSignal
+): Promise<string> => {
+  return tracked('edit', usage, (provider, s, onUsage) => provider.editImage({ base64: base64Image, mimeType }, editPrompt, undefined, s, onUsage), signal);
+};
+
+/**
+ * Edits only the masked region of an image: the model sees the mask as a
+ * hint, and its output is composited back so everything outside the mask
+ * keeps the original pixels.
+ */
+export const editAdImageRegion = async (
+  imageUrl: string,
+  maskDataUrl: string,
+  editPrompt: string,
+  usage: UsageContext,
+  signal?: AbortSignal
+): Promise<string> => {
+  const modelMask = dataUrlToBase64(await maskToModelImage(maskDataUrl));
+  const edited = await tracked('edit', usage, (provider, s, onUsage) =>
+    provider.editImage(dataUrlToBase64(imageUrl), editPrompt, modelMask, s, onUsage), signal);
+  return compositeMasked(imageUrl, edited, maskDataUrl);
+};
+
+// The finished ads are read at this size: enough for the fine print.
+const REVIEW_IMAGE_SIZE = 1024;
+
+export type ReviewContext = {
+  /** What the user asked for; its prices, phone numbers and offer must show in the ad. */
+  userPrompt: string;
+  brandKit: BrandKit | null;
+};
+
+/**
+ * Reviews a finished ad: the model reads every format as published and
+ * describes it for the alt text, and what it read is checked against the
+ * facts the user gave and the disclaimers the ad needs. Contrast and
+ * legibility are measured from the pixels meanwhile.
+ */
+export const reviewGeneration = async (
+  generation: Generation,
+  { userPrompt, brandKit }: ReviewContext,
+  usage: UsageContext,
+  signal?: AbortSignal
+): Promise<AdChecklist> => {
+  const rendered = await Promise.all(generation.images.map(async image => {
+    const blob = await dataUrlToBlob(await renderFinalImage(image, 'image/jpeg'));
+    return dataUrlToBase64(await blobToDataUrl(await createThumbnail(blob, REVIEW_IMAGE_SIZE)));
+  }));
+  const [reading, layerChecks] = await Promise.all([
+    tracked('review', usage, (provider, s, onUsage) => provider.readAd(rendered, s, onUsage), signal),
+    checkTextLayers(generation.images),
+  ]);
+  const visible = generation.images.map((image, i) => ({ format: image.format, visibleText: reading.visibleText[i] }));
+  const allVisible = reading.visibleText.join('\n');
+  const copyText = [generation.description, ...Object.values(generation.platformCopy)].join('\n');
+  const adText = [
+    ...generation.images.flatMap(image => image.layers.map(layer => layer.text)),
+    generation.description,
+    allVisible,
+  ].join('\n');
+  const expected = [userPrompt, generation.overlayText.price, generation.overlayText.contact].join('\n');
+  return createChecklist(generation, reading.altText, [
+    ...layerChecks,
+    ...checkFacts(expected, visible),
+    ...checkDisclaimers(adText, allVisible, copyText, brandKit),
+  ], generation.checklist);
+};
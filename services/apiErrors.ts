@@ -0,0 +1,124 @@
+import { InvalidModelResponseError } from './providers/adCopyValidation';
+import { ApiServerError } from './providers/geminiApi';
+import { ImageRejectedError } from '../utils/imagePreprocess';
+
+export type ApiErrorCategory =
+  | 'quota'
+  | 'rate_limited'
+  | 'server'
+  | 'safety'
+  | 'invalid_key'
+  | 'network'
+  | 'bad_image'
+  | 'timeout'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'unknown';
+
+const MESSAGES: Record<ApiErrorCategory, { message: string; suggestion: string }> = {
+  quota: {
+    message: 'Se alcanzó el límite de uso de la API.',
+    suggestion: 'Espera unos minutos o revisa la cuota y la facturación de tu clave en Google AI Studio.',
+  },
+  rate_limited: {
+    message: 'Se enviaron demasiadas solicitudes seguidas al servidor de la app.',
+    suggestion: 'Espera un minuto y vuelve a intentarlo; si se repite, pide a quien administra el servidor que suba RATE_LIMIT_PER_MINUTE.',
+  },
+  server: {
+    message: 'El servicio de IA tuvo un error interno.',
+    suggestion: 'Espera un momento y vuelve a intentarlo.',
+  },
+  safety: {
+    message: 'La IA bloqueó la solicitud por sus filtros de seguridad.',
+    suggestion: 'Reformula el texto o usa otras fotos, evitando contenido que pueda considerarse sensible.',
+  },
+  invalid_key: {
+    message: 'La clave de API no es válida o no está configurada.',
+    suggestion: 'Revisa GEMINI_API_KEY en .env.local y reinicia el servidor de la API (npm run server).',
+  },
+  network: {
+    message: 'No se pudo conectar con el servicio de IA.',
+    suggestion: 'Comprueba tu conexión a internet y que el servidor de la API esté en marcha (npm run server), y vuelve a intentarlo.',
+  },
+  bad_image: {
+    message: 'Una de las imágenes no se pudo procesar.',
+    suggestion: 'Prueba con otra foto en JPG o PNG, o con una de menor tamaño.',
+  },
+  timeout: {
+    message: 'La IA tardó demasiado en responder.',
+    suggestion: 'Vuelve a intentarlo; si se repite, usa menos imágenes o menos formatos a la vez.',
+  },
+  invalid_response: {
+    message: 'La IA devolvió una respuesta con formato inválido.',
+    suggestion: 'Vuelve a intentarlo; suele resolverse en el siguiente intento.',
+  },
+  cancelled: {
+    message: 'Operación cancelada.',
+    suggestion: '',
+  },
+  unknown: {
+    message: 'Ocurrió un error desconocido.',
+    suggestion: 'Vuelve a intentarlo.',
+  },
+};
+
+const RETRYABLE: ApiErrorCategory[] = ['quota', 'rate_limited', 'server', 'network', 'timeout'];
+
+/** An error from a model call, categorised with a user-facing message and next step. */
+export class ApiError extends Error {
+  readonly suggestion: string;
+  readonly retryable: boolean;
+
+  constructor(
+    public readonly category: ApiErrorCategory,
+    message?: string,
+    public readonly status?: number,
+    /** How long the server asked to wait before trying again. */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message ?? MESSAGES[category].message);
+    this.name = 'ApiError';
+    this.suggestion = MESSAGES[category].suggestion;
+    this.retryable = RETRYABLE.includes(category);
+  }
+}
+
+const categoryFromStatus = (status: number): ApiErrorCategory | null => {
+  if (status === 429) return 'quota';
+  if (status === 401 || status === 403) return 'invalid_key';
+  if (status === 413) return 'bad_image';
+  if (status >= 500) return 'server';
+  return null;
+};
+
+/** Maps anything thrown by a provider (SDK errors, fetch failures, our own errors) to an `ApiError`. */
+export const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err;
+  if (err instanceof InvalidModelResponseError) return new ApiError('invalid_response', err.message);
+  if (err instanceof ImageRejectedError) return new ApiError('bad_image', `La imagen ${err.fileName} no se pudo usar: ${err.message}.`);
+  if (err instanceof DOMException && err.name === 'AbortError') return new ApiError('cancelled');
+  if (err instanceof DOMException && err.name === 'TimeoutError') return new ApiError('timeout');
+
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+
+  // The API server's own rate limiter, not the Gemini quota.
+  if (err instanceof ApiServerError && err.code === 'rate_limited') {
+    return new ApiError('rate_limited', undefined, status, err.retryAfterMs);
+  }
+
+  if (/api[_ ]?key/i.test(message) && /(not valid|invalid|no está configurada|missing)/i.test(message)) {
+    return new ApiError('invalid_key', undefined, status);
+  }
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new ApiError('quota', undefined, status);
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(message)) return new ApiError('safety', undefined, status);
+  if (/(unable to process input image|invalid image|image.*(too large|unsupported))/i.test(message)) {
+    return new ApiError('bad_image', undefined, status);
+  }
+  if (status !== undefined) {
+    const category = categoryFromStatus(status);
+    if (category) return new ApiError(category, undefined, status);
+  }
+  if (err instanceof TypeError && /fetch|network/i.test(message)) return new ApiError('network');
+  return new ApiError('unknown', message || undefined, status);
+};
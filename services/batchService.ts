@@ -0,0 +1,137 @@
+import { generateAdContent, reviewGeneration } from './adService';
+import { toApiError } from './apiErrors';
+import { loadProject, saveProject } from './projectStore';
+import type { AdFormat, BrandKit, Generation, StylePreset } from '../types';
+import { type CatalogRow, catalogRowPrompt, imageKey } from '../utils/catalog';
+import { dataUrlToBlob, fileToBase64, imageExtension, slugify } from '../utils/fileUtils';
+import { formatSlug } from '../utils/adFormats';
+import { renderFinalImage } from '../utils/textLayers';
+import { createZip, type ZipEntry } from '../utils/zip';
+import { preprocessImage } from '../utils/imagePreprocess';
+import { csvCell } from '../utils/text';
+
+/** A catalog row together with the uploaded photos its file names refer to. */
+export type BatchItem = {
+  row: CatalogRow;
+  files: File[];
+  /** File names listed in the row that were not among the uploaded photos. */
+  missing: string[];
+};
+
+export type BatchSettings = {
+  style: StylePreset;
+  formats: AdFormat[];
+  brandKit: BrandKit | null;
+  language: string;
+  /** History folder the projects of the batch are filed under. */
+  folder: string;
+};
+
+export type BatchResult = {
+  projectId: string;
+  generation: Generation;
+};
+
+export const matchCatalogImages = (rows: CatalogRow[], files: File[]): BatchItem[] => {
+  const byName = new Map(files.map(file => [imageKey(file.name), file]));
+  return rows.map(row => {
+    const files = row.images.map(name => byName.get(imageKey(name)));
+    return {
+      row,
+      files: files.filter((file): file is File => !!file),
+      missing: row.images.filter((_, i) => !files[i]),
+    };
+  });
+};
+
+/**
+ * Runs the accessibility and compliance review of a catalog ad. A review that
+ * fails leaves the ad unreviewed rather than failing a row whose ad is
+ * already paid for; it can be reviewed again from the batch.
+ */
+const reviewCatalogAd = async (generation: Generation, row: CatalogRow, projectId: string, brandKit: BrandKit | null, signal: AbortSignal): Promise<Generation> => {
+  try {
+    const checklist = await reviewGeneration(generation, { userPrompt: catalogRowPrompt(row), brandKit }, { projectId, brandKit }, signal);
+    return { ...generation, checklist };
+  } catch (err) {
+    if (toApiError(err).category === 'cancelled') throw err;
+    console.error(`No se pudo revisar el anuncio de ${row.name}:`, err);
+    return generation;
+  }
+};
+
+/** Generates and reviews the ad for one catalog row and saves it as its own project in the history. */
+export const generateCatalogItem = async (
+  { row, files }: BatchItem,
+  { style, formats, brandKit, language, folder }: BatchSettings,
+  signal: AbortSignal
+): Promise<BatchResult> => {
+  const prompt = catalogRowPrompt(row);
+  // Same pipeline as a single upload, so batch payloads and saved inputs stay small too.
+  const photos: File[] = [];
+  for (const file of files) photos.push(await preprocessImage(file));
+  const projectId = new Date().toISOString() + '-' + crypto.randomUUID().slice(0, 8);
+  const generated = await generateAdContent({
+    projectId,
+    images: await Promise.all(photos.map(fileToBase64)),
+    userPrompt: prompt,
+    style,
+    formats,
+    brandKit,
+    language,
+  }, signal);
+  const generation = await reviewCatalogAd(generated, row, projectId, brandKit, signal);
+  await saveProject({
+    id: projectId,
+    generations: [generation],
+    createdAt: Date.now(),
+    inputs: { images: photos, prompt, style: style.name, formats, brandKitId: brandKit?.id ?? null, language },
+    tags: [],
+    folder,
+  });
+  return { projectId, generation };
+};
+
+/** Reviews the ad of a finished row again, e.g. after it changed, and saves the result to its project. */
+export const reviewCatalogItem = async (
+  row: CatalogRow,
+  projectId: string,
+  generation: Generation,
+  brandKit: BrandKit | null,
+  signal: AbortSignal
+): Promise<Generation> => {
+  const checklist = await reviewGeneration(generation, { userPrompt: catalogRowPrompt(row), brandKit }, { projectId, brandKit }, signal);
+  const reviewed = { ...generation, checklist };
+  await updateCatalogItem(projectId, reviewed);
+  return reviewed;
+};
+
+/** Saves a changed ad of a finished row to its project, if the project is still in the history. */
+export const updateCatalogItem = async (projectId: string, generation: Generation): Promise<void> => {
+  const project = await loadProject(projectId);
+  if (project) await saveProject({ ...project, generations: [generation] });
+};
+
+/**
+ * Zips every finished row: one folder per product with the final image of
+ * each format (text layers and logo included) and its description, plus a
+ * summary CSV to hand back to the client.
+ */
+export const exportBatchZip = async (items: { row: CatalogRow; generation: Generation }[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const summary = [['carpeta', 'nombre', 'precio', 'descripcion', 'hashtags'].join(',')];
+
+  for (const [index, { row, generation }] of items.entries()) {
+    const folder = `${String(index + 1).padStart(3, '0')}-${slugify(row.name) || 'producto'}`;
+    for (const image of generation.images) {
+      const blob = await dataUrlToBlob(await renderFinalImage(image));
+      entries.push({ name: `${folder}/${formatSlug(image.format)}.${imageExtension(blob.type)}`, data: blob });
+    }
+    const hashtags = generation.hashtags.map(tag => `#${tag}`).join(' ');
+    entries.push({ name: `${folder}/descripcion.txt`, data: [generation.description, hashtags].filter(Boolean).join('\n\n') });
+    summary.push([folder, row.name, row.price, generation.description, hashtags].map(csvCell).join(','));
+  }
+
+  entries.push({ name: 'catalogo.csv', data: '\uFEFF' + summary.join('\n') });
+  return createZip(entries);
+};
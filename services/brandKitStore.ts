@@ -0,0 +1,83 @@
+import { BRAND_KITS_STORE, getAll, putOne, deleteOne } from './db';
+import type { BrandKit } from '../types';
+
+const ACTIVE_KIT_KEY = 'activeBrandKitId';
+const EXPORT_VERSION = 1;
+
+export const createEmptyBrandKit = (): BrandKit => ({
+  id: crypto.randomUUID(),
+  name: 'Nueva marca',
+  logoUrl: null,
+  palette: ['#490F1F', '#C2A05A', '#E3D0B1'],
+  headingFont: 'Montserrat',
+  bodyFont: 'Montserrat',
+  tagline: '',
+  phone: '',
+  whatsapp: '',
+  address: '',
+  tone: '',
+  disclaimer: '',
+});
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await getAll<BrandKit>(BRAND_KITS_STORE);
+  // Kits saved before the disclaimer existed have none.
+  return kits.map(kit => ({ ...kit, disclaimer: kit.disclaimer ?? '' })).sort((a, b) => a.name.localeCompare(b.name, 'es'));
+};
+
+export const saveBrandKit = (kit: BrandKit): Promise<void> => putOne(BRAND_KITS_STORE, kit);
+
+export const deleteBrandKit = (id: string): Promise<void> => deleteOne(BRAND_KITS_STORE, id);
+
+export const getActiveBrandKitId = (): string | null => localStorage.getItem(ACTIVE_KIT_KEY);
+
+export const setActiveBrandKitId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_KIT_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KIT_KEY);
+  }
+};
+
+export const exportBrandKit = (kit: BrandKit): string =>
+  JSON.stringify({ type: 'kp-fly-brand-kit', version: EXPORT_VERSION, kit }, null, 2);
+
+/**
+ * Parses a file written by `exportBrandKit`. The kit gets a fresh id so
+ * importing the same file twice, or a colleague's copy, never overwrites
+ * an existing kit.
+ */
+export const parseBrandKitImport = (json: string): BrandKit => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  if (data?.type !== 'kp-fly-brand-kit' || typeof data.kit !== 'object') {
+    throw new Error("El archivo no es un kit de marca exportado desde esta app.");
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error("El kit de marca fue exportado con una versión más nueva de la app.");
+  }
+
+  const defaults = createEmptyBrandKit();
+  const kit = data.kit;
+  const text = (value: unknown, fallback: string) => typeof value === 'string' ? value : fallback;
+  return {
+    id: defaults.id,
+    name: text(kit.name, defaults.name),
+    logoUrl: typeof kit.logoUrl === 'string' && kit.logoUrl.startsWith('data:image/') ? kit.logoUrl : null,
+    palette: Array.isArray(kit.palette)
+      ? kit.palette.filter((c: unknown) => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c))
+      : defaults.palette,
+    headingFont: text(kit.headingFont, defaults.headingFont),
+    bodyFont: text(kit.bodyFont, defaults.bodyFont),
+    tagline: text(kit.tagline, ''),
+    phone: text(kit.phone, ''),
+    whatsapp: text(kit.whatsapp, ''),
+    address: text(kit.address, ''),
+    tone: text(kit.tone, ''),
+    disclaimer: text(kit.disclaimer, ''),
+  };
+};
@@ -0,0 +1,93 @@
+
+const DB_NAME = 'kp-fly';
+const DB_VERSION = 5;
+
+export const PROJECTS_STORE = 'projects';
+export const BRAND_KITS_STORE = 'brandKits';
+export const STYLE_PRESETS_STORE = 'stylePresets';
+export const USAGE_STORE = 'usage';
+export const DRAFTS_STORE = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(BRAND_KITS_STORE)) {
+    db.createObjectStore(BRAND_KITS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STYLE_PRESETS_STORE)) {
+    db.createObjectStore(STYLE_PRESETS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(USAGE_STORE)) {
+    db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+    db.createObjectStore(DRAFTS_STORE, { keyPath: 'id' });
+  }
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Este navegador no soporta IndexedDB."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` inside a single transaction and resolves once the transaction
+ * has committed, so callers only see success when the data is really on disk.
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = work(tx.objectStore(storeName));
+    let result: T | undefined;
+    if (request) {
+      requestToPromise(request).then(value => { result = value; }, () => {});
+    }
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAll = async <T>(storeName: string): Promise<T[]> =>
+  (await withStore<T[]>(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>)) ?? [];
+
+export const getOne = <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> =>
+  withStore<T>(storeName, 'readonly', store => store.get(key) as IDBRequest<T>);
+
+export const putOne = async (storeName: string, value: unknown): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const deleteOne = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
@@ -0,0 +1,19 @@
+import { DRAFTS_STORE, getOne, putOne, deleteOne } from './db';
+import type { SessionDraft } from '../types';
+
+// There is one session at a time, so there is one draft.
+const DRAFT_ID = 'current';
+
+type StoredDraft = SessionDraft & { id: string };
+
+/** Input files are stored as-is, like the inputs of a project. */
+export const saveDraft = (draft: SessionDraft): Promise<void> => putOne(DRAFTS_STORE, { ...draft, id: DRAFT_ID });
+
+export const loadDraft = async (): Promise<SessionDraft | null> => {
+  const stored = await getOne<StoredDraft>(DRAFTS_STORE, DRAFT_ID);
+  if (!stored) return null;
+  const { id: _id, ...draft } = stored;
+  return draft;
+};
+
+export const clearDraft = (): Promise<void> => deleteOne(DRAFTS_STORE, DRAFT_ID);
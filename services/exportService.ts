@@ -0,0 +1,120 @@
+import type { AdImage, Generation, TextLayerRole } from '../types';
+import { formatSlug, getFormatInfo } from '../utils/adFormats';
+import { canvasToBlob, dataUrlToBlob, imageExtension } from '../utils/fileUtils';
+import { PLATFORMS } from '../utils/platforms';
+import { drawLayers, renderFinalImage } from '../utils/textLayers';
+import { currentImageUrl } from '../utils/versionTree';
+import { createZip, type ZipEntry } from '../utils/zip';
+import { POINTS_PER_MM, createPdf, measureText, type PdfBox, type PdfItem, type PdfPage, wrapText } from '../utils/pdf';
+import {
+  type PrintSettings, type SheetLayout, SAFE_MARGIN_MM, cropMarkLines, fitBox, flyerLayout, insetBox, pixelsFor, sheetLayout, upscaleToCanvas
+} from '../utils/print';
+
+/**
+ * Zips the given variations ready to publish: one folder per variation (the
+ * final pick first and marked as such) with the final image of each format
+ * and a text file with the copy for every platform and the alt text.
+ */
+export const exportVariationsZip = async (generations: Generation[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const ordered = [...generations].sort((a, b) => Number(b.review.finalPick) - Number(a.review.finalPick));
+
+  for (const [index, generation] of ordered.entries()) {
+    const folder = `${String(index + 1).padStart(2, '0')}-${generation.review.finalPick ? 'elegida' : 'preseleccionada'}`;
+    for (const image of generation.images) {
+      const blob = await dataUrlToBlob(await renderFinalImage(image));
+      entries.push({ name: `${folder}/${formatSlug(image.format)}.${imageExtension(blob.type)}`, data: blob });
+    }
+    const hashtags = generation.hashtags.map(tag => `#${tag}`).join(' ');
+    const copy = [
+      generation.description,
+      ...PLATFORMS.filter(p => generation.platformCopy[p.id]).map(p => `${p.label}:\n${generation.platformCopy[p.id]}`),
+      hashtags,
+      generation.checklist?.altText && `Texto alternativo:\n${generation.checklist.altText}`,
+    ];
+    entries.push({ name: `${folder}/textos.txt`, data: copy.filter(Boolean).join('\n\n') });
+  }
+  return createZip(entries);
+};
+
+/**
+ * Renders an ad image big enough to print `box` at the given DPI: the
+ * generated image is upscaled first and the text layers drawn afterwards, so
+ * the text stays sharp whatever the enlargement. The canvas is encoded once,
+ * as the JPEG the PDF embeds.
+ */
+const renderForPrint = async (image: AdImage, box: PdfBox, dpi: number): Promise<Blob> => {
+  const canvas = await upscaleToCanvas(currentImageUrl(image), pixelsFor(box, dpi).width);
+  try {
+    await drawLayers(canvas, image.layers, image.logo);
+    return await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  } finally {
+    canvas.width = canvas.height = 0;
+  }
+};
+
+const pageBoxes = (layout: SheetLayout): Pick<PdfPage, 'width' | 'height' | 'trimBox' | 'bleedBox'> =>
+  ({ width: layout.width, height: layout.height, trimBox: layout.trim, bleedBox: layout.bleed });
+
+/** A one-page print-ready PDF of an ad image, oriented to match it. */
+export const exportFlyerPdf = async (image: AdImage, settings: PrintSettings): Promise<Blob> => {
+  const { width, height } = getFormatInfo(image.format);
+  const { layout, box } = flyerLayout(width / height, settings);
+  const items: PdfItem[] = [
+    { type: 'image', jpeg: await renderForPrint(image, box, settings.dpi), box, clip: settings.fit === 'cover' ? layout.bleed : undefined },
+    ...(settings.cropMarks ? cropMarkLines(layout, settings.bleedMm) : []),
+  ];
+  return createPdf([{ ...pageBoxes(layout), items }]);
+};
+
+// Share of a catalog page's printable height taken by the image; the copy goes below it.
+const CATALOG_IMAGE_SHARE = 0.6;
+const LINE_SPACING = 1.3;
+
+const layerText = (image: AdImage, role: TextLayerRole) => image.layers.find(layer => layer.role === role)?.text.trim() ?? '';
+
+/**
+ * A portrait PDF with one page per generation: its first image, then the
+ * headline, price, contact and social copy. Copy that does not fit the page
+ * is cut with an ellipsis.
+ */
+export const exportCatalogPdf = async (generations: Generation[], settings: PrintSettings): Promise<Blob> => {
+  const layout = sheetLayout(settings, false);
+  const area = insetBox(layout.trim, SAFE_MARGIN_MM * POINTS_PER_MM);
+  const bottom = area.y + area.height;
+  const pages: PdfPage[] = [];
+
+  for (const [index, generation] of generations.entries()) {
+    const image = generation.images[0];
+    const { width, height } = getFormatInfo(image.format);
+    const box = fitBox(width / height, { ...area, height: area.height * CATALOG_IMAGE_SHARE }, 'contain');
+    const items: PdfItem[] = [{ type: 'image', jpeg: await renderForPrint(image, box, settings.dpi), box }];
+
+    let y = area.y + area.height * CATALOG_IMAGE_SHARE + 12;
+    const hashtags = generation.hashtags.map(tag => `#${tag}`).join(' ');
+    const blocks = [
+      { text: layerText(image, 'headline'), size: 18, bold: true },
+      { text: layerText(image, 'price'), size: 14, bold: true },
+      { text: generation.description, size: 11, bold: false },
+      { text: layerText(image, 'contact'), size: 10, bold: false },
+      { text: hashtags, size: 9, bold: false },
+    ].filter(block => block.text);
+    copy: for (const { text, size, bold } of blocks) {
+      const lines = wrapText(text, size, area.width, bold);
+      for (const [n, line] of lines.entries()) {
+        const next = y + size * LINE_SPACING;
+        if (next > bottom) break copy;
+        const isLastFitting = next + size * LINE_SPACING > bottom && n < lines.length - 1;
+        items.push({ type: 'text', text: isLastFitting ? `${line}…` : line, x: area.x, y: next - size * (LINE_SPACING - 1), size, bold });
+        y = next;
+      }
+      y += 6;
+    }
+
+    const pageLabel = `${index + 1} / ${generations.length}`;
+    items.push({ type: 'text', text: pageLabel, x: area.x + area.width - measureText(pageLabel, 8), y: bottom + SAFE_MARGIN_MM * POINTS_PER_MM / 2, size: 8 });
+    if (settings.cropMarks) items.push(...cropMarkLines(layout, settings.bleedMm));
+    pages.push({ ...pageBoxes(layout), items });
+  }
+  return createPdf(pages);
+};
@@ -0,0 +1,97 @@
+import { toApiError } from './apiErrors';
+
+export type JobStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type Job<T, R> = {
+  id: string;
+  input: T;
+  status: JobStatus;
+  attempts: number;
+  result: R | null;
+  error: string | null;
+};
+
+export type JobQueue<T, R> = {
+  getJobs: () => Job<T, R>[];
+  start: () => void;
+  /** Stops picking up new jobs; the ones already running are allowed to finish. */
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  /** Puts a failed or cancelled job back in line. */
+  retry: (id: string) => void;
+  /** Aborts running jobs and cancels the ones still waiting. */
+  cancel: () => void;
+};
+
+/**
+ * Runs `worker` over `inputs` with at most `concurrency` jobs in flight.
+ * Transient errors are already retried inside each model call; a job that
+ * still fails is marked `failed` with its message and can be retried by hand.
+ * `onChange` receives a new array on every status change, ready for React state.
+ */
+export const createJobQueue = <T, R>(
+  inputs: T[],
+  worker: (input: T, signal: AbortSignal) => Promise<R>,
+  { concurrency = 2, onChange }: { concurrency?: number; onChange: (jobs: Job<T, R>[]) => void }
+): JobQueue<T, R> => {
+  let jobs: Job<T, R>[] = inputs.map(input => ({
+    id: crypto.randomUUID(), input, status: 'pending', attempts: 0, result: null, error: null,
+  }));
+  let paused = true;
+  let running = 0;
+  const controllers = new Map<string, AbortController>();
+
+  const update = (id: string, changes: Partial<Job<T, R>>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    onChange(jobs);
+  };
+
+  const run = async (job: Job<T, R>) => {
+    running++;
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    update(job.id, { status: 'running', attempts: job.attempts + 1, error: null });
+    try {
+      const result = await worker(job.input, controller.signal);
+      update(job.id, { status: 'done', result });
+    } catch (err) {
+      const apiError = toApiError(err);
+      update(job.id, apiError.category === 'cancelled'
+        ? { status: 'cancelled' }
+        : { status: 'failed', error: [apiError.message, apiError.suggestion].filter(Boolean).join(' ') });
+    } finally {
+      running--;
+      controllers.delete(job.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (!paused && running < concurrency) {
+      const next = jobs.find(job => job.status === 'pending');
+      if (!next) return;
+      run(next);
+    }
+  };
+
+  return {
+    getJobs: () => jobs,
+    start: () => { paused = false; pump(); },
+    pause: () => { paused = true; },
+    resume: () => { paused = false; pump(); },
+    isPaused: () => paused,
+    retry: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(id, { status: 'pending', error: null });
+      pump();
+    },
+    cancel: () => {
+      paused = true;
+      controllers.forEach(controller => controller.abort());
+      jobs = jobs.map(job => job.status === 'pending' ? { ...job, status: 'cancelled' } : job);
+      onChange(jobs);
+    },
+  };
+};
@@ -0,0 +1,258 @@
+import { loadProject, saveProject } from './projectStore';
+import type { AdCheck, AdChecklist, AdFormat, Generation, LogoPlacement, ProjectInputs, SavedProject, TextLayer } from '../types';
+import { AD_FORMATS, formatSlug } from '../utils/adFormats';
+import { blobToDataUrl, imageExtension, slugify } from '../utils/fileUtils';
+import { createZip, readZip, type ZipEntry } from '../utils/zip';
+import { DEFAULT_OUTPUT_LANGUAGE } from '../utils/languages';
+import { AUTO_STYLE_NAME } from './stylePresetStore';
+import { PLATFORMS } from '../utils/platforms';
+import { EMPTY_REVIEW } from '../utils/variationReview';
+import { overlayTextFromLayers } from '../utils/textLayers';
+
+const BUNDLE_TYPE = 'kp-fly-projects';
+// 1: without inputs, tags or folder, and with a display `timestamp` instead of `createdAt`.
+// 2: without per-platform copy or output language.
+// 3: without variation reviews.
+// 4: without the image prompt and overlay text of each generation.
+// 5: without the accessibility and compliance checklist.
+const BUNDLE_VERSION = 6;
+const MANIFEST_PATH = 'manifest.json';
+
+// The manifest mirrors `SavedProject`, with every image replaced by the path
+// of its file inside the zip so the bundle stays readable without the app.
+type ManifestVersion = {
+  id: string;
+  parentId: string | null;
+  prompt: string | null;
+  createdAt: number;
+  file: string;
+};
+
+type ManifestImage = {
+  format: AdFormat;
+  currentVersionId: string;
+  versions: ManifestVersion[];
+  layers: TextLayer[];
+  logo: LogoPlacement | null;
+};
+
+type ManifestProject = Omit<SavedProject, 'generations' | 'inputs'> & {
+  generations: (Omit<Generation, 'images'> & { images: ManifestImage[] })[];
+  inputs: (Omit<ProjectInputs, 'images'> & { files: string[] }) | null;
+};
+
+type Manifest = {
+  type: typeof BUNDLE_TYPE;
+  version: number;
+  exportedAt: string;
+  projects: ManifestProject[];
+};
+
+export type BundleImportResult = {
+  imported: number;
+  /** Projects whose id already existed here and were imported under a new one. */
+  renamed: number;
+};
+
+const MIME_TYPES: Record<string, string> = { jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+
+/**
+ * Zips the given projects with the photos they were created from, every
+ * version of every image (the generated original and each edit), a
+ * `descripcion.txt` per generation and a versioned `manifest.json` that
+ * `importProjectBundle` reads back.
+ */
+export const exportProjectBundle = async (projectIds: string[]): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const projects: ManifestProject[] = [];
+
+  for (const [index, id] of projectIds.entries()) {
+    const project = await loadProject(id);
+    if (!project) continue;
+    const folder = `proyectos/${String(index + 1).padStart(3, '0')}-${slugify(project.generations[0]?.description.slice(0, 40) ?? '') || 'proyecto'}`;
+
+    const generations = await Promise.all(project.generations.map(async (gen, genIndex) => {
+      const genFolder = `${folder}/anuncio-${genIndex + 1}`;
+      const hashtags = gen.hashtags.map(tag => `#${tag}`).join(' ');
+      entries.push({ name: `${genFolder}/descripcion.txt`, data: [gen.description, hashtags].filter(Boolean).join('\n\n') });
+
+      const images = await Promise.all(gen.images.map(async ({ versions, ...image }) => ({
+        ...image,
+        versions: await Promise.all(versions.map(async ({ imageUrl, ...version }, versionIndex) => {
+          const blob = await (await fetch(imageUrl)).blob();
+          const name = versionIndex === 0 ? 'original' : `edicion-${versionIndex}`;
+          const file = `${genFolder}/${formatSlug(image.format)}/${name}-${version.id.slice(0, 8)}.${imageExtension(blob.type)}`;
+          entries.push({ name: file, data: blob });
+          return { ...version, file };
+        })),
+      })));
+      return { ...gen, images };
+    }));
+
+    let inputs: ManifestProject['inputs'] = null;
+    if (project.inputs) {
+      const { images, ...settings } = project.inputs;
+      inputs = {
+        ...settings,
+        files: images.map((image, i) => {
+          const file = `${folder}/fotos/${i + 1}-${image.name || 'foto'}`;
+          entries.push({ name: file, data: image });
+          return file;
+        }),
+      };
+    }
+
+    projects.push({ ...project, generations, inputs });
+  }
+
+  const manifest: Manifest = { type: BUNDLE_TYPE, version: BUNDLE_VERSION, exportedAt: new Date().toISOString(), projects };
+  entries.unshift({ name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+const text = (value: unknown, fallback = '') => typeof value === 'string' ? value : fallback;
+
+/** Checks the manifest's shape so a hand-edited or truncated bundle fails before anything is written. */
+const validateManifest = (data: unknown, files: Map<string, Blob>): Manifest => {
+  if (!isObject(data) || data.type !== BUNDLE_TYPE || !Array.isArray(data.projects)) {
+    throw new Error("El archivo no es un paquete de proyectos exportado desde esta app.");
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error("El paquete fue exportado con una versión más nueva de la app.");
+  }
+  const formats = AD_FORMATS.map(f => f.id);
+  data.projects.forEach((project: unknown, p: number) => {
+    const where = `proyecto ${p + 1}`;
+    if (!isObject(project) || typeof project.id !== 'string' || !Array.isArray(project.generations) || project.generations.length === 0) {
+      throw new Error(`El paquete está dañado (${where}).`);
+    }
+    project.generations.forEach((gen: unknown) => {
+      if (!isObject(gen) || !Array.isArray(gen.images) || gen.images.length === 0) throw new Error(`El paquete está dañado (${where}).`);
+      gen.images.forEach((image: unknown) => {
+        if (!isObject(image) || !formats.includes(image.format) || !Array.isArray(image.versions) || image.versions.length === 0) {
+          throw new Error(`El paquete está dañado (${where}).`);
+        }
+        if (!image.versions.some((v: any) => v?.id === image.currentVersionId)) throw new Error(`El paquete está dañado (${where}).`);
+        image.versions.forEach((version: unknown) => {
+          if (!isObject(version) || typeof version.id !== 'string' || !files.has(version.file)) {
+            throw new Error(`Falta una imagen en el paquete (${where}: ${isObject(version) ? version.file : '?'}).`);
+          }
+        });
+      });
+    });
+    if (project.inputs != null) {
+      if (!isObject(project.inputs) || !Array.isArray(project.inputs.files)) throw new Error(`El paquete está dañado (${where}).`);
+      project.inputs.files.forEach((file: unknown) => {
+        if (typeof file !== 'string' || !files.has(file)) throw new Error(`Falta una foto original en el paquete (${where}: ${String(file)}).`);
+      });
+    }
+  });
+  return data as Manifest;
+};
+
+const CHECK_STATUSES = ['pass', 'warn', 'fail'];
+
+/** A checklist whose shape is off is dropped; the ad can simply be reviewed again. */
+const restoreChecklist = (value: unknown): AdChecklist | null => {
+  if (!isObject(value) || !Array.isArray(value.checks) || typeof value.signature !== 'string') return null;
+  const checks = value.checks.filter((check: unknown): check is AdCheck => isObject(check)
+    && typeof check.id === 'string' && typeof check.kind === 'string' && CHECK_STATUSES.includes(check.status));
+  return {
+    checkedAt: typeof value.checkedAt === 'number' ? value.checkedAt : 0,
+    signature: value.signature,
+    altText: text(value.altText),
+    checks: checks.map(check => ({ ...check, label: text(check.label), detail: text(check.detail) })),
+    acknowledged: Array.isArray(value.acknowledged) ? value.acknowledged.filter((id): id is string => typeof id === 'string') : [],
+  };
+};
+
+const typeFromPath = (path: string) => MIME_TYPES[path.split('.').pop()?.toLowerCase() ?? ''] ?? 'image/jpeg';
+
+const fileToImageUrl = async (blob: Blob, path: string) => {
+  const type = typeFromPath(path);
+  return blobToDataUrl(blob.type === type ? blob : new Blob([blob], { type }));
+};
+
+const restoreInputs = (inputs: ManifestProject['inputs'], files: Map<string, Blob>): ProjectInputs | null => {
+  if (!inputs) return null;
+  const formats = AD_FORMATS.map(f => f.id);
+  return {
+    // Drop the `<n>-` prefix added on export to keep names unique.
+    images: inputs.files.map(path => new File([files.get(path)!], path.split('/').pop()!.replace(/^\d+-/, ''), { type: typeFromPath(path) })),
+    prompt: text(inputs.prompt),
+    style: text(inputs.style, AUTO_STYLE_NAME),
+    formats: Array.isArray(inputs.formats) ? inputs.formats.filter(f => formats.includes(f)) : [],
+    brandKitId: typeof inputs.brandKitId === 'string' ? inputs.brandKitId : null,
+    language: text(inputs.language, DEFAULT_OUTPUT_LANGUAGE),
+  };
+};
+
+/**
+ * Restores the projects of a bundle into the history. A project whose id is
+ * already taken gets a fresh one, so importing never overwrites local work
+ * (importing the same bundle twice keeps both copies).
+ */
+export const importProjectBundle = async (bundle: Blob): Promise<BundleImportResult> => {
+  const files = await readZip(bundle);
+  const manifestFile = files.get(MANIFEST_PATH);
+  if (!manifestFile) throw new Error("El zip no contiene un manifest.json de proyectos.");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await manifestFile.text());
+  } catch {
+    throw new Error("El manifest.json del paquete no es un JSON válido.");
+  }
+  const manifest = validateManifest(data, files);
+
+  let renamed = 0;
+  for (const project of manifest.projects) {
+    const taken = await loadProject(project.id);
+    const id = taken ? `${new Date().toISOString()}-${crypto.randomUUID().slice(0, 8)}` : project.id;
+    if (taken) renamed++;
+
+    await saveProject({
+      id,
+      createdAt: typeof project.createdAt === 'number' ? project.createdAt : Date.now(),
+      inputs: restoreInputs(project.inputs ?? null, files),
+      tags: Array.isArray(project.tags) ? project.tags.filter((t): t is string => typeof t === 'string') : [],
+      folder: text(project.folder),
+      generations: await Promise.all(project.generations.map(async gen => ({
+        id: text(gen.id, crypto.randomUUID()),
+        imagePrompt: text(gen.imagePrompt),
+        overlayText: isObject(gen.overlayText)
+          ? { headline: text(gen.overlayText.headline), price: text(gen.overlayText.price), contact: text(gen.overlayText.contact), cta: text(gen.overlayText.cta) }
+          : overlayTextFromLayers(Array.isArray(gen.images[0]?.layers) ? gen.images[0].layers : []),
+        description: text(gen.description),
+        platformCopy: isObject(gen.platformCopy)
+          ? Object.fromEntries(PLATFORMS.filter(p => typeof gen.platformCopy[p.id] === 'string').map(p => [p.id, gen.platformCopy[p.id]]))
+          : {},
+        hashtags: Array.isArray(gen.hashtags) ? gen.hashtags.filter((t): t is string => typeof t === 'string') : [],
+        detectedLanguage: text(gen.detectedLanguage),
+        language: text(gen.language),
+        review: isObject(gen.review) ? {
+          rating: typeof gen.review.rating === 'number' ? Math.min(5, Math.max(0, Math.round(gen.review.rating))) : 0,
+          starred: gen.review.starred === true,
+          rejected: gen.review.rejected === true,
+          finalPick: gen.review.finalPick === true,
+        } : EMPTY_REVIEW,
+        checklist: restoreChecklist(gen.checklist),
+        images: await Promise.all(gen.images.map(async image => ({
+          format: image.format,
+          currentVersionId: image.currentVersionId,
+          layers: Array.isArray(image.layers) ? image.layers : [],
+          logo: isObject(image.logo) ? image.logo : null,
+          versions: await Promise.all(image.versions.map(async ({ file, ...version }) => ({
+            id: version.id,
+            parentId: version.parentId ?? null,
+            prompt: version.prompt ?? null,
+            createdAt: typeof version.createdAt === 'number' ? version.createdAt : 0,
+            imageUrl: await fileToImageUrl(files.get(file)!, file),
+          }))),
+        }))),
+      }))),
+    });
+  }
+  return { imported: manifest.projects.length, renamed };
+};
@@ -0,0 +1,282 @@
+import { PROJECTS_STORE, getAll, getOne, putOne, deleteOne, isQuotaExceeded } from './db';
+import { dataUrlToBlob, blobToDataUrl, createThumbnail } from '../utils/fileUtils';
+import type {
+  AdChecklist, AdFormat, Generation, GenerationReview, ImageVersion, LogoPlacement, OverlayText, Platform, ProjectInputs, SavedProject, ProjectSummary, StorageUsage, TextLayer
+} from '../types';
+import { DEFAULT_FORMAT } from '../utils/adFormats';
+import { createAdImage } from '../utils/versionTree';
+import { searchKey } from '../utils/text';
+import { DEFAULT_OUTPUT_LANGUAGE } from '../utils/languages';
+import { EMPTY_REVIEW } from '../utils/variationReview';
+import { overlayTextFromLayers } from '../utils/textLayers';
+
+const LEGACY_STORAGE_KEY = 'savedProjects';
+// Where an unreadable legacy value is moved, so it stops blocking the migration but is not lost.
+const LEGACY_BACKUP_KEY = 'savedProjects.unreadable';
+
+type StoredVersion = Omit<ImageVersion, 'imageUrl'> & { image: Blob };
+
+type StoredImage = {
+  format: AdFormat;
+  versions: StoredVersion[];
+  currentVersionId: string;
+  layers?: TextLayer[];
+  logo?: LogoPlacement | null;
+};
+
+type StoredGeneration = {
+  id: string;
+  images: StoredImage[];
+  description: string;
+  platformCopy?: Partial<Record<Platform, string>>;
+  hashtags?: string[];
+  detectedLanguage?: string;
+  language?: string;
+  review?: GenerationReview;
+  imagePrompt?: string;
+  overlayText?: OverlayText;
+  checklist?: AdChecklist | null;
+};
+
+// Shapes written by earlier versions: a single square image per generation,
+// then one image per format without edit history.
+type LegacyStoredGeneration =
+  | { image: Blob; description: string }
+  | { images: { format: AdFormat; image: Blob }[]; description: string };
+type LegacyGeneration = { imageUrl: string; description: string };
+
+const legacyStoredImage = (format: AdFormat, image: Blob): StoredImage => {
+  const id = crypto.randomUUID();
+  return { format, versions: [{ id, parentId: null, prompt: null, createdAt: 0, image }], currentVersionId: id, layers: [], logo: null };
+};
+
+const normalizeStoredGeneration = (gen: StoredGeneration | LegacyStoredGeneration): StoredGeneration => {
+  if ('id' in gen) return gen;
+  const images = 'images' in gen
+    ? gen.images.map(img => legacyStoredImage(img.format, img.image))
+    : [legacyStoredImage(DEFAULT_FORMAT, gen.image)];
+  return { id: crypto.randomUUID(), images, description: gen.description };
+};
+
+const normalizeGeneration = (gen: LegacyGeneration): Generation => ({
+  id: crypto.randomUUID(),
+  images: [createAdImage(DEFAULT_FORMAT, gen.imageUrl)],
+  imagePrompt: '',
+  overlayText: overlayTextFromLayers([]),
+  description: gen.description,
+  platformCopy: {},
+  hashtags: [],
+  detectedLanguage: '',
+  language: '',
+  review: EMPTY_REVIEW,
+  checklist: null,
+});
+
+type StoredProject = {
+  id: string;
+  /** Display string (`toLocaleString`) written instead of `createdAt` by earlier versions. */
+  timestamp?: string;
+  createdAt?: number;
+  updatedAt: number;
+  generations: (StoredGeneration | LegacyStoredGeneration)[];
+  thumbnail: Blob;
+  // Input files are stored as-is: IndexedDB keeps File objects, names included.
+  inputs?: ProjectInputs | null;
+  tags?: string[];
+  folder?: string;
+};
+
+/** Projects used to be keyed by their ISO creation date, which is the best we have for old records. */
+const dateFromId = (id: string, fallback: number): number =>
+  /^\d{4}-\d{2}-\d{2}T/.test(id) ? Date.parse(id) : fallback;
+
+const createdAtOf = (record: StoredProject): number => record.createdAt ?? dateFromId(record.id, record.updatedAt);
+
+/** Trims, drops empties and removes duplicates ignoring case, keeping the first spelling. */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags.map(tag => tag.trim().replace(/^#/, '')).filter(tag => {
+    const key = searchKey(tag);
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("El almacenamiento del navegador está lleno.");
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const toStoredProject = async (project: SavedProject, updatedAt: number): Promise<StoredProject> => {
+  const generations: StoredGeneration[] = await Promise.all(project.generations.map(async gen => ({
+    ...gen,
+    images: await Promise.all(gen.images.map(async img => ({
+      ...img,
+      versions: await Promise.all(img.versions.map(async ({ imageUrl, ...version }) => ({
+        ...version,
+        image: await dataUrlToBlob(imageUrl),
+      }))),
+    }))),
+  })));
+  const firstImage = generations[0].images[0];
+  const preview = firstImage.versions.find(v => v.id === firstImage.currentVersionId) ?? firstImage.versions[0];
+  return {
+    id: project.id,
+    createdAt: project.createdAt,
+    updatedAt,
+    generations,
+    thumbnail: await createThumbnail(preview.image),
+    inputs: project.inputs,
+    tags: normalizeTags(project.tags),
+    folder: project.folder.trim(),
+  };
+};
+
+const put = async (record: StoredProject) => {
+  try {
+    await putOne(PROJECTS_STORE, record);
+  } catch (e) {
+    if (isQuotaExceeded(e)) throw new StorageQuotaError();
+    throw e;
+  }
+};
+
+/**
+ * Writes a project's content. For an existing project the creation date, tags
+ * and folder already stored win: they are edited from the history while the
+ * project may be open, and autosave must not undo that. Use
+ * `updateProjectDetails` to change them.
+ */
+export const saveProject = async (project: SavedProject): Promise<void> => {
+  if (project.generations.length === 0) return;
+  const existing = await getOne<StoredProject>(PROJECTS_STORE, project.id);
+  const record = await toStoredProject(project, Date.now());
+  await put(existing
+    ? { ...record, createdAt: createdAtOf(existing), tags: existing.tags ?? [], folder: existing.folder ?? '' }
+    : record);
+};
+
+/** Changes how a project is organised without touching its content or its last-edited date. */
+export const updateProjectDetails = async (id: string, { tags, folder }: Pick<SavedProject, 'tags' | 'folder'>): Promise<void> => {
+  const record = await getOne<StoredProject>(PROJECTS_STORE, id);
+  if (!record) return;
+  await put({ ...record, tags: normalizeTags(tags), folder: folder.trim() });
+};
+
+export const loadProject = async (id: string): Promise<SavedProject | null> => {
+  const record = await getOne<StoredProject>(PROJECTS_STORE, id);
+  if (!record) return null;
+  return {
+    id: record.id,
+    createdAt: createdAtOf(record),
+    // Inputs saved before the output language could be chosen were always written in Spanish.
+    inputs: record.inputs ? { language: DEFAULT_OUTPUT_LANGUAGE, ...record.inputs } : null,
+    tags: record.tags ?? [],
+    folder: record.folder ?? '',
+    generations: await Promise.all(record.generations.map(normalizeStoredGeneration).map(async gen => ({
+      imagePrompt: '',
+      overlayText: overlayTextFromLayers(gen.images[0]?.layers ?? []),
+      platformCopy: {},
+      hashtags: [],
+      detectedLanguage: '',
+      language: '',
+      review: EMPTY_REVIEW,
+      checklist: null,
+      ...gen,
+      images: await Promise.all(gen.images.map(async img => ({
+        layers: [],
+        logo: null,
+        ...img,
+        versions: await Promise.all(img.versions.map(async ({ image, ...version }) => ({
+          ...version,
+          imageUrl: await blobToDataUrl(image),
+        }))),
+      }))),
+    }))),
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const records = await getAll<StoredProject>(PROJECTS_STORE);
+  records.sort((a, b) => b.updatedAt - a.updatedAt);
+  return Promise.all(records.map(async record => {
+    const tags = record.tags ?? [];
+    const folder = record.folder ?? '';
+    const hashtags = record.generations.flatMap(gen => 'hashtags' in gen ? gen.hashtags ?? [] : []);
+    return {
+      id: record.id,
+      createdAt: createdAtOf(record),
+      updatedAt: record.updatedAt,
+      description: record.generations[0]?.description ?? '',
+      searchText: searchKey([...record.generations.map(gen => gen.description), ...hashtags, ...tags, folder].join('\n')),
+      tags,
+      folder,
+      generationCount: record.generations.length,
+      previewImage: await blobToDataUrl(record.thumbnail),
+    };
+  }));
+};
+
+export const deleteProject = (id: string): Promise<void> => deleteOne(PROJECTS_STORE, id);
+
+/**
+ * Moves projects saved by older versions of the app (one big JSON array in
+ * localStorage) into IndexedDB. The legacy key is only removed once every
+ * project has been copied, so a failed migration is retried on next launch.
+ * A value that is not a JSON array is moved aside to `LEGACY_BACKUP_KEY`
+ * instead. Returns the number of projects migrated.
+ */
+export const migrateLegacyProjects = async (): Promise<number> => {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return 0;
+
+  let legacyProjects: { id: string; timestamp: string; generations: LegacyGeneration[] }[];
+  try {
+    legacyProjects = JSON.parse(raw);
+    if (!Array.isArray(legacyProjects)) throw new Error('no es una lista de proyectos');
+  } catch (err) {
+    console.warn('El historial anterior no se puede leer; se guarda aparte y no se migra:', err);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    try {
+      localStorage.setItem(LEGACY_BACKUP_KEY, raw);
+    } catch (backupErr) {
+      console.warn('No se pudo guardar aparte el historial anterior:', backupErr);
+    }
+    return 0;
+  }
+
+  const now = Date.now();
+  let migrated = 0;
+  for (const [index, project] of legacyProjects.entries()) {
+    if (!project?.generations?.length) continue;
+    const normalized: SavedProject = {
+      id: project.id,
+      createdAt: dateFromId(project.id, now - index),
+      generations: project.generations.map(normalizeGeneration),
+      inputs: null,
+      tags: [],
+      folder: '',
+    };
+    // The legacy array was kept newest-first.
+    await put(await toStoredProject(normalized, now - index));
+    migrated++;
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return migrated;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/** Asks the browser not to evict our data under storage pressure. */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
@@ -0,0 +1,129 @@
+import type { AdCopy, AdReading, ImageAnalysis } from './types';
+import type { Platform } from '../../types';
+import { PLATFORMS } from '../../utils/platforms';
+
+const MAX_HASHTAGS = 15;
+
+/** Thrown when a model's copy response is not valid JSON or does not match the expected shape. */
+export class InvalidModelResponseError extends Error {
+  constructor(public readonly issues: string[], public readonly rawResponse: string) {
+    super(`La IA devolvió una respuesta con formato inválido (${issues.join('; ')}). Inténtalo de nuevo.`);
+    this.name = 'InvalidModelResponseError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseRoot = (rawResponse: string): Record<string, unknown> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(rawResponse);
+  } catch {
+    throw new InvalidModelResponseError(['no es JSON válido'], rawResponse);
+  }
+  if (!isRecord(data)) {
+    throw new InvalidModelResponseError(['la raíz no es un objeto'], rawResponse);
+  }
+  return data;
+};
+
+/**
+ * Parses and checks a JSON copy response, returning a normalized `AdCopy`.
+ * Every problem found is collected so a repair prompt can list them all.
+ */
+export const parseAdCopy = (rawResponse: string): AdCopy => {
+  const data = parseRoot(rawResponse);
+
+  const issues: string[] = [];
+  const requireString = (value: unknown, path: string, { nonEmpty = false, minLength = 0 } = {}): string => {
+    if (typeof value !== 'string') {
+      issues.push(`"${path}" debe ser texto`);
+      return '';
+    }
+    const trimmed = value.trim();
+    if (nonEmpty && !trimmed) issues.push(`"${path}" está vacío`);
+    else if (trimmed.length < minLength) issues.push(`"${path}" es demasiado corto`);
+    return trimmed;
+  };
+
+  const text = isRecord(data.overlayText) ? data.overlayText : {};
+  if (!isRecord(data.overlayText)) issues.push('falta "overlayText"');
+
+  const detectedLanguage = requireString(data.detectedLanguage, 'detectedLanguage', { nonEmpty: true }).toLowerCase();
+  if (detectedLanguage && !/^[a-z]{2}$/.test(detectedLanguage)) {
+    issues.push('"detectedLanguage" debe ser un código ISO 639-1 de dos letras');
+  }
+
+  const platforms = isRecord(data.platformCopy) ? data.platformCopy : {};
+  if (!isRecord(data.platformCopy)) issues.push('falta "platformCopy"');
+  const platformCopy = Object.fromEntries(PLATFORMS.map(({ id }) =>
+    [id, requireString(platforms[id], `platformCopy.${id}`, { nonEmpty: true })])) as Record<Platform, string>;
+
+  let hashtags: string[] = [];
+  if (!Array.isArray(data.hashtags) || data.hashtags.some(tag => typeof tag !== 'string')) {
+    issues.push('"hashtags" debe ser una lista de textos');
+  } else {
+    hashtags = [...new Set(data.hashtags
+      .map(tag => (tag as string).trim().replace(/^#+/, '').replace(/\s+/g, ''))
+      .filter(Boolean))]
+      .slice(0, MAX_HASHTAGS);
+  }
+
+  const copy: AdCopy = {
+    overlayText: {
+      headline: requireString(text.headline, 'overlayText.headline'),
+      price: requireString(text.price, 'overlayText.price'),
+      contact: requireString(text.contact, 'overlayText.contact'),
+      cta: requireString(text.cta, 'overlayText.cta'),
+    },
+    description: requireString(data.description, 'description', { nonEmpty: true }),
+    platformCopy,
+    imagePrompt: requireString(data.imagePrompt, 'imagePrompt', { nonEmpty: true, minLength: 20 }),
+    detectedLanguage,
+    hashtags,
+  };
+
+  if (issues.length > 0) throw new InvalidModelResponseError(issues, rawResponse);
+  return copy;
+};
+
+/** Parses the model's reading of the input photos. Photos without any printed text are fine. */
+export const parseImageAnalysis = (rawResponse: string): ImageAnalysis => {
+  const data = parseRoot(rawResponse);
+  const issues: string[] = [];
+  const field = (key: string, nonEmpty: boolean): string => {
+    const value = data[key];
+    if (typeof value !== 'string') {
+      issues.push(`"${key}" debe ser texto`);
+      return '';
+    }
+    if (nonEmpty && !value.trim()) issues.push(`"${key}" está vacío`);
+    return value.trim();
+  };
+  const analysis: ImageAnalysis = {
+    extractedText: field('extractedText', false),
+    product: field('product', true),
+    category: field('category', true),
+  };
+  if (issues.length > 0) throw new InvalidModelResponseError(issues, rawResponse);
+  return analysis;
+};
+
+/**
+ * Parses the model's reading of finished ads. An image it returned no text
+ * for counts as showing none, which the review then reports.
+ */
+export const parseAdReading = (rawResponse: string, imageCount: number): AdReading => {
+  const data = parseRoot(rawResponse);
+  const issues: string[] = [];
+  const altText = typeof data.altText === 'string' ? data.altText.trim() : '';
+  if (!altText) issues.push('"altText" está vacío');
+  if (!Array.isArray(data.visibleText)) issues.push('"visibleText" debe ser una lista de textos');
+  if (issues.length > 0) throw new InvalidModelResponseError(issues, rawResponse);
+  const texts = data.visibleText as unknown[];
+  return {
+    altText,
+    visibleText: Array.from({ length: imageCount }, (_, i) => typeof texts[i] === 'string' ? (texts[i] as string).trim() : ''),
+  };
+};
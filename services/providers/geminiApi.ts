@@ -0,0 +1,83 @@
+// Client for the app's API server (server/index.js), which holds the Gemini
+// key and picks the model. In development Vite proxies `/api` to it; in
+// production `/api` has to be routed to it the same way.
+
+const CLIENT_ID_KEY = 'apiClientId';
+
+/** A random id for this browser, sent so the server can rate limit and log per user. */
+const clientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+/**
+ * A failed call to the API server; `status` lets `toApiError` categorise it
+ * like an SDK error, and `code` tells the server's own refusals apart.
+ */
+export class ApiServerError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    /** From `Retry-After`, when the server said how long to wait. */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ApiServerError';
+  }
+}
+
+/** `Retry-After` in seconds; the HTTP-date form is not used by our server. */
+const retryAfterMs = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return seconds > 0 ? seconds * 1000 : undefined;
+};
+
+/** Every response names the model the server used, for usage tracking. */
+type ModelResponse = { model: string };
+
+export type ContentResponse = ModelResponse & {
+  text?: string;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+  promptFeedback?: { blockReason?: string };
+  candidates?: { finishReason?: string; content?: { parts?: { text?: string; inlineData?: { data: string; mimeType: string } }[] } }[];
+};
+
+export type ImagesResponse = ModelResponse & {
+  generatedImages?: { image?: { imageBytes?: string; mimeType?: string }; raiFilteredReason?: string }[];
+};
+
+const post = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`/api/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-client-id': clientId() },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiServerError(
+      payload?.error?.message || `El servidor de la API respondió ${response.status}.`,
+      response.status,
+      payload?.error?.code,
+      retryAfterMs(response)
+    );
+  }
+  return payload as T;
+};
+
+export const geminiApi = {
+  /** Text model; `config` takes the response MIME type and schema only. */
+  generateContent: (contents: unknown[], config: { responseMimeType?: string; responseSchema?: unknown }, signal?: AbortSignal) =>
+    post<ContentResponse>('generate-content', { contents, config }, signal),
+  /** Image model, one image. */
+  generateImages: (prompt: string, aspectRatio: string, signal?: AbortSignal) =>
+    post<ImagesResponse>('generate-images', { prompt, aspectRatio }, signal),
+  /** Image editing model; answers with the edited image as an inline data part. */
+  editImage: (parts: unknown[], signal?: AbortSignal) =>
+    post<ContentResponse>('edit-image', { parts }, signal),
+};
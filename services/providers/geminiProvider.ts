@@ -0,0 +1,328 @@
+import { Type } from '@google/genai';
+import type { AdProvider, AdCopy, AdReading, CopyRequest, ImageAnalysis, InputImage, UsageReporter, VariationFeedback } from './types';
+import { parseAdCopy, parseAdReading, parseImageAnalysis, InvalidModelResponseError } from './adCopyValidation';
+import { ApiError } from '../apiErrors';
+import { type ContentResponse, geminiApi } from './geminiApi';
+import type { AdFormat, BrandKit, ImageInsights, StylePreset } from '../../types';
+import { cropToFormat } from '../../utils/adFormats';
+import { PLATFORMS } from '../../utils/platforms';
+import { getOutputLanguage } from '../../utils/languages';
+
+// Calls go through the app's API server, which holds the key and picks the
+// model for each route (see server/config.js).
+
+// Imagen has no 4:5 ratio, so we ask for 3:4 and crop the top and bottom.
+const IMAGEN_ASPECT_RATIOS: Record<AdFormat, string> = {
+  '1:1': '1:1',
+  '4:5': '3:4',
+  '9:16': '9:16',
+  '16:9': '16:9',
+};
+
+const AD_COPY_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    overlayText: {
+      type: Type.OBJECT,
+      properties: {
+        headline: { type: Type.STRING, description: 'Nombre del producto o frase principal, máximo 6 palabras.' },
+        price: { type: Type.STRING, description: 'Precio u oferta, tal cual. Vacío si no hay.' },
+        contact: { type: Type.STRING, description: 'Teléfono, WhatsApp, dirección o web, tal cual. Vacío si no hay.' },
+        cta: { type: Type.STRING, description: 'Llamada a la acción corta.' },
+      },
+      required: ['headline', 'price', 'contact', 'cta'],
+      propertyOrdering: ['headline', 'price', 'contact', 'cta'],
+    },
+    description: { type: Type.STRING, description: 'Texto de marketing para redes sociales, sin hashtags.' },
+    platformCopy: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(PLATFORMS.map(p => [p.id, { type: Type.STRING, description: `Texto para ${p.label}, sin hashtags.` }])),
+      required: PLATFORMS.map(p => p.id),
+      propertyOrdering: PLATFORMS.map(p => p.id),
+    },
+    imagePrompt: { type: Type.STRING, description: 'Prompt detallado en inglés para el generador de imágenes.' },
+    detectedLanguage: { type: Type.STRING, description: 'Código ISO 639-1 del idioma de los textos de entrada.' },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Hashtags sin el símbolo #.' },
+  },
+  required: ['overlayText', 'description', 'platformCopy', 'imagePrompt', 'detectedLanguage', 'hashtags'],
+  propertyOrdering: ['overlayText', 'description', 'platformCopy', 'imagePrompt', 'detectedLanguage', 'hashtags'],
+};
+
+const IMAGE_ANALYSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    extractedText: { type: Type.STRING, description: 'Todo el texto legible de las imágenes, una línea por elemento. Vacío si no hay.' },
+    product: { type: Type.STRING, description: 'Qué producto o servicio se ofrece, en pocas palabras.' },
+    category: { type: Type.STRING, description: 'Categoría comercial del producto.' },
+  },
+  required: ['extractedText', 'product', 'category'],
+  propertyOrdering: ['extractedText', 'product', 'category'],
+};
+
+const AD_READING_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    altText: { type: Type.STRING, description: 'Texto alternativo del anuncio para lectores de pantalla, en español, máximo 2 frases.' },
+    visibleText: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Por cada imagen, en orden, todo el texto legible tal como aparece, una línea por elemento.',
+    },
+  },
+  required: ['altText', 'visibleText'],
+  propertyOrdering: ['altText', 'visibleText'],
+};
+
+const brandKitContext = (kit: BrandKit): string => {
+  const lines = [
+    `- Marca: ${kit.name}`,
+    kit.tagline && `- Eslogan: ${kit.tagline}`,
+    kit.phone && `- Teléfono: ${kit.phone}`,
+    kit.whatsapp && `- WhatsApp: ${kit.whatsapp}`,
+    kit.address && `- Dirección: ${kit.address}`,
+    kit.palette.length > 0 && `- Paleta de colores: ${kit.palette.join(', ')}`,
+    kit.tone && `- Tono de voz: ${kit.tone}`,
+    kit.disclaimer && `- Texto legal obligatorio (ponlo tal cual al final de "description" y de cada texto de "platformCopy"): ${kit.disclaimer}`,
+  ].filter(Boolean);
+  return `
+    **Kit de marca del cliente (aplícalo siempre):**
+    ${lines.join('\n    ')}
+    - Si el contexto del usuario no trae datos de contacto, usa los del kit de marca en "overlayText.contact".
+    - Escribe "description" y "platformCopy" con el tono de voz de la marca.
+    - En "imagePrompt", usa la paleta de colores de la marca y deja libre la esquina superior derecha para el logotipo.
+  `;
+};
+
+const styleContext = ({ copyPrompt, imagePrompt, negativePrompt }: StylePreset): string => {
+  const lines = [
+    copyPrompt.trim() && `- Para los textos: ${copyPrompt.trim()}`,
+    imagePrompt.trim() && `- Para "imagePrompt": ${imagePrompt.trim()}`,
+    negativePrompt.trim() && `- La imagen NO debe incluir: ${negativePrompt.trim()}`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `**Indicaciones del estilo:**\n    ${lines.join('\n    ')}` : '';
+};
+
+const insightsContext = ({ extractedText, product, category, palette }: ImageInsights): string => `
+    **Revisado por el usuario (tiene prioridad sobre lo que leas en las imágenes):**
+    - Producto: ${product || 'sin indicar'}
+    - Categoría: ${category || 'sin indicar'}
+    - Texto de las fotos, corregido: ${extractedText.trim() ? `"${extractedText.trim()}"` : 'ninguno'}
+    ${palette.length > 0 ? `- En "imagePrompt", construye la imagen con esta paleta de colores (tiene prioridad sobre la del kit de marca): ${palette.join(', ')}` : ''}
+  `;
+
+const feedbackContext = (imageCount: number, { liked, disliked }: VariationFeedback): string => `
+    **Variaciones anteriores valoradas por el usuario:** las primeras ${imageCount} imágenes son las fotos del producto; las siguientes son anuncios ya generados en este proyecto, cada uno precedido de su etiqueta.
+    ${liked.length > 0 ? '- Conserva lo que tienen en común las que le GUSTARON (composición, encuadre, colores, tono del texto), sin copiarlas.' : ''}
+    ${disliked.length > 0 ? '- Evita lo que caracteriza a las que RECHAZÓ.' : ''}
+    - El producto se toma siempre de las fotos del producto, nunca de los anuncios anteriores.
+  `;
+
+const CURRENT_IMAGE_CONTEXT = `
+    **Anuncio ya generado:** la última imagen, rotulada "Anuncio actual", es el anuncio que se mantiene tal cual. Escribe textos nuevos que encajen con esa imagen; en "imagePrompt" descríbela tal como es.
+  `;
+
+const feedbackParts = ({ liked, disliked }: VariationFeedback): any[] => [
+  ...liked.map(example => ['LE GUSTÓ', example] as const),
+  ...disliked.map(example => ['LO RECHAZÓ', example] as const),
+].flatMap(([label, { headline, description, image }]) => [
+  { text: `Anuncio anterior (${label}) — titular: "${headline}"; descripción: "${description}"` },
+  { inlineData: { data: image.base64, mimeType: image.mimeType } },
+]);
+
+/** Gemini reports blocked prompts and outputs in the response body rather than as errors. */
+const assertNotBlocked = (response: { promptFeedback?: { blockReason?: string }; candidates?: { finishReason?: string }[] }) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || ['SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_SAFETY', 'BLOCKLIST', 'SPII'].includes(finishReason ?? '')) {
+    throw new ApiError('safety');
+  }
+};
+
+// Thinking tokens are billed as output.
+const reportUsage = ({ model, usageMetadata }: ContentResponse, onUsage?: UsageReporter) => onUsage?.({
+  model,
+  inputTokens: usageMetadata?.promptTokenCount ?? 0,
+  outputTokens: (usageMetadata?.candidatesTokenCount ?? 0) + (usageMetadata?.thoughtsTokenCount ?? 0),
+});
+
+const analyzeImages = async (images: InputImage[], signal?: AbortSignal, onUsage?: UsageReporter): Promise<ImageAnalysis> => {
+  const response = await geminiApi.generateContent(
+    [{
+      role: 'user',
+      parts: [
+        ...images.map(img => ({ inlineData: { data: img.base64, mimeType: img.mimeType } })),
+        { text: 'Estas son fotos de un producto para un anuncio. Transcribe exactamente el texto legible (marcas, precios, teléfonos, ofertas), sin inventar nada, e indica en español qué producto es y su categoría comercial. Responde con un objeto JSON.' },
+      ],
+    }],
+    { responseMimeType: 'application/json', responseSchema: IMAGE_ANALYSIS_SCHEMA },
+    signal,
+  );
+  reportUsage(response, onUsage);
+  assertNotBlocked(response);
+  return parseImageAnalysis(response.text ?? '');
+};
+
+const platformInstructions = (): string => PLATFORMS
+  .map(p => `      - "${p.id}" (${p.label}, máximo ${p.maxChars} caracteres, lo esencial en los primeros ${p.previewChars}): ${p.guidance}`)
+  .join('\n');
+
+const generateCopy = async (
+  { images, userPrompt, style, brandKit, language, insights, feedback, currentImage }: CopyRequest,
+  signal?: AbortSignal,
+  onUsage?: UsageReporter
+): Promise<AdCopy> => {
+  const outputLanguage = getOutputLanguage(language).promptName;
+
+  const descriptionGeneratorPrompt = `
+    Eres un director de arte y experto en marketing de clase mundial. Tu misión es rediseñar un anuncio a partir de las imágenes y el texto proporcionado.
+
+    **Análisis de Contenido (Reglas estrictas):**
+    1.  **PRIORIDAD 1 - TEXTO DEL USUARIO:** Analiza el "Contexto del usuario". Si contiene detalles del producto, información de contacto, precios u ofertas, esa es la fuente principal de texto que DEBES integrar en la nueva imagen.
+    2.  **PRIORIDAD 2 - TEXTO EN IMAGEN:** Solo si el "Contexto del usuario" está vacío o es genérico (ej. "hazlo bonito"), entonces extrae CUALQUIER texto legible de las imágenes (nombres, ofertas, etc.).
+
+    Contexto del usuario: "${userPrompt || 'Ninguno.'}"
+    Estilo deseado: "${style.name}"
+    ${styleContext(style)}
+    ${brandKit ? brandKitContext(brandKit) : ''}
+    ${insights ? insightsContext(insights) : ''}
+    ${feedback ? feedbackContext(images.length, feedback) : ''}
+    ${currentImage ? CURRENT_IMAGE_CONTEXT : ''}
+
+    **Tu Tarea:** responde con un objeto JSON con estos campos.
+    - "overlayText": el texto del anuncio, basado en las reglas de prioridad de arriba. NO irá dentro de la imagen generada: se superpondrá después como capas editables. Copia precios, teléfonos y direcciones exactamente como aparecen. Deja vacío ("") cualquier campo que no aplique. Escribe "headline" y "cta" en ${outputLanguage}.
+      - "headline": nombre del producto o frase principal, máximo 6 palabras.
+      - "price": precio u oferta.
+      - "contact": teléfono, WhatsApp, dirección o web.
+      - "cta": llamada a la acción corta, ej. "¡Pide el tuyo!".
+    - "description": un texto de marketing corto en ${outputLanguage} para redes sociales (máximo 3 frases), usando el estilo deseado y emojis, SIN hashtags. Debe ser coherente con "overlayText".
+    - "platformCopy": el mismo mensaje adaptado a cada plataforma, en ${outputLanguage}, SIN hashtags, con precios y contactos exactamente como en "overlayText":
+${platformInstructions()}
+    - "hashtags": entre 3 y 10 hashtags relevantes en ${outputLanguage}, del más al menos importante, sin el símbolo #.
+    - "detectedLanguage": el código ISO 639-1 del idioma del contexto del usuario o del texto de las imágenes (ej. "es").
+    - "imagePrompt": un prompt detallado en INGLÉS para un generador de imágenes. El prompt debe:
+      1. Rediseñar la imagen en el estilo deseado (si es 'Automático', elige el mejor estilo visual).
+      2. Crear una escena profesional, de alta calidad y fotorealista o de diseño gráfico según corresponda.
+      3. **CRÍTICO:** Pedir explícitamente que la imagen NO contenga ningún texto, letra, número ni logotipo inventado, y que deje espacio limpio arriba y abajo para superponer el texto.
+  `;
+
+  const contentParts: any[] = images.map(img => ({
+    inlineData: { data: img.base64, mimeType: img.mimeType }
+  }));
+  if (feedback) contentParts.push(...feedbackParts(feedback));
+  if (currentImage) {
+    contentParts.push({ text: 'Anuncio actual:' }, { inlineData: { data: currentImage.base64, mimeType: currentImage.mimeType } });
+  }
+  contentParts.push({ text: descriptionGeneratorPrompt });
+
+  const config = {
+    responseMimeType: 'application/json',
+    responseSchema: AD_COPY_SCHEMA,
+  };
+
+  const firstResponse = await geminiApi.generateContent([{ role: 'user', parts: contentParts }], config, signal);
+  reportUsage(firstResponse, onUsage);
+  assertNotBlocked(firstResponse);
+  const firstText = firstResponse.text ?? '';
+
+  try {
+    return parseAdCopy(firstText);
+  } catch (err) {
+    if (!(err instanceof InvalidModelResponseError)) throw err;
+    console.warn("Respuesta de Gemini inválida, se pide una corrección:", err.issues, firstText);
+
+    // One repair round: show the model its own answer and exactly what is wrong with it.
+    const repairResponse = await geminiApi.generateContent(
+      [
+        { role: 'user', parts: contentParts },
+        { role: 'model', parts: [{ text: firstText }] },
+        { role: 'user', parts: [{ text: `Tu respuesta no es válida: ${err.issues.join('; ')}. Devuelve de nuevo el objeto JSON completo, corregido y ajustado al esquema, sin ningún texto adicional.` }] },
+      ],
+      config,
+      signal,
+    );
+    reportUsage(repairResponse, onUsage);
+    assertNotBlocked(repairResponse);
+    return parseAdCopy(repairResponse.text ?? '');
+  }
+};
+
+const generateImage = async (prompt: string, format: AdFormat, signal?: AbortSignal, onUsage?: UsageReporter): Promise<string> => {
+  const imageResponse = await geminiApi.generateImages(prompt, IMAGEN_ASPECT_RATIOS[format], signal);
+  // Imagen is billed per image, not per token.
+  onUsage?.({ model: imageResponse.model, inputTokens: 0, outputTokens: 0 });
+
+  const generated = imageResponse.generatedImages?.[0]?.image;
+  if (generated?.imageBytes) {
+    const imageUrl = `data:${generated.mimeType || 'image/jpeg'};base64,${generated.imageBytes}`;
+    return IMAGEN_ASPECT_RATIOS[format] === format ? imageUrl : cropToFormat(imageUrl, format);
+  }
+
+  // Imagen drops filtered images from the list and reports why instead.
+  if (imageResponse.generatedImages?.[0]?.raiFilteredReason) {
+    throw new ApiError('safety');
+  }
+  throw new Error("No se pudo generar la imagen publicitaria.");
+};
+
+const editImage = async (
+  image: InputImage,
+  editPrompt: string,
+  mask: InputImage | undefined,
+  signal?: AbortSignal,
+  onUsage?: UsageReporter
+): Promise<string> => {
+    const parts: any[] = [
+        {
+            inlineData: {
+                data: image.base64,
+                mimeType: image.mimeType,
+            },
+        },
+    ];
+    if (mask) {
+        parts.push(
+            { inlineData: { data: mask.base64, mimeType: mask.mimeType } },
+            { text: 'La segunda imagen es una máscara del mismo tamaño que la primera. Modifica ÚNICAMENTE la zona blanca de la máscara y deja la zona negra exactamente igual, incluidos productos, logotipos y textos.' },
+        );
+    }
+    parts.push({ text: `En español: ${editPrompt}` });
+
+    const response = await geminiApi.editImage(parts, signal);
+    reportUsage(response, onUsage);
+    assertNotBlocked(response);
+
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData) {
+            const base64ImageBytes = part.inlineData.data;
+            return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
+        }
+    }
+
+    throw new Error("No se pudo editar la imagen.");
+};
+
+const readAd = async (images: InputImage[], signal?: AbortSignal, onUsage?: UsageReporter): Promise<AdReading> => {
+  const response = await geminiApi.generateContent(
+    [{
+      role: 'user',
+      parts: [
+        ...images.map(img => ({ inlineData: { data: img.base64, mimeType: img.mimeType } })),
+        { text: `Estas ${images.length} imágenes son el mismo anuncio en distintos formatos. Escribe un texto alternativo que describa el anuncio (qué se ve y qué ofrece) para una persona que no puede verlo. Luego transcribe, para cada imagen en orden, exactamente el texto que se lee en ella, sin corregir ni completar nada: si algo no se lee bien, omítelo. Responde con un objeto JSON.` },
+      ],
+    }],
+    { responseMimeType: 'application/json', responseSchema: AD_READING_SCHEMA },
+    signal,
+  );
+  reportUsage(response, onUsage);
+  assertNotBlocked(response);
+  return parseAdReading(response.text ?? '', images.length);
+};
+
+export const geminiProvider: AdProvider = {
+  name: 'gemini',
+  analyzeImages,
+  generateCopy,
+  generateImage,
+  editImage,
+  readAd,
+};
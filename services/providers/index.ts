@@ -0,0 +1,22 @@
+import type { AdProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const PROVIDERS: Record<string, AdProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/** Returns the provider named by `VITE_AD_PROVIDER` (defaults to Gemini). */
+export const getProvider = (): AdProvider => {
+  const name = import.meta.env.VITE_AD_PROVIDER || 'gemini';
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Proveedor desconocido "${name}". Usa uno de: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  return provider;
+};
+
+export type {
+  AdProvider, AdCopy, CopyRequest, ImageAnalysis, InputImage, ModelUsage, UsageReporter, VariationExample, VariationFeedback
+} from './types';
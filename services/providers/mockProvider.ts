@@ -0,0 +1,195 @@
+import type { AdProvider, AdCopy, AdReading, CopyRequest, ImageAnalysis, InputImage } from './types';
+import type { AdFormat, Platform } from '../../types';
+import { loadImage } from '../../utils/fileUtils';
+import { getFormatInfo } from '../../utils/adFormats';
+import { AUTO_LANGUAGE, DEFAULT_OUTPUT_LANGUAGE } from '../../utils/languages';
+
+// Offline provider for UI work and manual testing. Every output is derived
+// from a hash of its inputs, so the same request always gives the same result.
+
+const PLACEHOLDER_SIZE = 1024;
+
+const PALETTES: [string, string][] = [
+  ['#490F1F', '#C2A05A'],
+  ['#1E3A5F', '#7FB3D5'],
+  ['#2F4F2F', '#C8E6C9'],
+  ['#4A2C6F', '#F5B7B1'],
+  ['#7A3E00', '#FFD180'],
+];
+
+const CANNED_COPY: [string, string[]][] = [
+  ['✨ Descubre la calidad que estabas buscando. ¡Escríbenos hoy y aprovecha nuestra oferta!', ['Calidad', 'Oferta']],
+  ['🔥 Lo nuevo ya llegó y es justo lo que necesitas. Pide el tuyo por WhatsApp.', ['Novedad', 'CompraLocal']],
+  ['🌿 Hecho con cariño para ti y los tuyos. Visítanos y compruébalo.', ['Natural', 'Emprendimiento']],
+  ['🚀 Da el siguiente paso con lo mejor del mercado. ¡Unidades limitadas!', ['Tendencia', 'Promo']],
+];
+
+// Mock copy is always Spanish; other languages are only marked so the flow can be checked.
+const languageTag = (language: string) =>
+  language === DEFAULT_OUTPUT_LANGUAGE || language === AUTO_LANGUAGE ? '' : `[${language.toUpperCase()}] `;
+
+const mockPlatformCopy = (description: string, headline: string, price: string, contact: string): Record<Platform, string> => ({
+  instagram: `${description}\n\n📩 Escríbenos por DM para pedir el tuyo.`,
+  facebook: `${description} Cuéntanos en los comentarios qué te parece o envíanos un mensaje. 💬`,
+  whatsapp: [`*${headline}*`, price && `Precio: ${price}`, `Responde a este mensaje para pedirlo${contact ? ` o escríbenos al ${contact}` : ''}.`].filter(Boolean).join('\n'),
+  tiktok: `${headline} 👀 ¿Lo quieres? ¡Comenta "yo"!`,
+  google: [`${headline}.`, price && `Precio: ${price}.`, contact && `Pedidos: ${contact}.`].filter(Boolean).join(' '),
+});
+
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const delay = (signal?: AbortSignal) => {
+  const ms = Number(import.meta.env.VITE_MOCK_DELAY_MS ?? 600);
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  ctx.font = `600 ${Math.round(width / 32)}px Montserrat, sans-serif`;
+  const lines = wrapText(ctx, text, width * 0.8).slice(0, 6);
+  const lineHeight = Math.round(width / 24);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  ctx.fillRect(0, height - lineHeight * (lines.length + 1), width, lineHeight * (lines.length + 1));
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  lines.forEach((l, i) => ctx.fillText(l, width / 2, height - lineHeight * (lines.length - i) + lineHeight * 0.2));
+};
+
+const analyzeImages = async (images: InputImage[], signal?: AbortSignal): Promise<ImageAnalysis> => {
+  await delay(signal);
+  const hash = hashString(images.map(img => img.base64.slice(-64)).join('|'));
+  return {
+    extractedText: ['OFERTA', '$ 19.990', 'WhatsApp +56 9 1234 5678'].slice(0, 1 + (hash % 3)).join('\n'),
+    product: 'Producto de ejemplo',
+    category: ['Alimentos', 'Moda', 'Hogar', 'Belleza'][hash % 4],
+  };
+};
+
+const generateCopy = async ({ images, userPrompt, style, brandKit, language, insights, feedback, currentImage }: CopyRequest, signal?: AbortSignal): Promise<AdCopy> => {
+  await delay(signal);
+  // Feedback and the kept image change the hash, so rating variations or rewriting the copy visibly changes it.
+  const hash = hashString(`${userPrompt}|${style.name}|${images.length}|${feedback?.liked.length ?? 0}|${feedback?.disliked.length ?? 0}|${currentImage?.base64.slice(-64) ?? ''}`);
+  // Reviewed photo text stands in for the user's context when there is none, as the real prompt asks.
+  const context = userPrompt.trim() || insights?.extractedText.trim() || insights?.product || '';
+  const overlayText = {
+    headline: context ? context.split('\n')[0].slice(0, 40) : 'Tu producto aquí',
+    price: context.match(/\$\s?\d[\d.,]*/)?.[0] ?? '',
+    contact: context.match(/\+?\d[\d\s-]{6,}\d/)?.[0] ?? brandKit?.whatsapp ?? brandKit?.phone ?? '',
+    cta: brandKit?.tagline || '¡Pide el tuyo!',
+  };
+  const [description, hashtags] = CANNED_COPY[hash % CANNED_COPY.length];
+  const tag = languageTag(language);
+  const platformCopy = mockPlatformCopy(description, overlayText.headline, overlayText.price, overlayText.contact);
+  const disclaimer = brandKit?.disclaimer ? `\n\n${brandKit.disclaimer}` : '';
+  return {
+    overlayText,
+    description: tag + description + disclaimer,
+    platformCopy: Object.fromEntries(Object.entries(platformCopy).map(([id, text]) => [id, tag + text + disclaimer])) as Record<Platform, string>,
+    imagePrompt: `Mock advertisement in a "${style.name}" style, no text.${insights?.palette.length ? ` Palette: ${insights.palette.join(', ')}.` : ''}${
+      feedback ? ` Guided by ${feedback.liked.length} liked and ${feedback.disliked.length} rejected variations.` : ''
+    }`,
+    detectedLanguage: 'es',
+    hashtags,
+  };
+};
+
+const generateImage = async (prompt: string, format: AdFormat, signal?: AbortSignal): Promise<string> => {
+  await delay(signal);
+  const [dark, light] = PALETTES[hashString(prompt) % PALETTES.length];
+  const { width: ratioW, height: ratioH } = getFormatInfo(format);
+  const scale = PLACEHOLDER_SIZE / Math.max(ratioW, ratioH);
+  const width = Math.round(ratioW * scale);
+  const height = Math.round(ratioH * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, dark);
+  gradient.addColorStop(1, light);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.textAlign = 'center';
+  ctx.font = `800 ${Math.min(width, height) / 10}px Montserrat, sans-serif`;
+  ctx.fillText('VISTA PREVIA', width / 2, height / 2);
+  ctx.font = `600 ${Math.min(width, height) / 16}px Montserrat, sans-serif`;
+  ctx.fillText(format, width / 2, height / 2 + Math.min(width, height) / 8);
+  drawCaption(ctx, prompt, width, height);
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
+
+const editImage = async (image: InputImage, editPrompt: string, _mask: InputImage | undefined, signal?: AbortSignal): Promise<string> => {
+  await delay(signal);
+  const img = await loadImage(`data:${image.mimeType};base64,${image.base64}`);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0);
+
+  const [, light] = PALETTES[hashString(editPrompt) % PALETTES.length];
+  ctx.globalAlpha = 0.2;
+  ctx.fillStyle = light;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalAlpha = 1;
+  drawCaption(ctx, `Edición: ${editPrompt}`, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/png');
+};
+
+// The mock cannot read the text layers drawn over its placeholders, only what
+// it painted itself, so ads with a price or phone number fail its review: a
+// quick way to see an export being held back.
+const readAd = async (images: InputImage[], signal?: AbortSignal): Promise<AdReading> => {
+  await delay(signal);
+  return {
+    altText: 'Anuncio de ejemplo con un fondo degradado y el texto "Vista previa".',
+    visibleText: images.map(() => 'VISTA PREVIA'),
+  };
+};
+
+export const mockProvider: AdProvider = {
+  name: 'mock',
+  analyzeImages,
+  generateCopy,
+  generateImage,
+  editImage,
+  readAd,
+};
@@ -0,0 +1,89 @@
+import type { AdFormat, BrandKit, ImageInsights, OverlayText, Platform, StylePreset } from '../../types';
+
+export type InputImage = {
+  base64: string;
+  mimeType: string;
+};
+
+/** A variation the user already judged, shown to the model as an example to follow or to avoid. */
+export type VariationExample = {
+  headline: string;
+  description: string;
+  /** A small copy of the generated image. */
+  image: InputImage;
+};
+
+export type VariationFeedback = {
+  liked: VariationExample[];
+  disliked: VariationExample[];
+};
+
+export type CopyRequest = {
+  images: InputImage[];
+  userPrompt: string;
+  style: StylePreset;
+  brandKit?: BrandKit | null;
+  /** ISO 639-1 code of the language to write in, or `auto` to follow the inputs. */
+  language: string;
+  /** Reviewed by the user before generating; takes precedence over what the model reads in the images. */
+  insights?: ImageInsights | null;
+  /** Earlier variations of the same project the user liked or rejected. */
+  feedback?: VariationFeedback | null;
+  /** An ad image that is kept as it is: the copy is rewritten to fit it. */
+  currentImage?: InputImage | null;
+};
+
+/** Tokens one model call used, as the provider reports them. */
+export type ModelUsage = {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+/** Called once per model call; a provider method may make more than one (e.g. a repair round). */
+export type UsageReporter = (usage: ModelUsage) => void;
+
+/** What the model reads in the input photos; the palette is computed locally. */
+export type ImageAnalysis = Omit<ImageInsights, 'palette'>;
+
+/** What the model sees in finished ads, text layers drawn in. */
+export type AdReading = {
+  /** One or two sentences for screen readers: what is shown and what the ad says. */
+  altText: string;
+  /** The text legible in each image, in the order they were sent, one line per element. */
+  visibleText: string[];
+};
+
+export type AdCopy = {
+  /** Text for the ad, drawn client-side; the image prompt asks for a text-free picture. */
+  overlayText: OverlayText;
+  /** Social media copy, without hashtags. */
+  description: string;
+  /** `description` rewritten for each platform's length and conventions, without hashtags. */
+  platformCopy: Record<Platform, string>;
+  imagePrompt: string;
+  /** ISO 639-1 code of the language of the inputs, e.g. `es`. */
+  detectedLanguage: string;
+  /** Without the leading `#`. */
+  hashtags: string[];
+};
+
+/**
+ * A backend able to produce the things the app needs: a reading of the input
+ * photos, marketing copy (plus an image prompt) from the inputs, a new image
+ * from a prompt in the requested format, an edited version of an existing
+ * image, and a reading of finished ads for their review. Images are returned as data URLs.
+ * Retries and timeouts are handled by the caller; providers only need to
+ * honour `signal` and throw (an `ApiError` when they know the cause).
+ * Providers that know what a call cost report it through `onUsage`.
+ */
+export interface AdProvider {
+  readonly name: string;
+  analyzeImages(images: InputImage[], signal?: AbortSignal, onUsage?: UsageReporter): Promise<ImageAnalysis>;
+  generateCopy(request: CopyRequest, signal?: AbortSignal, onUsage?: UsageReporter): Promise<AdCopy>;
+  generateImage(prompt: string, format: AdFormat, signal?: AbortSignal, onUsage?: UsageReporter): Promise<string>;
+  /** `mask` (white = region to change) is a hint; callers composite the result onto the original themselves. */
+  editImage(image: InputImage, editPrompt: string, mask: InputImage | undefined, signal?: AbortSignal, onUsage?: UsageReporter): Promise<string>;
+  /** `images` are the formats of one ad; the alt text describes the ad as a whole. */
+  readAd(images: InputImage[], signal?: AbortSignal, onUsage?: UsageReporter): Promise<AdReading>;
+}
@@ -0,0 +1,87 @@
+import { ApiError, toApiError } from './apiErrors';
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+  /** Per attempt. */
+  timeoutMs?: number;
+  /** Additional attempts after the first one, for retryable errors only. */
+  retries?: number;
+};
+
+const numberFromEnv = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export const REQUEST_DEFAULTS = {
+  timeoutMs: numberFromEnv(import.meta.env.VITE_REQUEST_TIMEOUT_MS, 90_000),
+  retries: numberFromEnv(import.meta.env.VITE_REQUEST_RETRIES, 3),
+  baseDelayMs: 1_000,
+  maxDelayMs: 20_000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * The wait the server asked for, if any, spread by up to a base delay so
+ * parallel calls do not come back together; otherwise full jitter, a random
+ * delay up to an exponentially growing cap.
+ */
+const backoffDelay = (attempt: number, retryAfterMs?: number) =>
+  retryAfterMs !== undefined
+    ? retryAfterMs + Math.random() * REQUEST_DEFAULTS.baseDelayMs
+    : Math.random() * Math.min(REQUEST_DEFAULTS.maxDelayMs, REQUEST_DEFAULTS.baseDelayMs * 2 ** attempt);
+
+/**
+ * Runs a model call with a timeout per attempt, exponential backoff on
+ * rate-limit, server and network errors (waiting as long as `Retry-After`
+ * says when the server sent one), and cancellation through `signal`.
+ * The operation receives a signal that fires on timeout or cancellation; we
+ * also stop waiting for it ourselves in case it ignores the signal.
+ * Always rejects with an `ApiError`.
+ */
+export const withRetry = async <T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = REQUEST_DEFAULTS.timeoutMs, retries = REQUEST_DEFAULTS.retries }: RequestOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new ApiError('cancelled');
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+        operation(controller.signal).then(resolve, reject);
+      });
+    } catch (err) {
+      const apiError = signal?.aborted
+        ? new ApiError('cancelled')
+        : timedOut ? new ApiError('timeout') : toApiError(err);
+      if (!apiError.retryable || attempt >= retries) throw apiError;
+      console.warn(`Reintentando llamada a la IA (${attempt + 1}/${retries}):`, apiError.category, err);
+      await sleep(backoffDelay(attempt, apiError.retryAfterMs), signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
@@ -0,0 +1,141 @@
+import { STYLE_PRESETS_STORE, getAll, putOne, deleteOne } from './db';
+import type { AdFormat, StylePreset } from '../types';
+import { AD_FORMATS, DEFAULT_FORMAT } from '../utils/adFormats';
+import { FONT_OPTIONS } from '../utils/textLayers';
+
+const EXPORT_TYPE = 'kp-fly-style-presets';
+const EXPORT_VERSION = 1;
+
+const builtIn = (id: string, name: string, preset: Partial<StylePreset>): StylePreset => ({
+  id: `builtin-${id}`,
+  name,
+  thumbnailUrl: null,
+  copyPrompt: '',
+  imagePrompt: '',
+  negativePrompt: '',
+  defaultFormat: DEFAULT_FORMAT,
+  headingFont: '',
+  bodyFont: '',
+  ...preset,
+  builtIn: true,
+});
+
+export const AUTO_STYLE_NAME = 'Automático';
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  builtIn('auto', AUTO_STYLE_NAME, {}),
+  builtIn('luxury', 'Lujoso y Exclusivo', {
+    copyPrompt: 'Tono sofisticado y aspiracional, frases cortas, pocos emojis.',
+    imagePrompt: 'Iluminación de estudio suave, fondos oscuros o mármol, detalles dorados, mucho espacio vacío.',
+    negativePrompt: 'colores saturados, fondos recargados, estética de oferta barata',
+    headingFont: 'Playfair Display',
+  }),
+  builtIn('fresh', 'Fresco y Natural', {
+    copyPrompt: 'Tono cercano y saludable; resalta lo natural y artesanal.',
+    imagePrompt: 'Luz natural de mañana, plantas, madera clara y tonos verdes y crema.',
+    negativePrompt: 'plásticos, neones, fondos oscuros',
+  }),
+  builtIn('tech', 'Tecnológico y Moderno', {
+    copyPrompt: 'Tono directo y seguro; destaca prestaciones concretas.',
+    imagePrompt: 'Superficies limpias, reflejos, luces frías azules o violetas, composición geométrica.',
+    negativePrompt: 'texturas rústicas, elementos vintage',
+    defaultFormat: '16:9',
+  }),
+  builtIn('warm', 'Cálido y Acogedor', {
+    copyPrompt: 'Tono familiar y emotivo; invita a compartir.',
+    imagePrompt: 'Luz cálida de atardecer, textiles, ambientes de hogar, tonos ámbar.',
+    negativePrompt: 'ambientes fríos o industriales',
+    headingFont: 'Roboto Slab',
+  }),
+  builtIn('fun', 'Divertido y Vibrante', {
+    copyPrompt: 'Tono juvenil y enérgico, con humor y emojis.',
+    imagePrompt: 'Colores vivos y contrastados, formas dinámicas, sensación de movimiento.',
+    negativePrompt: 'paletas apagadas, composiciones estáticas',
+    defaultFormat: '9:16',
+    headingFont: 'Bebas Neue',
+  }),
+  builtIn('corporate', 'Profesional y Corporativo', {
+    copyPrompt: 'Tono formal y confiable; beneficios claros, sin exageraciones.',
+    imagePrompt: 'Oficina o fondo neutro, luz uniforme, composición ordenada.',
+    negativePrompt: 'elementos infantiles, colores estridentes',
+    defaultFormat: '16:9',
+  }),
+];
+
+export const createEmptyStylePreset = (): StylePreset => ({
+  ...BUILT_IN_STYLE_PRESETS[0],
+  id: crypto.randomUUID(),
+  name: 'Nuevo estilo',
+  builtIn: false,
+});
+
+/** An editable copy of any preset, built-in ones included. */
+export const duplicateStylePreset = (preset: StylePreset): StylePreset => ({
+  ...preset,
+  id: crypto.randomUUID(),
+  name: `${preset.name} (copia)`,
+  builtIn: false,
+});
+
+/** Built-in presets first, in their fixed order, then the user's by name. */
+export const listStylePresets = async (): Promise<StylePreset[]> => {
+  const presets = await getAll<StylePreset>(STYLE_PRESETS_STORE);
+  return [...BUILT_IN_STYLE_PRESETS, ...presets.sort((a, b) => a.name.localeCompare(b.name, 'es'))];
+};
+
+export const saveStylePreset = (preset: StylePreset): Promise<void> => {
+  if (preset.builtIn) throw new Error("Los estilos incluidos no se pueden modificar; duplícalo para editarlo.");
+  return putOne(STYLE_PRESETS_STORE, preset);
+};
+
+export const deleteStylePreset = (id: string): Promise<void> => deleteOne(STYLE_PRESETS_STORE, id);
+
+/** Finds a preset by name (as saved with a project), falling back to the automatic one. */
+export const findStylePreset = (presets: StylePreset[], name: string | undefined): StylePreset =>
+  presets.find(p => p.name === name) ?? BUILT_IN_STYLE_PRESETS[0];
+
+export const exportStylePresets = (presets: StylePreset[]): string =>
+  JSON.stringify({
+    type: EXPORT_TYPE,
+    version: EXPORT_VERSION,
+    presets: presets.map(({ id, builtIn, ...preset }) => preset),
+  }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a file written by `exportStylePresets`. Every preset gets a fresh id
+ * and is editable, so a colleague's file never overwrites local presets.
+ */
+export const parseStylePresetImport = (json: string): StylePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  if (!isRecord(data) || data.type !== EXPORT_TYPE || !Array.isArray(data.presets)) {
+    throw new Error("El archivo no contiene estilos exportados desde esta app.");
+  }
+  if (typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new Error("Los estilos fueron exportados con una versión más nueva de la app.");
+  }
+
+  const formats: string[] = AD_FORMATS.map(f => f.id);
+  const text = (value: unknown) => typeof value === 'string' ? value : '';
+  const font = (value: unknown) => typeof value === 'string' && FONT_OPTIONS.includes(value) ? value : '';
+  return data.presets
+    .filter(isRecord)
+    .map((preset): StylePreset => ({
+      ...createEmptyStylePreset(),
+      name: text(preset.name).trim() || 'Estilo importado',
+      thumbnailUrl: typeof preset.thumbnailUrl === 'string' && preset.thumbnailUrl.startsWith('data:image/') ? preset.thumbnailUrl : null,
+      copyPrompt: text(preset.copyPrompt),
+      imagePrompt: text(preset.imagePrompt),
+      negativePrompt: text(preset.negativePrompt),
+      defaultFormat: typeof preset.defaultFormat === 'string' && formats.includes(preset.defaultFormat) ? preset.defaultFormat as AdFormat : DEFAULT_FORMAT,
+      headingFont: font(preset.headingFont),
+      bodyFont: font(preset.bodyFont),
+    }));
+};
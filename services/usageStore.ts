@@ -0,0 +1,57 @@
+import { USAGE_STORE, getAll, putOne } from './db';
+import type { UsageRecord } from '../types';
+import { csvCell } from '../utils/text';
+import { estimateGenerationCost, formatUsd, loadUsageSettings, recordCost, startOfMonth, type ModelPrice } from '../utils/usageCost';
+
+/** Oldest first. */
+export const listUsage = async (): Promise<UsageRecord[]> => {
+  const records = await getAll<UsageRecord>(USAGE_STORE);
+  return records.sort((a, b) => a.time - b.time);
+};
+
+/** Failing to record usage must never fail the call it describes, so errors are only logged. */
+export const recordUsage = async (record: UsageRecord): Promise<void> => {
+  try {
+    await putOne(USAGE_STORE, record);
+  } catch (err) {
+    console.warn("No se pudo registrar el uso de la API:", err);
+  }
+};
+
+/**
+ * Checks the monthly budget before generating `count` ads in `formatCount`
+ * formats each. Returns a warning to confirm with the user when this month's
+ * spend plus the estimate goes over it, otherwise null.
+ */
+export const checkBudget = async (formatCount: number, count = 1): Promise<string | null> => {
+  const { prices, monthlyBudget } = loadUsageSettings();
+  if (monthlyBudget <= 0) return null;
+  const records = await listUsage().catch(() => []);
+  const monthStart = startOfMonth();
+  const spent = records.filter(r => r.time >= monthStart).reduce((sum, r) => sum + recordCost(r, prices), 0);
+  const estimate = estimateGenerationCost(records, prices, formatCount) * count;
+  if (spent + estimate <= monthlyBudget) return null;
+  return spent >= monthlyBudget
+    ? `Este mes ya se gastaron ${formatUsd(spent)}, por encima del presupuesto de ${formatUsd(monthlyBudget)}. ¿Generar de todas formas?`
+    : `Este mes se llevan ${formatUsd(spent)} de un presupuesto de ${formatUsd(monthlyBudget)}, y esto costará unos ${formatUsd(estimate)}. ¿Generar de todas formas?`;
+};
+
+/** One row per call, with its cost at the given prices, for billing spreadsheets. */
+export const exportUsageCsv = (records: UsageRecord[], prices: ModelPrice[], projectName: (projectId: string | null) => string): string => {
+  const header = ['fecha', 'proyecto', 'marca', 'operacion', 'modelo', 'tokens_entrada', 'tokens_salida', 'imagenes', 'latencia_ms', 'estado', 'costo_usd'];
+  const rows = records.map(record => [
+    new Date(record.time).toISOString(),
+    projectName(record.projectId),
+    record.brandName,
+    record.operation,
+    record.model,
+    record.inputTokens,
+    record.outputTokens,
+    record.images,
+    record.latencyMs,
+    record.status,
+    recordCost(record, prices).toFixed(6),
+  ].map(csvCell).join(','));
+  // BOM so Excel reads the file as UTF-8.
+  return '\uFEFF' + [header.join(','), ...rows].join('\n');
+};
@@ -0,0 +1,254 @@
+import type { ApiErrorCategory } from './services/apiErrors';
+
+export type AppStep = 'upload' | 'processing' | 'result' | 'editing';
+
+export type AdFormat = '1:1' | '4:5' | '9:16' | '16:9';
+
+/** A node in an image's edit tree. The root is the generated image (`prompt` is null). */
+export type ImageVersion = {
+  id: string;
+  parentId: string | null;
+  prompt: string | null;
+  createdAt: number;
+  imageUrl: string;
+};
+
+/** Ad text returned by the model as data, to be drawn on top of a text-free image. */
+export type OverlayText = {
+  headline: string;
+  price: string;
+  contact: string;
+  cta: string;
+};
+
+export type TextLayerRole = keyof OverlayText | 'custom';
+
+/**
+ * A piece of text drawn over the image. Position is the center of the text as
+ * a fraction of the image size and `fontSize` is a fraction of the image
+ * width, so a layer looks the same at preview and at export resolution.
+ */
+export type TextLayer = {
+  id: string;
+  role: TextLayerRole;
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: number;
+  color: string;
+  background: string | null;
+  shadow: boolean;
+};
+
+/** A logo drawn over the image; `width` is a fraction of the image width. */
+export type LogoPlacement = {
+  imageUrl: string;
+  x: number;
+  y: number;
+  width: number;
+};
+
+/** One rendering of a generation in a specific format, with its edit history and overlays. */
+export type AdImage = {
+  format: AdFormat;
+  versions: ImageVersion[];
+  currentVersionId: string;
+  layers: TextLayer[];
+  logo: LogoPlacement | null;
+};
+
+/** What the app read from the input photos, after the user's corrections. */
+export type ImageInsights = {
+  /** Text printed on the product or packaging, one item per line. */
+  extractedText: string;
+  product: string;
+  category: string;
+  /** Hex colours the image should be built around; empty to let the model choose. */
+  palette: string[];
+};
+
+export type Platform = 'instagram' | 'facebook' | 'whatsapp' | 'tiktok' | 'google';
+
+/** The user's verdict on a generation, given when comparing variations. */
+export type GenerationReview = {
+  /** 0 when not rated yet, otherwise 1 to 5 stars. */
+  rating: number;
+  /** Shortlisted: exported together with the final pick. */
+  starred: boolean;
+  rejected: boolean;
+  /** The variation chosen for publication; at most one per project. */
+  finalPick: boolean;
+};
+
+/** A single ad: one copy and one image prompt, rendered in one or more formats. */
+export type Generation = {
+  id: string;
+  images: AdImage[];
+  /** English prompt the images were rendered from. Empty for generations made before it was kept. */
+  imagePrompt: string;
+  /** The ad text the layers were laid out from, as last written by the model or applied by the user. */
+  overlayText: OverlayText;
+  /** Generic social copy, without hashtags. */
+  description: string;
+  /** The copy rewritten for each platform, without hashtags. Empty for generations made before it existed. */
+  platformCopy: Partial<Record<Platform, string>>;
+  /** Without the leading `#`. */
+  hashtags: string[];
+  /** ISO 639-1 code of the language the model detected in the inputs. */
+  detectedLanguage: string;
+  /** ISO 639-1 code the copy was requested in, or `auto`. */
+  language: string;
+  review: GenerationReview;
+  /** Accessibility and compliance review; null until the ad has been checked. */
+  checklist: AdChecklist | null;
+};
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export type AdCheckKind = 'alt_text' | 'contrast' | 'legibility' | 'price' | 'phone' | 'offer' | 'disclaimer';
+
+/** One item of an ad's checklist. */
+export type AdCheck = {
+  /** Stable across reviews of the same ad, e.g. `contrast:4:5:<layer id>`, so acknowledgements carry over. */
+  id: string;
+  kind: AdCheckKind;
+  status: CheckStatus;
+  label: string;
+  /** What was found and, when it is not a pass, how to fix it. */
+  detail: string;
+};
+
+/** The result of checking an ad before it is published. */
+export type AdChecklist = {
+  /** Epoch milliseconds. */
+  checkedAt: number;
+  /** Fingerprint of the images and text layers that were checked, to tell when the ad changed since. */
+  signature: string;
+  /** Describes the ad for screen readers; used as the `alt` of its images. */
+  altText: string;
+  checks: AdCheck[];
+  /** Failed checks the user reviewed and chose to export anyway. */
+  acknowledged: string[];
+};
+
+/** What the user gave to create a project, kept so it can be reopened and generate more variations. */
+export type ProjectInputs = {
+  images: File[];
+  prompt: string;
+  /** Name of the style preset. */
+  style: string;
+  formats: AdFormat[];
+  brandKitId: string | null;
+  /** Output language code, see `OUTPUT_LANGUAGES`. */
+  language: string;
+};
+
+export type SavedProject = {
+  id: string;
+  generations: Generation[];
+  /** Epoch milliseconds. */
+  createdAt: number;
+  /** Null for projects saved before inputs were kept. */
+  inputs: ProjectInputs | null;
+  tags: string[];
+  /** Client folder, empty when the project is not filed anywhere. */
+  folder: string;
+};
+
+/** The work in progress of the single-ad workflow, checkpointed so a reload or crash can resume it. */
+export type SessionDraft = {
+  /** Epoch milliseconds. */
+  savedAt: number;
+  step: 'upload' | 'result';
+  /** A model call was running when it was saved, so its result was lost. */
+  interrupted: boolean;
+  inputs: ProjectInputs;
+  insights: ImageInsights | null;
+  /** The project the results were autosaved to; null before the first result. */
+  projectId: string | null;
+  selectedGenerationId: string | null;
+  editPrompt: string;
+};
+
+/** Lightweight view of a saved project used by the history grid. */
+export type ProjectSummary = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  description: string;
+  /** Every description, hashtag, tag and the folder, lowercased, for the history search. */
+  searchText: string;
+  tags: string[];
+  folder: string;
+  generationCount: number;
+  previewImage: string;
+};
+
+export type StorageUsage = {
+  usage: number;
+  quota: number;
+};
+
+/** How an ad should look and sound, chosen on the upload step. */
+export type StylePreset = {
+  id: string;
+  name: string;
+  /** Example of the look, as a small data URL. */
+  thumbnailUrl: string | null;
+  /** Extra instructions for the copy. */
+  copyPrompt: string;
+  /** Extra instructions for the image prompt. */
+  imagePrompt: string;
+  /** What the image must avoid. */
+  negativePrompt: string;
+  /** Format selected when the preset is picked. */
+  defaultFormat: AdFormat;
+  /** Fonts for the text layers; empty to keep the brand kit's or the default one. */
+  headingFont: string;
+  bodyFont: string;
+  /** Shipped with the app: can be duplicated but not edited or deleted. */
+  builtIn: boolean;
+};
+
+/** Reusable identity of a client, applied to every ad generated while it is active. */
+export type BrandKit = {
+  id: string;
+  name: string;
+  logoUrl: string | null;
+  palette: string[];
+  headingFont: string;
+  bodyFont: string;
+  tagline: string;
+  phone: string;
+  whatsapp: string;
+  address: string;
+  tone: string;
+  /** Legal text every ad of the brand has to carry, e.g. a health warning; empty for none. */
+  disclaimer: string;
+};
+
+export type UsageOperation = 'analyze' | 'copy' | 'image' | 'edit' | 'review';
+
+/** One attempt at a provider call, kept to know what each project and client costs. */
+export type UsageRecord = {
+  id: string;
+  /** Epoch milliseconds. */
+  time: number;
+  /** Null for calls made before there is a project, such as reading the input photos. */
+  projectId: string | null;
+  /** The brand kit active for the call; its name is copied so deleted kits still show up. */
+  brandKitId: string | null;
+  brandName: string;
+  operation: UsageOperation;
+  /** As reported by the provider, or the provider's name when the call failed before reporting. */
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Images produced. */
+  images: number;
+  latencyMs: number;
+  /** `ok`, or the category of the error it failed with. */
+  status: 'ok' | ApiErrorCategory;
+};
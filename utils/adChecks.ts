@@ -0,0 +1,415 @@
+// Accessibility and compliance review of a finished ad. Contrast and
+// legibility are measured locally from the pixels behind each text layer; the
+// facts (prices, phone numbers, the offer) and the disclaimers are checked
+// against the text the model read in the rendered images.
+
+import type { AdCheck, AdChecklist, AdImage, BrandKit, CheckStatus, Generation, TextLayer } from '../types';
+import { loadImage } from './fileUtils';
+import { currentImageUrl } from './versionTree';
+import { ROLE_LABELS, measureLayer } from './textLayers';
+
+// Pixel checks run on a copy this size; plenty to judge a background.
+const CHECK_SIZE = 512;
+// WCAG 2.1 AA minimum contrast for normal and for large text.
+const MIN_CONTRAST = 4.5;
+const MIN_CONTRAST_LARGE = 3;
+// A text shadow helps, so with one a ratio this close to the minimum is only a warning.
+const SHADOW_TOLERANCE = 0.7;
+// Ads are mostly seen on a phone about 360 CSS pixels wide; sizes are judged there.
+const PHONE_WIDTH = 360;
+const MIN_TEXT_PX = 9;
+// WCAG large text: 24 px, or 18.66 px when bold.
+const LARGE_TEXT_PX = 24;
+const LARGE_BOLD_TEXT_PX = 18.66;
+// Standard deviation of the luminance behind a text above which the background is too busy to read it on.
+const MAX_BACKGROUND_SPREAD = 0.2;
+// Share of the background taken as its worst case, so a few stray pixels do not fail a layer.
+const WORST_SHARE = 0.1;
+
+const STATUS_ORDER: CheckStatus[] = ['pass', 'warn', 'fail'];
+const worst = (statuses: CheckStatus[]): CheckStatus =>
+  statuses.reduce<CheckStatus>((a, b) => STATUS_ORDER.indexOf(b) > STATUS_ORDER.indexOf(a) ? b : a, 'pass');
+
+const LINEAR = Array.from({ length: 256 }, (_, c) => {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+});
+
+const luminance = (r: number, g: number, b: number) => 0.2126 * LINEAR[r] + 0.7152 * LINEAR[g] + 0.0722 * LINEAR[b];
+
+const contrastRatio = (a: number, b: number) => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+/** Any CSS colour, resolved by the canvas itself. */
+const colorLuminance = (ctx: CanvasRenderingContext2D, color: string): number => {
+  ctx.fillStyle = '#000000';
+  ctx.fillStyle = color;
+  const resolved = String(ctx.fillStyle);
+  const [r, g, b] = resolved.startsWith('#')
+    ? [1, 3, 5].map(i => parseInt(resolved.slice(i, i + 2), 16))
+    : (resolved.match(/\d+(\.\d+)?/g) ?? ['0', '0', '0']).slice(0, 3).map(Number);
+  return luminance(r, g, b);
+};
+
+const layerName = (layer: TextLayer) =>
+  layer.role === 'custom' ? `"${layer.text.length > 24 ? `${layer.text.slice(0, 24)}…` : layer.text}"` : ROLE_LABELS[layer.role];
+
+type LayerMeasure = {
+  layer: TextLayer;
+  contrast: number;
+  required: number;
+  /** Size on a phone screen, in CSS pixels. */
+  phonePx: number;
+  busy: boolean;
+  cutOff: boolean;
+};
+
+const measureImage = async (image: AdImage): Promise<LayerMeasure[]> => {
+  const img = await loadImage(currentImageUrl(image));
+  const scale = Math.min(1, CHECK_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  const width = canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  // Measuring with a fallback font would give the wrong box.
+  await Promise.all(image.layers.map(layer => document.fonts.load(`${layer.fontWeight} 16px "${layer.fontFamily}"`, layer.text)));
+
+  return image.layers.filter(layer => layer.text.trim()).map(layer => {
+    const box = measureLayer(ctx, layer, width, height);
+    const cutOff = box.left < 0 || box.top < 0 || box.left + box.width > width || box.top + box.height > height;
+    const phonePx = layer.fontSize * PHONE_WIDTH;
+    const required = phonePx >= (layer.fontWeight >= 700 ? LARGE_BOLD_TEXT_PX : LARGE_TEXT_PX) ? MIN_CONTRAST_LARGE : MIN_CONTRAST;
+    const text = colorLuminance(ctx, layer.color);
+    if (layer.background) {
+      return { layer, contrast: contrastRatio(text, colorLuminance(ctx, layer.background)), required, phonePx, busy: false, cutOff };
+    }
+
+    const behind: number[] = [];
+    const x0 = Math.max(0, Math.floor(box.left));
+    const y0 = Math.max(0, Math.floor(box.top));
+    const x1 = Math.min(width, Math.ceil(box.left + box.width));
+    const y1 = Math.min(height, Math.ceil(box.top + box.height));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const i = (y * width + x) * 4;
+        behind.push(luminance(data[i], data[i + 1], data[i + 2]));
+      }
+    }
+    if (behind.length === 0) return { layer, contrast: 0, required, phonePx, busy: false, cutOff: true };
+    const ratios = behind.map(value => contrastRatio(text, value)).sort((a, b) => a - b);
+    const mean = behind.reduce((sum, value) => sum + value, 0) / behind.length;
+    const spread = Math.sqrt(behind.reduce((sum, value) => sum + (value - mean) ** 2, 0) / behind.length);
+    return {
+      layer,
+      contrast: ratios[Math.floor(ratios.length * WORST_SHARE)],
+      required,
+      phonePx,
+      busy: spread > MAX_BACKGROUND_SPREAD,
+      cutOff,
+    };
+  });
+};
+
+const formatRatio = (ratio: number) => `${ratio.toLocaleString('es', { maximumFractionDigits: 1 })}:1`;
+
+/**
+ * Contrast and legibility of every text layer, from the pixels of the image
+ * behind it. A single passing check of each kind when every layer passes;
+ * otherwise one check per format and layer that falls short, with ids such as
+ * `contrast:4:5:<layer id>`, so acknowledging one layer does not excuse
+ * another.
+ */
+export const checkTextLayers = async (images: AdImage[]): Promise<AdCheck[]> => {
+  const measures = await Promise.all(images.map(async image => ({ format: image.format, layers: await measureImage(image) })));
+  const prefix = (format: string) => images.length > 1 ? `${format} · ` : '';
+  const all = measures.flatMap(({ format, layers }) => layers.map(measure => ({ format, ...measure })));
+  if (all.length === 0) return [];
+
+  const contrastStatus = ({ contrast, required, layer }: LayerMeasure): CheckStatus =>
+    contrast >= required ? 'pass' : layer.shadow && contrast >= required * SHADOW_TOLERANCE ? 'warn' : 'fail';
+  const lowContrast = all.filter(measure => contrastStatus(measure) !== 'pass');
+  const lowest = all.reduce((a, b) => b.contrast / b.required < a.contrast / a.required ? b : a);
+  const contrast: AdCheck[] = lowContrast.length === 0
+    ? [{
+        id: 'contrast',
+        kind: 'contrast',
+        status: 'pass',
+        label: 'Contraste del texto',
+        detail: `Todos los textos tienen contraste suficiente (el más bajo: ${prefix(lowest.format)}${layerName(lowest.layer)}, ${formatRatio(lowest.contrast)}).`,
+      }]
+    : lowContrast.map(m => ({
+        id: `contrast:${m.format}:${m.layer.id}`,
+        kind: 'contrast',
+        status: contrastStatus(m),
+        label: `Contraste del texto · ${prefix(m.format)}${layerName(m.layer)}`,
+        detail: `${formatRatio(m.contrast)}, mínimo ${formatRatio(m.required)}. Cambia el color del texto, añádele un fondo o muévelo a una zona más uniforme.`,
+      }));
+
+  const legibility: AdCheck[] = all.flatMap(m => {
+    const problems = [
+      m.cutOff && { status: 'fail' as const, text: 'se sale de la imagen' },
+      m.phonePx < MIN_TEXT_PX && { status: 'warn' as const, text: `se verá de ${Math.round(m.phonePx)} px en un teléfono` },
+      m.busy && { status: 'warn' as const, text: 'está sobre un fondo recargado' },
+    ].filter((problem): problem is { status: 'fail' | 'warn'; text: string } => Boolean(problem));
+    if (problems.length === 0) return [];
+    return [{
+      id: `legibility:${m.format}:${m.layer.id}`,
+      kind: 'legibility' as const,
+      status: worst(problems.map(problem => problem.status)),
+      label: `Legibilidad · ${prefix(m.format)}${layerName(m.layer)}`,
+      detail: `${problems.map(problem => problem.text).join('; ')}. Agranda o mueve el texto, o dale un fondo.`.replace(/^./, c => c.toUpperCase()),
+    }];
+  });
+  if (legibility.length === 0) {
+    legibility.push({
+      id: 'legibility',
+      kind: 'legibility',
+      status: 'pass',
+      label: 'Legibilidad',
+      detail: 'Los textos caben en la imagen, tienen un tamaño legible en un teléfono y un fondo despejado.',
+    });
+  }
+  return [...contrast, ...legibility];
+};
+
+type Fact = { text: string; key: string };
+
+const PRICE_PATTERN = /(?:US\$|[$€£]|S\/\.?|Bs\.?|Gs\.?|USD|EUR)\s?\d[\d.,]*|\d[\d.,]*\s?(?:€|USD|EUR|soles|pesos|euros|Gs\.?)/gi;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{5,}\d/g;
+const OFFER_PATTERN = /\d{1,3}\s?%|\b\d\s?[x×]\s?\d\b|env[ií]o gratis|gratis/gi;
+
+// Prices compare by their digits, with zero cents dropped: "$ 19.990" and "$19,990.00" are the same price.
+const priceKey = (text: string) => text.replace(/[.,]00(?!\d)/, '').replace(/\D/g, '');
+const digits = (text: string) => text.replace(/\D/g, '');
+const offerKey = (text: string) => text.toLowerCase().replace(/\s/g, '').replace(/×/g, 'x').replace(/í/g, 'i');
+
+const extract = (text: string, pattern: RegExp, key: (match: string) => string): Fact[] => {
+  const facts = new Map<string, Fact>();
+  for (const match of text.match(pattern) ?? []) {
+    const fact = { text: match.trim().replace(/[.,]$/, ''), key: key(match) };
+    if (fact.key && !facts.has(fact.key)) facts.set(fact.key, fact);
+  }
+  return [...facts.values()];
+};
+
+export const extractPrices = (text: string): Fact[] => extract(text, PRICE_PATTERN, priceKey);
+
+/** Runs of at least seven digits that are not part of a price. */
+export const extractPhones = (text: string): Fact[] => {
+  const withoutPrices = text.replace(PRICE_PATTERN, ' ');
+  return extract(withoutPrices, PHONE_PATTERN, digits).filter(fact => fact.key.length >= 7);
+};
+
+export const extractOffers = (text: string): Fact[] => extract(text, OFFER_PATTERN, offerKey);
+
+// The same number written with or without the country code.
+const samePhone = (a: string, b: string) => a.endsWith(b.slice(-8)) || b.endsWith(a.slice(-8));
+
+const formatList = (items: string[]) => items.map(item => `"${item}"`).join(', ');
+
+type FactRule = {
+  kind: 'price' | 'phone' | 'offer';
+  label: string;
+  extract: (text: string) => Fact[];
+  found: (fact: Fact, visible: string) => boolean;
+};
+
+const FACT_RULES: FactRule[] = [
+  { kind: 'price', label: 'Precio', extract: extractPrices, found: (fact, visible) => extractPrices(visible).some(seen => seen.key === fact.key) },
+  { kind: 'phone', label: 'Teléfono', extract: extractPhones, found: (fact, visible) => extractPhones(visible).some(seen => samePhone(seen.key, fact.key)) },
+  { kind: 'offer', label: 'Oferta', extract: extractOffers, found: (fact, visible) => offerKey(visible).includes(fact.key) },
+];
+
+/**
+ * The prices, phone numbers and offer the user asked for, and those of the
+ * ad's own text, must be legible in every format exactly as written. Kinds
+ * with nothing to look for get no check.
+ */
+export const checkFacts = (expectedText: string, images: { format: string; visibleText: string }[]): AdCheck[] =>
+  FACT_RULES.flatMap((rule): AdCheck[] => {
+    const expected = rule.extract(expectedText);
+    if (expected.length === 0) return [];
+    const missing = images.flatMap(image => expected
+      .filter(fact => !rule.found(fact, image.visibleText))
+      .map(fact => ({ fact, image })));
+    if (missing.length === 0) {
+      return [{ id: rule.kind, kind: rule.kind, status: 'pass', label: rule.label, detail: `Se lee ${formatList(expected.map(fact => fact.text))} en el anuncio.` }];
+    }
+    const details = missing.map(({ fact, image }) => {
+      const seen = rule.extract(image.visibleText).map(other => other.text);
+      const where = images.length > 1 ? ` en ${image.format}` : '';
+      return `"${fact.text}" no se lee${where}${seen.length > 0 ? ` (se lee ${formatList(seen)})` : ''}`;
+    });
+    return [{
+      id: rule.kind,
+      kind: rule.kind,
+      status: 'fail',
+      label: rule.label,
+      detail: `${details.join('; ')}. Corrige el texto del anuncio o agrándalo hasta que se lea.`,
+    }];
+  });
+
+type DisclaimerRule = {
+  id: string;
+  label: string;
+  /** What in the ad makes the disclaimer necessary. */
+  trigger: RegExp;
+  /** What counts as the disclaimer being there. */
+  required: RegExp;
+  hint: string;
+};
+
+/**
+ * Common legal requirements for small-business ads. They are a reminder, not
+ * legal advice: what is required depends on the country and the product.
+ */
+export const DISCLAIMER_RULES: DisclaimerRule[] = [
+  {
+    id: 'promotion',
+    label: 'Condiciones de la oferta',
+    trigger: /\d\s?%|\b\d\s?[x×]\s?\d\b|descuento|oferta|promoci[oó]n|gratis|sorteo|liquidaci[oó]n/i,
+    required: /v[aá]lid[oa]|vigencia|hasta (el )?\d|hasta agotar|stock|condiciones|bases|restricciones/i,
+    hint: 'Indica la vigencia o las condiciones, p. ej. "Válido hasta el 30/11 o hasta agotar stock".',
+  },
+  {
+    id: 'alcohol',
+    label: 'Advertencia sobre el alcohol',
+    trigger: /\b(cervezas?|vinos?|pisco|ron|whisky|vodka|licor(es)?|tequila|gin|espumantes?|bebidas? alcoh[oó]licas?)\b/i,
+    required: /moderaci[oó]n|menores de (18|edad)|\+ ?18|mayores de (18|edad)/i,
+    hint: 'Añade una advertencia como "Bebe con moderación. Prohibida su venta a menores de 18 años".',
+  },
+  {
+    id: 'credit',
+    label: 'Costo del crédito',
+    trigger: /\bcuotas\b|cr[eé]dito|financiamiento|pr[eé]stamo/i,
+    required: /\b(CAE|TAE|TEA|TCEA|CFT)\b|costo total|tasa de inter[eé]s/i,
+    hint: 'Si ofreces cuotas o crédito, indica la tasa o el costo total, p. ej. "CAE 25,3 %".',
+  },
+];
+
+// Punctuation and accents are often lost in a reading; compare letters and digits only.
+const looseText = (text: string) => text.toLowerCase().normalize('NFD').replace(/[^a-z0-9]/g, '');
+
+/**
+ * Disclaimers the ad's content calls for, and the brand's own legal text.
+ * One shown in the image passes; one only in the post copy is a warning,
+ * since printed or forwarded images go without it.
+ */
+export const checkDisclaimers = (
+  adText: string,
+  visibleText: string,
+  copyText: string,
+  brandKit?: BrandKit | null
+): AdCheck[] => {
+  const checks: AdCheck[] = DISCLAIMER_RULES.filter(rule => rule.trigger.test(adText)).map(rule => {
+    const status: CheckStatus = rule.required.test(visibleText) ? 'pass' : rule.required.test(copyText) ? 'warn' : 'fail';
+    return {
+      id: `disclaimer:${rule.id}`,
+      kind: 'disclaimer',
+      status,
+      label: rule.label,
+      detail: status === 'pass' ? 'Está en la imagen.'
+        : status === 'warn' ? `Solo está en el texto de la publicación. ${rule.hint}`
+        : `Falta. ${rule.hint}`,
+    };
+  });
+  const disclaimer = brandKit?.disclaimer.trim();
+  if (disclaimer) {
+    const wanted = looseText(disclaimer);
+    const status: CheckStatus = looseText(visibleText).includes(wanted) ? 'pass' : looseText(copyText).includes(wanted) ? 'warn' : 'fail';
+    checks.push({
+      id: 'disclaimer:brand',
+      kind: 'disclaimer',
+      status,
+      label: `Texto legal de ${brandKit!.name}`,
+      detail: status === 'pass' ? 'Está en la imagen y se lee.'
+        : status === 'warn' ? 'Solo está en el texto de la publicación, o en la imagen no se lee entero. Añádelo a la imagen.'
+        : `Falta "${disclaimer}". Añádelo a la imagen.`,
+    });
+  }
+  if (checks.length === 0) {
+    checks.push({ id: 'disclaimer', kind: 'disclaimer', status: 'pass', label: 'Avisos legales', detail: 'No se detectó nada que requiera un aviso legal.' });
+  }
+  return checks;
+};
+
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/** Changes whenever something the review looked at changes: an image version, a text layer, the logo or the copy. */
+export const checklistSignature = (generation: Generation): string => hashString(JSON.stringify([
+  generation.images.map(image => [image.format, image.currentVersionId, image.layers, image.logo?.imageUrl.length ?? 0, image.logo?.x, image.logo?.y]),
+  generation.description,
+  generation.platformCopy,
+]));
+
+export type ChecklistState = 'unchecked' | 'outdated' | CheckStatus;
+
+/** Acknowledged failures count as warnings. */
+export const checklistState = (generation: Generation): ChecklistState => {
+  const { checklist } = generation;
+  if (!checklist) return 'unchecked';
+  if (checklist.signature !== checklistSignature(generation)) return 'outdated';
+  return worst(checklist.checks.map(check =>
+    check.status === 'fail' && checklist.acknowledged.includes(check.id) ? 'warn' : check.status));
+};
+
+/**
+ * Puts a review together. Failures the user had already acknowledged stay
+ * acknowledged when the same check fails again.
+ */
+export const createChecklist = (
+  generation: Generation,
+  altText: string,
+  checks: AdCheck[],
+  previous: AdChecklist | null
+): AdChecklist => ({
+  checkedAt: Date.now(),
+  signature: checklistSignature(generation),
+  altText,
+  checks: [
+    { id: 'alt_text', kind: 'alt_text', status: altText ? 'pass' : 'warn', label: 'Texto alternativo', detail: altText || 'No se pudo describir el anuncio; escribe tú el texto alternativo al publicarlo.' },
+    ...checks,
+  ],
+  acknowledged: (previous?.acknowledged ?? []).filter(id => checks.some(check => check.id === id && check.status === 'fail')),
+});
+
+/**
+ * What stands between an ad and its export: failed checks block it until
+ * fixed or acknowledged; warnings, changes since the review and a missing
+ * review only need confirming.
+ */
+export const exportIssues = (generation: Generation): { blocking: string[]; warnings: string[] } => {
+  const state = checklistState(generation);
+  if (state === 'unchecked') return { blocking: [], warnings: ['Aún no se ha revisado.'] };
+  if (state === 'outdated') return { blocking: [], warnings: ['Cambió desde la última revisión.'] };
+  const { checks, acknowledged } = generation.checklist!;
+  return {
+    blocking: checks.filter(check => check.status === 'fail' && !acknowledged.includes(check.id)).map(check => `${check.label}: ${check.detail}`),
+    warnings: checks.filter(check => check.status === 'warn' || acknowledged.includes(check.id)).map(check => `${check.label}: ${check.detail}`),
+  };
+};
+
+/**
+ * Asks before ads leave the app, with the same rules wherever they are
+ * exported from: unacknowledged failed checks stop the export, anything else
+ * short of a passed review needs confirming. `label` names each ad in the
+ * messages when several are exported at once, and can be empty.
+ */
+export const confirmExport = (ads: { label: string; generation: Generation }[]): boolean => {
+  const issues = ads.map(({ label, generation }) => ({ prefix: label ? `${label} · ` : '', ...exportIssues(generation) }));
+  const blocking = issues.flatMap(({ prefix, blocking }) => blocking.map(line => prefix + line));
+  if (blocking.length > 0) {
+    alert(`No se puede exportar todavía:\n\n${blocking.join('\n\n')}\n\nCorrígelo, o elige "Exportar de todas formas" en la revisión del anuncio.`);
+    return false;
+  }
+  const warnings = issues.flatMap(({ prefix, warnings }) => warnings.map(line => prefix + line));
+  return warnings.length === 0 || confirm(`Antes de exportar, ten en cuenta:\n\n${warnings.join('\n\n')}\n\n¿Exportar de todas formas?`);
+};
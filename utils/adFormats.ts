@@ -0,0 +1,60 @@
+import type { AdFormat } from '../types';
+import { loadImage } from './fileUtils';
+
+export type AdFormatInfo = {
+  id: AdFormat;
+  label: string;
+  usage: string;
+  width: number;
+  height: number;
+};
+
+export const AD_FORMATS: AdFormatInfo[] = [
+  { id: '1:1', label: 'Post cuadrado', usage: 'Instagram / Facebook', width: 1, height: 1 },
+  { id: '4:5', label: 'Post vertical', usage: 'Feed de Instagram', width: 4, height: 5 },
+  { id: '9:16', label: 'Historia / Reel', usage: 'Stories, Reels, TikTok', width: 9, height: 16 },
+  { id: '16:9', label: 'Banner web', usage: 'Web, YouTube, Facebook', width: 16, height: 9 },
+];
+
+export const DEFAULT_FORMAT: AdFormat = '1:1';
+
+export const getFormatInfo = (format: AdFormat): AdFormatInfo =>
+  AD_FORMATS.find(f => f.id === format) ?? AD_FORMATS[0];
+
+/** CSS `aspect-ratio` value for a format, e.g. `9 / 16`. */
+export const formatAspectRatio = (format: AdFormat): string => {
+  const { width, height } = getFormatInfo(format);
+  return `${width} / ${height}`;
+};
+
+/** Safe for file names: `9:16` becomes `9x16`. */
+export const formatSlug = (format: AdFormat): string => format.replace(':', 'x');
+
+/**
+ * Center-crops an image to the given format. Used when a model cannot
+ * produce a ratio natively and we ask for the closest one instead.
+ */
+export const cropToFormat = async (dataUrl: string, format: AdFormat, mimeType = 'image/jpeg'): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const { width, height } = getFormatInfo(format);
+  const targetRatio = width / height;
+  const sourceRatio = img.naturalWidth / img.naturalHeight;
+
+  let cropWidth = img.naturalWidth;
+  let cropHeight = img.naturalHeight;
+  if (sourceRatio > targetRatio) {
+    cropWidth = Math.round(img.naturalHeight * targetRatio);
+  } else {
+    cropHeight = Math.round(img.naturalWidth / targetRatio);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cropWidth;
+  canvas.height = cropHeight;
+  canvas.getContext('2d')!.drawImage(
+    img,
+    (img.naturalWidth - cropWidth) / 2, (img.naturalHeight - cropHeight) / 2, cropWidth, cropHeight,
+    0, 0, cropWidth, cropHeight
+  );
+  return canvas.toDataURL(mimeType, 0.92);
+};
@@ -0,0 +1,117 @@
+import { fromCsvCell, stripAccents } from './text';
+
+/** One product of a client catalog, as read from the CSV/JSON file. */
+export type CatalogRow = {
+  name: string;
+  price: string;
+  description: string;
+  /** File names of the product photos, matched against the uploaded folder. */
+  images: string[];
+};
+
+// Clients send catalogs from spreadsheets in Spanish or English.
+const COLUMN_ALIASES: Record<keyof CatalogRow, string[]> = {
+  name: ['name', 'nombre', 'producto', 'product', 'titulo', 'title'],
+  price: ['price', 'precio'],
+  description: ['description', 'descripcion', 'detalle', 'details'],
+  images: ['image', 'images', 'imagen', 'imagenes', 'foto', 'fotos', 'filename', 'file', 'archivo'],
+};
+
+const normalizeKey = (key: string) => stripAccents(key.trim().toLowerCase()).replace(/[^a-z]/g, '');
+
+/** Several photos can be listed in one cell, separated by `|`; file names may contain commas. */
+const splitImages = (value: string) => value.split('|').map(name => name.trim()).filter(Boolean);
+
+/** Strips folders so `fotos/café.jpg` matches the uploaded `Café.JPG`. */
+export const imageKey = (fileName: string) => stripAccents(fileName.split(/[\\/]/).pop() ?? '').trim().toLowerCase();
+
+const toRow = (record: Record<string, unknown>): CatalogRow => {
+  const byKey = new Map(Object.entries(record).map(([key, value]) => [normalizeKey(key), value]));
+  const field = (column: keyof CatalogRow) => {
+    const value = COLUMN_ALIASES[column].map(alias => byKey.get(alias)).find(v => v !== undefined && v !== null);
+    return Array.isArray(value) ? value.map(String).join('|') : String(value ?? '').trim();
+  };
+  return {
+    name: field('name'),
+    price: field('price'),
+    description: field('description'),
+    images: splitImages(field('images')),
+  };
+};
+
+/** RFC 4180 CSV with `,` or `;` (Excel in Spanish locales) as delimiter. */
+const parseCsvRecords = (text: string): string[][] => {
+  const firstLine = text.split('\n', 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter(r => r.some(cell => cell.trim()));
+};
+
+/**
+ * Reads a catalog exported as CSV (header row required) or as a JSON array
+ * of objects. Column names are matched loosely; rows without a name are dropped.
+ */
+export const parseCatalog = (text: string, fileName: string): CatalogRow[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  let records: Record<string, unknown>[];
+
+  if (/\.json$/i.test(fileName) || /^\s*[[{]/.test(content)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error('El archivo JSON del catálogo no es válido.');
+    }
+    const list = Array.isArray(parsed) ? parsed : (parsed as { products?: unknown })?.products;
+    if (!Array.isArray(list)) throw new Error('El JSON del catálogo debe ser una lista de productos.');
+    records = list.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+  } else {
+    const [header, ...rows] = parseCsvRecords(content);
+    if (!header) throw new Error('El archivo CSV del catálogo está vacío.');
+    // A batch summary exported by the app can be imported again: its cells carry csvCell's formula prefix.
+    records = rows.map(row => Object.fromEntries(header.map((column, i) => [column, fromCsvCell(row[i] ?? '')])));
+  }
+
+  const catalog = records.map(toRow).filter(row => row.name);
+  if (catalog.length === 0) {
+    throw new Error('No se encontraron productos. El catálogo necesita al menos una columna "nombre" (o "name").');
+  }
+  return catalog;
+};
+
+/** The context the model gets for a catalog row, in place of the free-text prompt of single mode. */
+export const catalogRowPrompt = (row: CatalogRow): string =>
+  [
+    `Producto: ${row.name}`,
+    row.price && `Precio: ${row.price}`,
+    row.description && `Descripción: ${row.description}`,
+  ].filter(Boolean).join('\n');
@@ -1,3 +1,5 @@
+import { stripAccents } from './text';
+
 
 export const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: string }> => {
   return new Promise((resolve, reject) => {
@@ -11,3 +13,82 @@ export const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: st
     reader.onerror = (error) => reject(error);
   });
 };
+
+export const dataUrlToBase64 = (dataUrl: string): { base64: string; mimeType: string } => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  return { base64, mimeType };
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("No se pudo cargar la imagen."));
+    img.src = src;
+  });
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("No se pudo codificar la imagen.")), mimeType, quality);
+  });
+};
+
+/** Scales an image down so its longest side is at most `maxSize` pixels and re-encodes it (JPEG by default). */
+export const createThumbnail = async (blob: Blob, maxSize = 320, mimeType = 'image/jpeg'): Promise<Blob> => {
+  const objectUrl = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(objectUrl);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await canvasToBlob(canvas, mimeType, 0.8);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+/** File extension for an image MIME type, `jpg` when unknown. */
+export const imageExtension = (mimeType: string): string => IMAGE_EXTENSIONS[mimeType] ?? 'jpg';
+
+/** Triggers a browser download of a data URL, object URL or Blob. */
+export const downloadFile = (source: string | Blob, filename: string) => {
+  const href = typeof source === 'string' ? source : URL.createObjectURL(source);
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  if (typeof source !== 'string') setTimeout(() => URL.revokeObjectURL(href), 0);
+};
+
+/** Lowercase ASCII file-name fragment: `Café con Leche` → `cafe-con-leche`. */
+export const slugify = (text: string): string =>
+  stripAccents(text.toLowerCase()).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
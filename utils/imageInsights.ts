@@ -0,0 +1,123 @@
+// Local checks on the input photos, computed from their pixels before any
+// model call: the dominant colours and the obvious quality problems.
+
+export type QualityWarning = 'low_resolution' | 'dark' | 'blurry';
+
+export const QUALITY_WARNINGS: Record<QualityWarning, { label: string; hint: string }> = {
+  low_resolution: { label: 'Resolución baja', hint: 'Usa la foto original en lugar de una captura o una imagen de WhatsApp.' },
+  dark: { label: 'Muy oscura', hint: 'Toma la foto con más luz, idealmente luz natural.' },
+  blurry: { label: 'Desenfocada', hint: 'Apoya el teléfono y toca el producto en la pantalla para enfocar.' },
+};
+
+export type PhotoReport = {
+  width: number;
+  height: number;
+  /** Hex colours, most common first. */
+  palette: string[];
+  warnings: QualityWarning[];
+};
+
+const PALETTE_SAMPLE = 64;
+const SHARPNESS_SAMPLE = 512;
+const MIN_SHORT_SIDE = 600;
+const MIN_BRIGHTNESS = 70;
+// Variance of the Laplacian at 512 px: focused product photos land well above
+// a few hundred, clearly blurred ones below this.
+const MIN_SHARPNESS = 60;
+// Colours closer than this (RGB distance) count as the same palette entry.
+const MIN_COLOR_DISTANCE = 48;
+
+const toHex = (r: number, g: number, b: number) =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+const pixels = (bitmap: ImageBitmap, maxSize: number): ImageData => {
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const luma = (data: Uint8ClampedArray, i: number) => data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+
+/**
+ * Buckets every pixel into a 16×16×16 colour cube, then takes the fullest
+ * buckets (averaged) while skipping colours too close to one already taken.
+ */
+const extractPalette = (samples: ImageData[], count = 5): string[] => {
+  const buckets = new Map<number, { n: number; r: number; g: number; b: number }>();
+  for (const { data } of samples) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue;
+      const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+      const bucket = buckets.get(key) ?? { n: 0, r: 0, g: 0, b: 0 };
+      bucket.n++;
+      bucket.r += data[i];
+      bucket.g += data[i + 1];
+      bucket.b += data[i + 2];
+      buckets.set(key, bucket);
+    }
+  }
+  const palette: string[] = [];
+  for (const { n, r, g, b } of [...buckets.values()].sort((a, b) => b.n - a.n)) {
+    const color = [r / n, g / n, b / n];
+    const distinct = palette.every(hex => Math.hypot(...fromHex(hex).map((c, i) => c - color[i])) >= MIN_COLOR_DISTANCE);
+    if (distinct) palette.push(toHex(color[0], color[1], color[2]));
+    if (palette.length === count) break;
+  }
+  return palette;
+};
+
+const brightness = ({ data }: ImageData) => {
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) total += luma(data, i);
+  return total / (data.length / 4);
+};
+
+/** Variance of the 4-neighbour Laplacian of the grayscale image: low means few sharp edges. */
+const sharpness = ({ data, width, height }: ImageData) => {
+  const gray = new Float32Array(width * height);
+  for (let p = 0; p < gray.length; p++) gray[p] = luma(data, p * 4);
+  let sum = 0;
+  let sumSquares = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const value = gray[p - 1] + gray[p + 1] + gray[p - width] + gray[p + width] - 4 * gray[p];
+      sum += value;
+      sumSquares += value * value;
+      n++;
+    }
+  }
+  return n === 0 ? 0 : sumSquares / n - (sum / n) ** 2;
+};
+
+/** Palette and quality warnings for one photo, plus the small sample used for the palette. */
+const inspectPhoto = async (photo: Blob): Promise<PhotoReport & { sample: ImageData }> => {
+  const bitmap = await createImageBitmap(photo);
+  try {
+    const sample = pixels(bitmap, PALETTE_SAMPLE);
+    const warnings: QualityWarning[] = [];
+    if (Math.min(bitmap.width, bitmap.height) < MIN_SHORT_SIDE) warnings.push('low_resolution');
+    if (brightness(sample) < MIN_BRIGHTNESS) warnings.push('dark');
+    if (sharpness(pixels(bitmap, SHARPNESS_SAMPLE)) < MIN_SHARPNESS) warnings.push('blurry');
+    return { width: bitmap.width, height: bitmap.height, palette: extractPalette([sample]), warnings, sample };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** One report per photo and the palette of all of them together. */
+export const inspectPhotos = async (photos: Blob[]): Promise<{ reports: PhotoReport[]; palette: string[] }> => {
+  const inspected: (PhotoReport & { sample: ImageData })[] = [];
+  for (const photo of photos) inspected.push(await inspectPhoto(photo));
+  return {
+    reports: inspected.map(({ sample, ...report }) => report),
+    palette: extractPalette(inspected.map(report => report.sample)),
+  };
+};
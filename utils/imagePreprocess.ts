@@ -0,0 +1,186 @@
+import { canvasToBlob, imageExtension } from './fileUtils';
+
+// Every photo the user adds is decoded, turned upright, scaled down and
+// re-encoded before it is kept, so the model gets reasonable payloads and the
+// history does not fill up with 12 MB phone pictures. Re-encoding also drops
+// the EXIF block, GPS position included.
+
+const numberFromEnv = (value: string | undefined, fallback: number, max = Infinity) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 && parsed <= max ? parsed : fallback;
+};
+
+export const UPLOAD_SETTINGS = {
+  /** Longest side, in pixels, after downscaling. */
+  maxDimension: numberFromEnv(import.meta.env.VITE_UPLOAD_MAX_DIMENSION, 2048),
+  /** Encoder quality, 0–1. */
+  quality: numberFromEnv(import.meta.env.VITE_UPLOAD_QUALITY, 0.85, 1),
+  mimeType: import.meta.env.VITE_UPLOAD_FORMAT === 'jpeg' ? 'image/jpeg' : 'image/webp',
+  /** Files larger than this are refused before decoding. */
+  maxFileBytes: numberFromEnv(import.meta.env.VITE_UPLOAD_MAX_MB, 25) * 1024 * 1024,
+};
+
+// The formats accepted, with the names users know them by.
+const IMAGE_TYPE_NAMES: Record<string, string> = {
+  'image/jpeg': 'JPG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+  'image/gif': 'GIF',
+  'image/bmp': 'BMP',
+  'image/avif': 'AVIF',
+};
+
+export const ACCEPTED_IMAGE_TYPES = Object.keys(IMAGE_TYPE_NAMES);
+
+const ACCEPTED_NAMES = Object.values(IMAGE_TYPE_NAMES);
+const ACCEPTED_LIST = `${ACCEPTED_NAMES.slice(0, -1).join(', ')} o ${ACCEPTED_NAMES[ACCEPTED_NAMES.length - 1]}`;
+
+// Two pictures whose difference hashes differ in at most this many of their
+// 64 bits are treated as the same photo (re-saved, resized or screenshotted).
+const DUPLICATE_DISTANCE = 6;
+
+/** Thrown for a file that cannot be used as an input photo; the message says why. */
+export class ImageRejectedError extends Error {
+  constructor(public readonly fileName: string, message: string) {
+    super(message);
+    this.name = 'ImageRejectedError';
+  }
+}
+
+/** A fraction of the image (0–1 on both axes), measured from the top-left corner. */
+export type CropRect = { x: number; y: number; width: number; height: number };
+
+export type UploadResult = {
+  accepted: File[];
+  rejected: ImageRejectedError[];
+};
+
+const validate = (file: File) => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new ImageRejectedError(file.name, `formato no soportado; usa ${ACCEPTED_LIST}`);
+  }
+  if (file.size > UPLOAD_SETTINGS.maxFileBytes) {
+    throw new ImageRejectedError(file.name, `pesa más de ${Math.round(UPLOAD_SETTINGS.maxFileBytes / (1024 * 1024))} MB`);
+  }
+};
+
+/** `from-image` applies the EXIF orientation, so the pixels we get are already upright. */
+const decode = async (blob: Blob, name: string): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageRejectedError(name, 'no se pudo leer la imagen; puede estar dañada');
+  }
+};
+
+const encode = async (
+  bitmap: ImageBitmap,
+  name: string,
+  { x, y, width, height }: CropRect = { x: 0, y: 0, width: 1, height: 1 }
+): Promise<File> => {
+  const sx = Math.round(x * bitmap.width);
+  const sy = Math.round(y * bitmap.height);
+  const sw = Math.max(1, Math.round(width * bitmap.width));
+  const sh = Math.max(1, Math.round(height * bitmap.height));
+  const scale = Math.min(1, UPLOAD_SETTINGS.maxDimension / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const ctx = canvas.getContext('2d')!;
+  if (UPLOAD_SETTINGS.mimeType === 'image/jpeg') {
+    // JPEG has no alpha; without this, transparent PNGs turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  let blob = await canvasToBlob(canvas, UPLOAD_SETTINGS.mimeType, UPLOAD_SETTINGS.quality);
+  // Browsers without a WebP encoder silently return PNG.
+  if (blob.type !== UPLOAD_SETTINGS.mimeType) blob = await canvasToBlob(canvas, 'image/jpeg', UPLOAD_SETTINGS.quality);
+  const baseName = name.replace(/\.[^.]+$/, '') || 'foto';
+  return new File([blob], `${baseName}.${imageExtension(blob.type)}`, { type: blob.type, lastModified: Date.now() });
+};
+
+/** Validates a file and returns it upright, downscaled and re-encoded. */
+export const preprocessImage = async (file: File): Promise<File> => {
+  validate(file);
+  const bitmap = await decode(file, file.name);
+  try {
+    return await encode(bitmap, file.name);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** Crops an already preprocessed photo, keeping its name. */
+export const cropImage = async (file: File, rect: CropRect): Promise<File> => {
+  const bitmap = await decode(file, file.name);
+  try {
+    return await encode(bitmap, file.name, rect);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const fingerprints = new WeakMap<Blob, Promise<string>>();
+
+/**
+ * Difference hash: the image shrunk to 9×8 grayscale pixels, one bit per
+ * horizontal neighbour pair telling whether brightness goes up or down.
+ * Survives resizing and re-encoding, which a byte hash does not.
+ */
+const fingerprint = (blob: Blob): Promise<string> => {
+  let hash = fingerprints.get(blob);
+  if (!hash) {
+    hash = (async () => {
+      const bitmap = await createImageBitmap(blob, { resizeWidth: 9, resizeHeight: 8, resizeQuality: 'medium' });
+      const canvas = document.createElement('canvas');
+      canvas.width = 9;
+      canvas.height = 8;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      const { data } = ctx.getImageData(0, 0, 9, 8);
+      const luma = (i: number) => data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+      let bits = '';
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) bits += luma(row * 9 + col) < luma(row * 9 + col + 1) ? '1' : '0';
+      }
+      return bits;
+    })();
+    fingerprints.set(blob, hash);
+  }
+  return hash;
+};
+
+const distance = (a: string, b: string) => [...a].filter((bit, i) => bit !== b[i]).length;
+
+/**
+ * Preprocesses new uploads one by one, skipping the ones that cannot be used
+ * and the ones that look like a photo already in `existing` or earlier in the
+ * same batch.
+ */
+export const prepareUploads = async (files: File[], existing: File[]): Promise<UploadResult> => {
+  // An existing photo that cannot be decoded just cannot be matched against.
+  const known = (await Promise.all(existing.map(file => fingerprint(file).catch(() => '')))).filter(Boolean);
+  const accepted: File[] = [];
+  const rejected: ImageRejectedError[] = [];
+  // Sequential on purpose: decoding several 12-megapixel photos at once can exhaust memory on phones.
+  for (const file of files) {
+    try {
+      const prepared = await preprocessImage(file);
+      const hash = await fingerprint(prepared);
+      if (known.some(other => distance(hash, other) <= DUPLICATE_DISTANCE)) {
+        throw new ImageRejectedError(file.name, 'es igual a una foto que ya añadiste');
+      }
+      known.push(hash);
+      accepted.push(prepared);
+    } catch (err) {
+      if (!(err instanceof ImageRejectedError)) throw err;
+      rejected.push(err);
+    }
+  }
+  return { accepted, rejected };
+};
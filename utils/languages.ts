@@ -0,0 +1,25 @@
+/** Language the ad copy is written in, independent of the app's own (Spanish) interface. */
+export type OutputLanguage = {
+  /** ISO 639-1 code, or `auto` to follow the language of the inputs. */
+  code: string;
+  label: string;
+  /** Name used in the model prompt. */
+  promptName: string;
+};
+
+export const AUTO_LANGUAGE = 'auto';
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { code: 'es', label: 'Español', promptName: 'español' },
+  { code: 'en', label: 'English', promptName: 'inglés' },
+  { code: 'pt', label: 'Português', promptName: 'portugués' },
+  { code: 'fr', label: 'Français', promptName: 'francés' },
+  { code: 'it', label: 'Italiano', promptName: 'italiano' },
+  { code: 'de', label: 'Deutsch', promptName: 'alemán' },
+  { code: AUTO_LANGUAGE, label: 'Igual que el texto de entrada', promptName: 'el mismo idioma del contexto del usuario o del texto de las imágenes' },
+];
+
+export const DEFAULT_OUTPUT_LANGUAGE = 'es';
+
+export const getOutputLanguage = (code: string): OutputLanguage =>
+  OUTPUT_LANGUAGES.find(l => l.code === code) ?? OUTPUT_LANGUAGES[0];
@@ -0,0 +1,91 @@
+import { loadImage } from './fileUtils';
+
+// Masks are PNG data URLs the size of the image they apply to: opaque pixels
+// mark the region to change, transparent pixels the region to keep.
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+  const { data } = mask.getContext('2d')!.getImageData(0, 0, mask.width, mask.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/** Converts an alpha mask into the black/white image the edit model is shown. */
+export const maskToModelImage = async (maskDataUrl: string): Promise<string> => {
+  const mask = await loadImage(maskDataUrl);
+  const canvas = createCanvas(mask.naturalWidth, mask.naturalHeight);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const white = createCanvas(canvas.width, canvas.height);
+  const whiteCtx = white.getContext('2d')!;
+  whiteCtx.drawImage(mask, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#ffffff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  ctx.drawImage(white, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * The mask with its edge faded inwards over about `featherPx`. A plain blur
+ * would spread the edge outwards too; here the blurred alpha only counts past
+ * its midpoint, which is where the painted edge was, and never above the
+ * mask's own alpha, so nothing outside the mask is let through.
+ */
+const featherInside = (mask: HTMLImageElement, width: number, height: number, featherPx: number): HTMLCanvasElement => {
+  const sharp = createCanvas(width, height);
+  const sharpCtx = sharp.getContext('2d', { willReadFrequently: true })!;
+  sharpCtx.drawImage(mask, 0, 0, width, height);
+  const blurred = createCanvas(width, height);
+  const blurredCtx = blurred.getContext('2d', { willReadFrequently: true })!;
+  blurredCtx.filter = `blur(${featherPx / 2}px)`;
+  blurredCtx.drawImage(mask, 0, 0, width, height);
+
+  const output = sharpCtx.getImageData(0, 0, width, height);
+  const blur = blurredCtx.getImageData(0, 0, width, height).data;
+  for (let i = 3; i < output.data.length; i += 4) {
+    const inside = Math.min(1, Math.max(0, (blur[i] - 127.5) / 127.5));
+    output.data[i] = Math.round(output.data[i] * inside);
+  }
+  sharpCtx.putImageData(output, 0, 0);
+  return sharp;
+};
+
+/**
+ * Pastes the masked region of `editedUrl` onto `originalUrl`. The edited image
+ * is scaled to the original's size (models do not always keep dimensions) and
+ * the mask edge is feathered inwards so the seam does not show. Pixels outside
+ * the mask are the original ones, untouched.
+ */
+export const compositeMasked = async (
+  originalUrl: string,
+  editedUrl: string,
+  maskDataUrl: string,
+  featherPx = 6
+): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskDataUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const region = featherInside(mask, width, height, featherPx);
+  const regionCtx = region.getContext('2d')!;
+  regionCtx.globalCompositeOperation = 'source-in';
+  regionCtx.drawImage(edited, 0, 0, width, height);
+
+  const output = createCanvas(width, height);
+  const ctx = output.getContext('2d')!;
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(region, 0, 0);
+  return output.toDataURL('image/png');
+};
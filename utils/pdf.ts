@@ -0,0 +1,170 @@
+// Minimal PDF writer for print output: JPEG images, hairlines and text in
+// the standard Helvetica fonts, which every viewer has built in. Coordinates
+// are in points (1/72 in) from the top-left corner of the page; they are
+// flipped to PDF's bottom-left origin when the content stream is written.
+
+export const POINTS_PER_MM = 72 / 25.4;
+
+export type PdfBox = { x: number; y: number; width: number; height: number };
+
+export type PdfItem =
+  /** `jpeg` must be a baseline RGB JPEG, which is what canvases encode. Drawn clipped to `clip` if given. */
+  | { type: 'image'; jpeg: Blob; box: PdfBox; clip?: PdfBox }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width: number }
+  | { type: 'text'; text: string; x: number; y: number; size: number; bold?: boolean };
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  items: PdfItem[];
+  /** Where the sheet is cut, and how far the artwork extends past it, for print workflows. */
+  trimBox?: PdfBox;
+  bleedBox?: PdfBox;
+};
+
+// WinAnsiEncoding matches Latin-1 except for a few typographic characters;
+// anything else (emojis, other scripts) has no glyph in the standard fonts and is dropped.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+/** Drops what the standard fonts cannot show, so layout measures the text that will actually be drawn. */
+export const printableText = (text: string): string =>
+  [...text].filter(char => WIN_ANSI_EXTRAS[char] !== undefined || char.codePointAt(0)! <= 0xff).join('').replace(/[ \t]+/g, ' ');
+
+const encodeText = (text: string): string => {
+  let out = '';
+  for (const char of text) {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.codePointAt(0)!;
+    if (code > 0xff || code < 0x20) continue;
+    if (char === '(' || char === ')' || char === '\\') out += '\\' + char;
+    else out += code < 0x80 ? char : '\\' + code.toString(8).padStart(3, '0');
+  }
+  return out;
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/** Width of a line of text in points. Arial's metrics match Helvetica's closely enough for layout. */
+export const measureText = (text: string, size: number, bold = false): number => {
+  measureContext ??= document.createElement('canvas').getContext('2d')!;
+  measureContext.font = `${bold ? 'bold ' : ''}100px Helvetica, Arial, sans-serif`;
+  return measureContext.measureText(text).width * size / 100;
+};
+
+/** Breaks text into lines no wider than `maxWidth`, keeping its paragraphs. */
+export const wrapText = (text: string, size: number, maxWidth: number, bold = false): string[] =>
+  printableText(text).split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(' ').filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+    return lines;
+  });
+
+/** Reads the pixel size of a JPEG from its first start-of-frame marker. */
+const jpegSize = (bytes: Uint8Array): { width: number; height: number } => {
+  let pos = 2;
+  while (pos + 9 < bytes.length) {
+    if (bytes[pos] !== 0xff) throw new Error('La imagen no es un JPEG válido.');
+    const marker = bytes[pos + 1];
+    if (marker >= 0xc0 && marker <= 0xc3) {
+      return { height: (bytes[pos + 5] << 8) | bytes[pos + 6], width: (bytes[pos + 7] << 8) | bytes[pos + 8] };
+    }
+    pos += 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+  }
+  throw new Error('La imagen no es un JPEG válido.');
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rect = (box: PdfBox, pageHeight: number) =>
+  `${num(box.x)} ${num(pageHeight - box.y - box.height)} ${num(box.width)} ${num(box.height)}`;
+const boxArray = (box: PdfBox, pageHeight: number) =>
+  `[${num(box.x)} ${num(pageHeight - box.y - box.height)} ${num(box.x + box.width)} ${num(pageHeight - box.y)}]`;
+
+/** Builds a PDF document with one page per entry. */
+export const createPdf = async (pages: PdfPage[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // 1–4 are the catalog, the page tree and the two fonts, written last once the pages are known.
+  let nextId = 5;
+  const allocate = () => nextId++;
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // binary marker comment
+  const pageIds: number[] = [];
+
+  for (const page of pages) {
+    const pageId = allocate();
+    const contentId = allocate();
+    pageIds.push(pageId);
+    const images: { id: number; name: string; jpeg: Blob }[] = [];
+    const ops: string[] = [];
+
+    for (const item of page.items) {
+      if (item.type === 'image') {
+        const name = `Im${images.length + 1}`;
+        images.push({ id: allocate(), name, jpeg: item.jpeg });
+        ops.push('q');
+        if (item.clip) ops.push(`${rect(item.clip, page.height)} re W n`);
+        const { x, y, width, height } = item.box;
+        ops.push(`${num(width)} 0 0 ${num(height)} ${num(x)} ${num(page.height - y - height)} cm /${name} Do`, 'Q');
+      } else if (item.type === 'line') {
+        ops.push(`${num(item.width)} w ${num(item.x1)} ${num(page.height - item.y1)} m ${num(item.x2)} ${num(page.height - item.y2)} l S`);
+      } else {
+        ops.push(`BT /${item.bold ? 'F2' : 'F1'} ${num(item.size)} Tf ${num(item.x)} ${num(page.height - item.y)} Td (${encodeText(item.text)}) Tj ET`);
+      }
+    }
+
+    const boxes = [
+      page.trimBox && `/TrimBox ${boxArray(page.trimBox, page.height)}`,
+      page.bleedBox && `/BleedBox ${boxArray(page.bleedBox, page.height)}`,
+    ].filter(Boolean).join(' ');
+    const xObjects = images.map(image => `/${image.name} ${image.id} 0 R`).join(' ');
+    writeObject(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ${boxes} /Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentId} 0 R >>`);
+    const content = encoder.encode(ops.join('\n'));
+    writeObject(contentId, `<< /Length ${content.length} >>`, content);
+    for (const image of images) {
+      const bytes = new Uint8Array(await image.jpeg.arrayBuffer());
+      const { width, height } = jpegSize(bytes);
+      writeObject(image.id, `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${bytes.length} >>`, bytes);
+    }
+  }
+
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  writeObject(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  writeObject(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  write(`trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,59 @@
+import type { Platform } from '../types';
+
+export type PlatformInfo = {
+  id: Platform;
+  label: string;
+  /** Font Awesome brand icon. */
+  icon: string;
+  /** Hard limit of the caption or post text, hashtags included. */
+  maxChars: number;
+  /** Roughly what is shown before the "more" cut-off; longer texts are fine but the hook must fit here. */
+  previewChars: number;
+  /** How many of the generation's hashtags are appended when copying for this platform. */
+  hashtagCount: number;
+  /** Writing instructions for the model, in the prompt's language. */
+  guidance: string;
+};
+
+export const PLATFORMS: PlatformInfo[] = [
+  {
+    id: 'instagram', label: 'Instagram', icon: 'fa-instagram', maxChars: 2200, previewChars: 125, hashtagCount: 10,
+    guidance: 'gancho en la primera línea, 2-4 frases con emojis, CTA del tipo "escríbenos por DM" o "link en la bio".',
+  },
+  {
+    id: 'facebook', label: 'Facebook', icon: 'fa-facebook', maxChars: 63206, previewChars: 250, hashtagCount: 3,
+    guidance: 'tono cercano y conversacional, 2-5 frases, pocos emojis, CTA claro ("comenta", "envíanos un mensaje").',
+  },
+  {
+    id: 'whatsapp', label: 'WhatsApp Business', icon: 'fa-whatsapp', maxChars: 700, previewChars: 700, hashtagCount: 0,
+    guidance: 'mensaje directo y breve para estado o difusión, con precio y forma de pedir; usa *negritas* de WhatsApp para el producto; sin hashtags.',
+  },
+  {
+    id: 'tiktok', label: 'TikTok', icon: 'fa-tiktok', maxChars: 4000, previewChars: 100, hashtagCount: 5,
+    guidance: 'una o dos frases muy cortas, juveniles y con energía, que inviten a ver el video o comentar.',
+  },
+  {
+    id: 'google', label: 'Google Business', icon: 'fa-google', maxChars: 1500, previewChars: 300, hashtagCount: 0,
+    guidance: 'texto informativo para la ficha del negocio: qué es, precio, dónde y cómo comprar; sin emojis ni hashtags.',
+  },
+];
+
+export const getPlatformInfo = (platform: Platform): PlatformInfo =>
+  PLATFORMS.find(p => p.id === platform) ?? PLATFORMS[0];
+
+/** The text to paste on a platform: its copy (or the generic description) plus its share of hashtags. */
+export const platformText = (copy: string, hashtags: string[], platform: Platform): string => {
+  const tags = hashtags.slice(0, getPlatformInfo(platform).hashtagCount).map(tag => `#${tag}`).join(' ');
+  return [copy, tags].filter(Boolean).join('\n\n');
+};
+
+export type LengthCheck = 'ok' | 'truncated' | 'over';
+
+export const checkLength = (text: string, platform: Platform): LengthCheck => {
+  const { maxChars, previewChars } = getPlatformInfo(platform);
+  // Count code points, not UTF-16 units, so an emoji counts once as the platforms do.
+  const length = [...text].length;
+  if (length > maxChars) return 'over';
+  if (length > previewChars) return 'truncated';
+  return 'ok';
+};
@@ -0,0 +1,159 @@
+import { POINTS_PER_MM, type PdfBox, type PdfItem } from './pdf';
+import { loadImage } from './fileUtils';
+
+export type PaperSize = 'A4' | 'Letter' | 'A5';
+
+/** Portrait sizes in millimetres. */
+export const PAPER_SIZES: { id: PaperSize; label: string; width: number; height: number }[] = [
+  { id: 'A4', label: 'A4 (210 × 297 mm)', width: 210, height: 297 },
+  { id: 'Letter', label: 'Carta (8,5 × 11 in)', width: 215.9, height: 279.4 },
+  { id: 'A5', label: 'A5 (148 × 210 mm)', width: 148, height: 210 },
+];
+
+export const DPI_OPTIONS = [150, 300];
+
+/**
+ * - `contain`: the whole ad, centred inside the safe margin; nothing is cut.
+ * - `cover`: the ad fills the sheet up to the bleed; edges that do not fit the paper's shape are cut.
+ */
+export type ImageFit = 'contain' | 'cover';
+
+export type PrintSettings = {
+  paper: PaperSize;
+  /** How far the artwork extends past the cut, in mm. Printers usually ask for 3. */
+  bleedMm: number;
+  cropMarks: boolean;
+  /** Resolution the images are rendered at; smaller ones are upscaled to reach it. */
+  dpi: number;
+  fit: ImageFit;
+};
+
+export const DEFAULT_PRINT_SETTINGS: PrintSettings = { paper: 'A4', bleedMm: 3, cropMarks: true, dpi: 300, fit: 'contain' };
+
+const SETTINGS_KEY = 'printSettings';
+
+/** The settings used last time, so a print shop's requirements only have to be entered once. */
+export const loadPrintSettings = (): PrintSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    return {
+      paper: PAPER_SIZES.some(p => p.id === saved.paper) ? saved.paper : DEFAULT_PRINT_SETTINGS.paper,
+      bleedMm: typeof saved.bleedMm === 'number' && saved.bleedMm >= 0 ? saved.bleedMm : DEFAULT_PRINT_SETTINGS.bleedMm,
+      cropMarks: typeof saved.cropMarks === 'boolean' ? saved.cropMarks : DEFAULT_PRINT_SETTINGS.cropMarks,
+      dpi: DPI_OPTIONS.includes(saved.dpi) ? saved.dpi : DEFAULT_PRINT_SETTINGS.dpi,
+      fit: saved.fit === 'cover' ? 'cover' : 'contain',
+    };
+  } catch {
+    return DEFAULT_PRINT_SETTINGS;
+  }
+};
+
+export const savePrintSettings = (settings: PrintSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+/** Blank space kept inside the cut for `contain` layouts and catalog pages. */
+export const SAFE_MARGIN_MM = 10;
+const MARK_LENGTH_MM = 5;
+// Longest side an image is upscaled to, whatever the DPI: keeps the canvas within browser limits.
+const MAX_PRINT_SIDE = 7000;
+
+export type SheetLayout = {
+  width: number;
+  height: number;
+  /** Where the sheet is cut. */
+  trim: PdfBox;
+  /** `trim` grown by the bleed: where `cover` artwork ends. */
+  bleed: PdfBox;
+};
+
+const grow = (box: PdfBox, by: number): PdfBox =>
+  ({ x: box.x - by, y: box.y - by, width: box.width + 2 * by, height: box.height + 2 * by });
+
+/**
+ * Sizes the PDF page (in points): the paper plus the bleed, plus room for the
+ * crop marks outside the bleed when they are on.
+ */
+export const sheetLayout = ({ paper, bleedMm, cropMarks }: PrintSettings, landscape: boolean): SheetLayout => {
+  const size = PAPER_SIZES.find(p => p.id === paper) ?? PAPER_SIZES[0];
+  const [widthMm, heightMm] = landscape ? [size.height, size.width] : [size.width, size.height];
+  const marginMm = bleedMm + (cropMarks ? 1 + MARK_LENGTH_MM : 0);
+  const trim = { x: marginMm * POINTS_PER_MM, y: marginMm * POINTS_PER_MM, width: widthMm * POINTS_PER_MM, height: heightMm * POINTS_PER_MM };
+  return {
+    width: trim.width + 2 * trim.x,
+    height: trim.height + 2 * trim.y,
+    trim,
+    bleed: grow(trim, bleedMm * POINTS_PER_MM),
+  };
+};
+
+/** Hairlines at each corner, in line with the cut and starting just outside the bleed. */
+export const cropMarkLines = ({ trim }: SheetLayout, bleedMm: number): PdfItem[] => {
+  const start = (bleedMm + 1) * POINTS_PER_MM;
+  const end = start + MARK_LENGTH_MM * POINTS_PER_MM;
+  const lines: PdfItem[] = [];
+  for (const x of [trim.x, trim.x + trim.width]) {
+    for (const y of [trim.y, trim.y + trim.height]) {
+      const dx = x === trim.x ? -1 : 1;
+      const dy = y === trim.y ? -1 : 1;
+      lines.push({ type: 'line', x1: x, y1: y + dy * start, x2: x, y2: y + dy * end, width: 0.25 });
+      lines.push({ type: 'line', x1: x + dx * start, y1: y, x2: x + dx * end, y2: y, width: 0.25 });
+    }
+  }
+  return lines;
+};
+
+/** The largest box with the given aspect ratio inside `area` (`contain`) or the smallest covering it (`cover`), centred. */
+export const fitBox = (aspect: number, area: PdfBox, fit: ImageFit): PdfBox => {
+  const areaAspect = area.width / area.height;
+  const byWidth = fit === 'contain' ? aspect > areaAspect : aspect < areaAspect;
+  const width = byWidth ? area.width : area.height * aspect;
+  const height = byWidth ? area.width / aspect : area.height;
+  return { x: area.x + (area.width - width) / 2, y: area.y + (area.height - height) / 2, width, height };
+};
+
+export const insetBox = (box: PdfBox, by: number): PdfBox => grow(box, -by);
+
+/** The sheet for a single-image flyer, oriented like the image, and where the image goes on it. */
+export const flyerLayout = (aspect: number, settings: PrintSettings): { layout: SheetLayout; box: PdfBox } => {
+  const layout = sheetLayout(settings, aspect > 1);
+  const box = settings.fit === 'cover'
+    ? fitBox(aspect, layout.bleed, 'cover')
+    : fitBox(aspect, insetBox(layout.trim, SAFE_MARGIN_MM * POINTS_PER_MM), 'contain');
+  return { layout, box };
+};
+
+/** Pixels needed to print a box (in points) at the given DPI. */
+export const pixelsFor = (box: PdfBox, dpi: number): { width: number; height: number } => ({
+  width: Math.round(box.width / 72 * dpi),
+  height: Math.round(box.height / 72 * dpi),
+});
+
+/**
+ * Draws an image on a canvas at least `minWidth` wide (capped to stay within
+ * canvas limits), enlarging it in steps of at most 2×, which keeps edges
+ * noticeably smoother than a single big jump. An image already large enough
+ * is drawn at its own size. Nothing is encoded, so the caller can draw on the
+ * result and encode it once.
+ */
+export const upscaleToCanvas = async (imageUrl: string, minWidth: number): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(imageUrl);
+  const target = Math.min(minWidth, MAX_PRINT_SIDE * img.naturalWidth / Math.max(img.naturalWidth, img.naturalHeight));
+
+  let source: HTMLImageElement | HTMLCanvasElement = img;
+  let width = img.naturalWidth;
+  let height = img.naturalHeight;
+  do {
+    const scale = Math.max(1, Math.min(2, target / width));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    // Frees the previous step's pixels now rather than whenever it is collected.
+    if (source instanceof HTMLCanvasElement) source.width = source.height = 0;
+    source = canvas;
+    width = canvas.width;
+    height = canvas.height;
+  } while (width < target);
+  return source;
+};
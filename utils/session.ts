@@ -0,0 +1,261 @@
+import type { AdFormat, AdImage, AppStep, Generation, ImageInsights, SessionDraft } from '../types';
+import { DEFAULT_FORMAT } from './adFormats';
+import { DEFAULT_OUTPUT_LANGUAGE } from './languages';
+import { addVersion } from './versionTree';
+
+/**
+ * Everything the single-ad workflow is working on. It only changes through
+ * `sessionReducer`, which decides what each step may lead to.
+ */
+export type SessionState = {
+  step: AppStep;
+  inputFiles: File[];
+  /** Object URLs of `inputFiles`, in the same order. */
+  inputImagePreviews: string[];
+  initialPrompt: string;
+  selectedStyleId: string;
+  selectedFormats: AdFormat[];
+  /** Output language code, see `OUTPUT_LANGUAGES`. */
+  outputLanguage: string;
+  insights: ImageInsights | null;
+  /** Always empty in the upload step. */
+  generations: Generation[];
+  selectedGenerationId: string | null;
+  editPrompt: string;
+  /** The saved project the generations are autosaved to. */
+  currentProjectId: string | null;
+};
+
+type SessionFields = Pick<SessionState, 'initialPrompt' | 'selectedStyleId' | 'selectedFormats' | 'outputLanguage' | 'insights' | 'editPrompt'>;
+
+export type SessionEvent =
+  | { type: 'change'; changes: Partial<SessionFields> }
+  | { type: 'addInputs'; files: File[]; previews: string[] }
+  | { type: 'removeInput'; index: number }
+  | { type: 'moveInput'; from: number; to: number }
+  | { type: 'replaceInput'; index: number; file: File; preview: string }
+  /** A new ad is being generated into `projectId`, from the upload step or as another variation. */
+  | { type: 'generate'; projectId: string | null }
+  | { type: 'generated'; generation: Generation }
+  | { type: 'failed' }
+  | { type: 'select'; generationId: string }
+  | { type: 'startEdit'; generationId: string }
+  | { type: 'finishEdit' }
+  | { type: 'update'; generations: Generation[] }
+  /**
+   * Changes to one generation, merged into it as it is when they arrive, so
+   * results that come back late (a review, a regeneration) do not undo each
+   * other. Nothing happens if the generation is gone.
+   */
+  | { type: 'patchGeneration'; generationId: string; changes: Partial<Omit<Generation, 'id'>> }
+  /** One format of a generation, e.g. after an edit; the others are left as they are. */
+  | { type: 'replaceImage'; generationId: string; image: AdImage }
+  /**
+   * The result of an edit of version `parentId`, added to the image as it is
+   * when it arrives, so layer, logo and version changes made meanwhile stay.
+   */
+  | { type: 'addVersion'; generationId: string; format: AdFormat; parentId: string; imageUrl: string; prompt: string }
+  /** The current project was deleted: results stay on screen but are no longer saved. */
+  | { type: 'forgetProject' }
+  /** Back to the form with the same inputs; the results stay in their saved project. */
+  | { type: 'backToUpload' }
+  | { type: 'load'; session: SessionState & { step: 'upload' | 'result' } }
+  | { type: 'reset'; styleId: string };
+
+const ALL_STEPS: AppStep[] = ['upload', 'processing', 'result', 'editing'];
+
+// The steps each event can happen in. Anything else is ignored, so the answer
+// to a request that was cancelled or left behind cannot change the screen.
+const ALLOWED_STEPS: Record<SessionEvent['type'], AppStep[]> = {
+  change: ALL_STEPS,
+  addInputs: ['upload'],
+  removeInput: ['upload'],
+  moveInput: ['upload'],
+  replaceInput: ['upload'],
+  generate: ['upload', 'result'],
+  generated: ['processing'],
+  failed: ['processing'],
+  select: ['result'],
+  startEdit: ['result'],
+  finishEdit: ['editing'],
+  update: ['result', 'editing'],
+  // Reviews run in the background, so their results can land during another generation.
+  patchGeneration: ['processing', 'result', 'editing'],
+  replaceImage: ['result', 'editing'],
+  addVersion: ['result', 'editing'],
+  forgetProject: ALL_STEPS,
+  backToUpload: ['processing', 'result', 'editing'],
+  load: ALL_STEPS,
+  reset: ALL_STEPS,
+};
+
+export const createSession = (styleId: string, outputLanguage: string = DEFAULT_OUTPUT_LANGUAGE): SessionState => ({
+  step: 'upload',
+  inputFiles: [],
+  inputImagePreviews: [],
+  initialPrompt: '',
+  selectedStyleId: styleId,
+  selectedFormats: [DEFAULT_FORMAT],
+  outputLanguage,
+  insights: null,
+  generations: [],
+  selectedGenerationId: null,
+  editPrompt: '',
+  currentProjectId: null,
+});
+
+const move = <T>(list: T[], from: number, to: number): T[] => {
+  const next = [...list];
+  next.splice(to, 0, ...next.splice(from, 1));
+  return next;
+};
+
+const patchGeneration = (state: SessionState, generationId: string, patch: (gen: Generation) => Generation): SessionState =>
+  state.generations.some(gen => gen.id === generationId)
+    ? { ...state, generations: state.generations.map(gen => gen.id === generationId ? patch(gen) : gen) }
+    : state;
+
+/** Object URLs are created and revoked by the caller; the reducer only keeps them next to their files. */
+export const sessionReducer = (state: SessionState, event: SessionEvent): SessionState => {
+  if (!ALLOWED_STEPS[event.type].includes(state.step)) return state;
+  switch (event.type) {
+    case 'change':
+      return { ...state, ...event.changes };
+    case 'addInputs':
+      return {
+        ...state,
+        inputFiles: [...state.inputFiles, ...event.files],
+        inputImagePreviews: [...state.inputImagePreviews, ...event.previews],
+      };
+    case 'removeInput':
+      return {
+        ...state,
+        inputFiles: state.inputFiles.filter((_, i) => i !== event.index),
+        inputImagePreviews: state.inputImagePreviews.filter((_, i) => i !== event.index),
+      };
+    case 'moveInput':
+      return {
+        ...state,
+        inputFiles: move(state.inputFiles, event.from, event.to),
+        inputImagePreviews: move(state.inputImagePreviews, event.from, event.to),
+      };
+    case 'replaceInput':
+      return {
+        ...state,
+        inputFiles: state.inputFiles.map((file, i) => i === event.index ? event.file : file),
+        inputImagePreviews: state.inputImagePreviews.map((url, i) => i === event.index ? event.preview : url),
+      };
+    case 'generate':
+      return { ...state, step: 'processing', currentProjectId: event.projectId };
+    case 'generated':
+      return {
+        ...state,
+        step: 'result',
+        generations: [...state.generations, event.generation],
+        selectedGenerationId: event.generation.id,
+      };
+    case 'failed':
+      // A first generation that failed leaves no project behind.
+      return state.generations.length === 0
+        ? { ...state, step: 'upload', currentProjectId: null }
+        : { ...state, step: 'result' };
+    case 'select':
+      return { ...state, selectedGenerationId: event.generationId };
+    case 'startEdit':
+      return { ...state, step: 'editing', selectedGenerationId: event.generationId };
+    case 'finishEdit':
+      return { ...state, step: 'result' };
+    case 'update':
+      return { ...state, generations: event.generations };
+    case 'patchGeneration':
+      return patchGeneration(state, event.generationId, gen => ({ ...gen, ...event.changes }));
+    case 'replaceImage':
+      return patchGeneration(state, event.generationId, gen => ({
+        ...gen,
+        images: gen.images.map(img => img.format === event.image.format ? event.image : img),
+      }));
+    case 'addVersion':
+      return patchGeneration(state, event.generationId, gen => ({
+        ...gen,
+        images: gen.images.map(img => img.format === event.format ? addVersion(img, event.imageUrl, event.prompt, event.parentId) : img),
+      }));
+    case 'forgetProject':
+      return { ...state, currentProjectId: null };
+    case 'backToUpload':
+      return { ...state, step: 'upload', generations: [], selectedGenerationId: null, editPrompt: '', currentProjectId: null };
+    case 'load':
+      return event.session;
+    case 'reset':
+      // The output language is a preference rather than part of an ad, so it stays.
+      return createSession(event.styleId, state.outputLanguage);
+  }
+};
+
+/**
+ * What to checkpoint of a session. Results are not copied: they are already
+ * autosaved to their project, so the draft only points at it. A model call in
+ * flight cannot survive a reload, so it is saved as the step it started from.
+ */
+export const sessionDraft = (state: SessionState, styleName: string, brandKitId: string | null): SessionDraft => ({
+  savedAt: Date.now(),
+  step: state.generations.length > 0 ? 'result' : 'upload',
+  interrupted: state.step === 'processing' || state.step === 'editing',
+  inputs: {
+    images: state.inputFiles,
+    prompt: state.initialPrompt,
+    style: styleName,
+    formats: state.selectedFormats,
+    brandKitId,
+    language: state.outputLanguage,
+  },
+  insights: state.insights,
+  projectId: state.currentProjectId,
+  selectedGenerationId: state.selectedGenerationId,
+  editPrompt: state.editPrompt,
+});
+
+/** A draft with nothing the user would miss. */
+export const isEmptyDraft = (draft: SessionDraft): boolean =>
+  draft.inputs.images.length === 0 && !draft.inputs.prompt.trim() && !draft.projectId;
+
+export type AppRoute =
+  | { name: 'new' }
+  | { name: 'batch' }
+  | { name: 'project'; projectId: string };
+
+/** Hash routes, so the app works from any static host without server rewrites. */
+export const routeHash = (route: AppRoute): string => {
+  switch (route.name) {
+    case 'new': return '#/nuevo';
+    case 'batch': return '#/lote';
+    case 'project': return `#/proyecto/${encodeURIComponent(route.projectId)}`;
+  }
+};
+
+/** Unknown or empty hashes are the upload step. */
+export const parseRouteHash = (hash: string): AppRoute => {
+  if (hash === '#/lote') return { name: 'batch' };
+  const project = hash.match(/^#\/proyecto\/(.+)$/);
+  if (project) {
+    try {
+      return { name: 'project', projectId: decodeURIComponent(project[1]) };
+    } catch {
+      // Malformed escapes fall through to the upload step.
+    }
+  }
+  return { name: 'new' };
+};
+
+/**
+ * The route a session is at, or null while it has none of its own: during a
+ * generation, and when its project was deleted.
+ */
+export const sessionRoute = (state: SessionState, batchMode: boolean): AppRoute | null => {
+  switch (state.step) {
+    case 'upload': return batchMode ? { name: 'batch' } : { name: 'new' };
+    case 'processing': return null;
+    case 'result':
+    case 'editing':
+      return state.currentProjectId ? { name: 'project', projectId: state.currentProjectId } : null;
+  }
+};
@@ -0,0 +1,24 @@
+export const stripAccents = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/** Lowercase, accent-free form used to match user searches: `Café` and `cafe` are the same. */
+export const searchKey = (value: string): string => stripAccents(value).toLowerCase();
+
+// Spreadsheets run a cell starting with one of these as a formula.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break, and
+ * prefixes text that a spreadsheet would run as a formula with `'`, which
+ * Excel and Sheets show as plain text. See `fromCsvCell` for reading it back.
+ */
+export const csvCell = (value: string | number): string => {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Undoes the formula prefix `csvCell` adds. Only a `'` followed by a formula
+ * character is taken for it; any other leading `'` is part of the value.
+ */
+export const fromCsvCell = (value: string): string =>
+  value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
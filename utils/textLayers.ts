@@ -0,0 +1,229 @@
+import type { AdFormat, AdImage, BrandKit, LogoPlacement, OverlayText, StylePreset, TextLayer, TextLayerRole } from '../types';
+import { loadImage } from './fileUtils';
+import { currentImageUrl } from './versionTree';
+
+export const FONT_OPTIONS = ['Montserrat', 'Playfair Display', 'Bebas Neue', 'Pacifico', 'Roboto Slab'];
+
+export const LINE_HEIGHT = 1.15;
+// Padding of the background box around a layer, in em.
+export const BOX_PADDING_X = 0.6;
+export const BOX_PADDING_Y = 0.3;
+
+export const ROLE_LABELS: Record<TextLayerRole, string> = {
+  headline: 'Titular',
+  price: 'Precio',
+  contact: 'Contacto',
+  cta: 'Llamada a la acción',
+  custom: 'Texto libre',
+};
+
+type LayerDefaults = Pick<TextLayer, 'x' | 'y' | 'fontSize' | 'fontWeight' | 'color' | 'background' | 'shadow'>;
+
+const ROLE_DEFAULTS: Record<keyof OverlayText, LayerDefaults> = {
+  headline: { x: 0.5, y: 0.12, fontSize: 0.08, fontWeight: 800, color: '#ffffff', background: null, shadow: true },
+  price: { x: 0.5, y: 0.7, fontSize: 0.1, fontWeight: 800, color: '#C2A05A', background: null, shadow: true },
+  cta: { x: 0.5, y: 0.83, fontSize: 0.045, fontWeight: 700, color: '#ffffff', background: '#490F1F', shadow: false },
+  contact: { x: 0.5, y: 0.93, fontSize: 0.035, fontWeight: 600, color: '#ffffff', background: null, shadow: true },
+};
+
+// Tall formats have room to spread out; wide banners need smaller text.
+const FORMAT_SCALE: Record<AdFormat, number> = { '1:1': 1, '4:5': 1, '9:16': 1.15, '16:9': 0.6 };
+
+export const createLayer = (role: TextLayerRole, text: string, format: AdFormat = '1:1'): TextLayer => {
+  const defaults = role === 'custom' ? { ...ROLE_DEFAULTS.headline, y: 0.5, fontSize: 0.06 } : ROLE_DEFAULTS[role];
+  return {
+    id: crypto.randomUUID(),
+    role,
+    text,
+    fontFamily: FONT_OPTIONS[0],
+    ...defaults,
+    fontSize: defaults.fontSize * FORMAT_SCALE[format],
+  };
+};
+
+/** Uses the kit's fonts and, where the palette has them, its main and accent colours. */
+const applyBrandKit = (layer: TextLayer, kit: BrandKit): TextLayer => {
+  const [main, accent] = kit.palette;
+  return {
+    ...layer,
+    fontFamily: layer.role === 'headline' ? kit.headingFont : kit.bodyFont,
+    color: layer.role === 'price' && accent ? accent : layer.color,
+    background: layer.background && main ? main : layer.background,
+  };
+};
+
+/** The style's fonts win over the kit's: the user picked the style for this ad in particular. */
+const applyStyleFonts = (layer: TextLayer, { headingFont, bodyFont }: Pick<StylePreset, 'headingFont' | 'bodyFont'>): TextLayer => {
+  const font = layer.role === 'headline' ? headingFont : bodyFont;
+  return font ? { ...layer, fontFamily: font } : layer;
+};
+
+/** One layer per non-empty field of the model's text, laid out for the format. */
+export const createDefaultLayers = (
+  text: OverlayText,
+  format: AdFormat,
+  brandKit?: BrandKit | null,
+  style?: Pick<StylePreset, 'headingFont' | 'bodyFont'> | null
+): TextLayer[] =>
+  (Object.keys(ROLE_DEFAULTS) as (keyof OverlayText)[])
+    .filter(role => text[role]?.trim())
+    .map(role => createLayer(role, text[role].trim(), format))
+    .map(layer => brandKit ? applyBrandKit(layer, brandKit) : layer)
+    .map(layer => style ? applyStyleFonts(layer, style) : layer);
+
+/** The brand's legal text as a small free-text layer along the bottom edge. */
+export const createDisclaimerLayer = (
+  text: string,
+  format: AdFormat,
+  brandKit?: BrandKit | null,
+  style?: Pick<StylePreset, 'headingFont' | 'bodyFont'> | null
+): TextLayer => ({
+  ...createLayer('custom', text, format),
+  y: 0.975,
+  fontSize: 0.028 * FORMAT_SCALE[format],
+  fontWeight: 500,
+  shadow: true,
+  fontFamily: style?.bodyFont || brandKit?.bodyFont || FONT_OPTIONS[0],
+});
+
+/** Adds the brand's legal text to an image that does not carry it yet. */
+export const addDisclaimerLayer = (
+  image: AdImage,
+  text: string,
+  brandKit?: BrandKit | null,
+  style?: Pick<StylePreset, 'headingFont' | 'bodyFont'> | null
+): AdImage =>
+  image.layers.some(layer => layer.text === text)
+    ? image
+    : { ...image, layers: [...image.layers, createDisclaimerLayer(text, image.format, brandKit, style)] };
+
+/** The text of each role's layer, for generations saved before the overlay text was kept on its own. */
+export const overlayTextFromLayers = (layers: TextLayer[]): OverlayText => {
+  const textOf = (role: keyof OverlayText) => layers.find(layer => layer.role === role)?.text ?? '';
+  return { headline: textOf('headline'), price: textOf('price'), contact: textOf('contact'), cta: textOf('cta') };
+};
+
+/**
+ * Puts new ad text into an image's layers without moving or restyling them:
+ * each role's layer gets its new text, roles left empty lose their layer and
+ * roles that were empty get a default one. Custom layers are kept as they are.
+ */
+export const applyOverlayText = (
+  image: AdImage,
+  text: OverlayText,
+  brandKit?: BrandKit | null,
+  style?: Pick<StylePreset, 'headingFont' | 'bodyFont'> | null
+): AdImage => {
+  const layers = image.layers
+    .filter(layer => layer.role === 'custom' || text[layer.role].trim())
+    .map(layer => layer.role === 'custom' ? layer : { ...layer, text: text[layer.role].trim() });
+  const added = createDefaultLayers(text, image.format, brandKit, style)
+    .filter(layer => !layers.some(existing => existing.role === layer.role));
+  return { ...image, layers: [...layers, ...added] };
+};
+
+/** Puts the logo in the top-right corner, the space the image prompt asks the model to keep free. */
+export const createLogoPlacement = (logoUrl: string, format: AdFormat): LogoPlacement => {
+  const width = format === '16:9' ? 0.1 : format === '9:16' ? 0.22 : 0.16;
+  return { imageUrl: logoUrl, x: 1 - width / 2 - 0.04, y: 0.08, width };
+};
+
+const fontString = (layer: TextLayer, width: number) =>
+  `${layer.fontWeight} ${layer.fontSize * width}px "${layer.fontFamily}"`;
+
+export type LayerBox = { left: number; top: number; width: number; height: number };
+
+/**
+ * The area a layer covers on an image of the given size, in pixels: its
+ * background box if it has one, otherwise the text itself.
+ */
+export const measureLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number): LayerBox => {
+  const size = layer.fontSize * width;
+  const lines = layer.text.split('\n');
+  ctx.save();
+  ctx.font = fontString(layer, width);
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  ctx.restore();
+  const padding = layer.background ? { x: size * BOX_PADDING_X, y: size * BOX_PADDING_Y } : { x: 0, y: 0 };
+  const boxWidth = textWidth + padding.x * 2;
+  const boxHeight = size * LINE_HEIGHT * lines.length + padding.y * 2;
+  return { left: layer.x * width - boxWidth / 2, top: layer.y * height - boxHeight / 2, width: boxWidth, height: boxHeight };
+};
+
+const drawLayer = (ctx: CanvasRenderingContext2D, layer: TextLayer, width: number, height: number) => {
+  const size = layer.fontSize * width;
+  const lines = layer.text.split('\n');
+  const lineHeight = size * LINE_HEIGHT;
+  const centerX = layer.x * width;
+  const centerY = layer.y * height;
+
+  if (layer.background) {
+    const box = measureLayer(ctx, layer, width, height);
+    ctx.save();
+    ctx.fillStyle = layer.background;
+    ctx.beginPath();
+    ctx.roundRect(box.left, box.top, box.width, box.height, size * 0.5);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.save();
+  ctx.font = fontString(layer, width);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  if (layer.shadow) {
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = size * 0.15;
+  }
+  ctx.fillStyle = layer.color;
+  const firstLineY = centerY - (lineHeight * (lines.length - 1)) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, centerX, firstLineY + i * lineHeight));
+  ctx.restore();
+};
+
+const drawLogo = async (ctx: CanvasRenderingContext2D, logo: LogoPlacement, width: number, height: number) => {
+  const img = await loadImage(logo.imageUrl);
+  const logoWidth = logo.width * width;
+  const logoHeight = logoWidth * (img.naturalHeight / img.naturalWidth);
+  ctx.drawImage(img, logo.x * width - logoWidth / 2, logo.y * height - logoHeight / 2, logoWidth, logoHeight);
+};
+
+/**
+ * Draws the logo and every text layer over what is already on `canvas`,
+ * sized to the canvas, whatever resolution it has.
+ */
+export const drawLayers = async (canvas: HTMLCanvasElement, layers: TextLayer[], logo: LogoPlacement | null = null): Promise<void> => {
+  const { width, height } = canvas;
+  // Canvas text silently falls back to a default font if the web font is not loaded yet.
+  await Promise.all(layers.map(layer => document.fonts.load(fontString(layer, width), layer.text)));
+  const ctx = canvas.getContext('2d')!;
+  if (logo) await drawLogo(ctx, logo, width, height);
+  layers.forEach(layer => drawLayer(ctx, layer, width, height));
+};
+
+/** Draws the image at its native resolution with the logo and every text layer on top and returns it as a data URL. */
+export const renderWithLayers = async (
+  imageUrl: string,
+  layers: TextLayer[],
+  logo: LogoPlacement | null = null,
+  mimeType = 'image/jpeg'
+): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  canvas.getContext('2d')!.drawImage(img, 0, 0);
+  await drawLayers(canvas, layers, logo);
+  return canvas.toDataURL(mimeType, 0.92);
+};
+
+/**
+ * The current version of an ad image as it is published: with its logo and
+ * text layers drawn in, if it has any. Without `mimeType`, an image with
+ * nothing to draw is returned in whatever format the model produced.
+ */
+export const renderFinalImage = async (image: AdImage, mimeType?: string): Promise<string> =>
+  image.layers.length > 0 || image.logo || mimeType
+    ? renderWithLayers(currentImageUrl(image), image.layers, image.logo, mimeType)
+    : currentImageUrl(image);
@@ -0,0 +1,124 @@
+import type { UsageOperation, UsageRecord } from '../types';
+
+/** Price of a model in US dollars; tokens per million, as providers publish them. */
+export type ModelPrice = {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  perImage: number;
+};
+
+export type UsageSettings = {
+  prices: ModelPrice[];
+  /** In US dollars; 0 for no budget. */
+  monthlyBudget: number;
+};
+
+/** Public list prices when this was written; edit them in the usage dashboard when they change. */
+export const DEFAULT_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5, perImage: 0 },
+  { model: 'imagen-4.0-generate-001', inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+  // Images come back as output tokens (about 1,290 each), so they are priced per token.
+  { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30, perImage: 0 },
+  { model: 'mock', inputPerMillion: 0, outputPerMillion: 0, perImage: 0 },
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = { prices: DEFAULT_PRICES, monthlyBudget: 0 };
+
+const SETTINGS_KEY = 'usageSettings';
+
+const nonNegative = (value: unknown): number => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : 0;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSavedPrice = (value: unknown): value is Record<string, unknown> & { model: string } =>
+  isRecord(value) && typeof value.model === 'string' && value.model.trim() !== '';
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}');
+    if (!isRecord(saved)) return DEFAULT_USAGE_SETTINGS;
+    return {
+      prices: Array.isArray(saved.prices)
+        ? saved.prices.filter(isSavedPrice).map(price => ({
+          model: price.model.trim(),
+          inputPerMillion: nonNegative(price.inputPerMillion),
+          outputPerMillion: nonNegative(price.outputPerMillion),
+          perImage: nonNegative(price.perImage),
+        }))
+        : DEFAULT_PRICES,
+      monthlyBudget: nonNegative(saved.monthlyBudget),
+    };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+/** What a call cost at the given prices; 0 when its model has no price. */
+export const recordCost = ({ model, inputTokens, outputTokens, images }: UsageRecord, prices: ModelPrice[]): number => {
+  const price = prices.find(p => p.model === model);
+  if (!price) return 0;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000 + images * price.perImage;
+};
+
+export const hasPrice = (model: string, prices: ModelPrice[]): boolean => prices.some(p => p.model === model);
+
+export const startOfMonth = (now: Date = new Date()): number => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+/** Local calendar day, `YYYY-MM-DD`. */
+export const dayKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export type UsageTotals = {
+  key: string;
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  /** Average over all calls. */
+  latencyMs: number;
+  cost: number;
+};
+
+/** Totals per group, most expensive first. */
+export const summarizeUsage = (records: UsageRecord[], prices: ModelPrice[], keyOf: (record: UsageRecord) => string): UsageTotals[] => {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    const totals = groups.get(key) ?? { key, calls: 0, failed: 0, inputTokens: 0, outputTokens: 0, images: 0, latencyMs: 0, cost: 0 };
+    totals.calls++;
+    if (record.status !== 'ok') totals.failed++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.images += record.images;
+    totals.latencyMs += (record.latencyMs - totals.latencyMs) / totals.calls;
+    totals.cost += recordCost(record, prices);
+    groups.set(key, totals);
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+};
+
+// How many recent successful calls of each kind the estimate averages.
+const ESTIMATE_SAMPLE = 20;
+
+const averageCost = (records: UsageRecord[], prices: ModelPrice[], operation: UsageOperation): number => {
+  const recent = records.filter(r => r.operation === operation && r.status === 'ok').slice(-ESTIMATE_SAMPLE);
+  return recent.length > 0 ? recent.reduce((sum, r) => sum + recordCost(r, prices), 0) / recent.length : 0;
+};
+
+/**
+ * Expected cost of one generation (copy, an image per format and the review),
+ * from what recent ones cost. 0 until there is history to go by.
+ */
+export const estimateGenerationCost = (records: UsageRecord[], prices: ModelPrice[], formatCount: number): number =>
+  averageCost(records, prices, 'copy') + formatCount * averageCost(records, prices, 'image')
+  + averageCost(records, prices, 'review');
+
+export const formatUsd = (amount: number): string =>
+  amount.toLocaleString('es', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: amount > 0 && amount < 0.01 ? 4 : 2 });
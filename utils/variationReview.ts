@@ -0,0 +1,36 @@
+import type { Generation, GenerationReview } from '../types';
+
+export const EMPTY_REVIEW: GenerationReview = { rating: 0, starred: false, rejected: false, finalPick: false };
+
+/** Ratings at or above this count as liked, at or below `DISLIKED_RATING` as disliked. */
+const LIKED_RATING = 4;
+const DISLIKED_RATING = 2;
+
+/** The variations "Exportar elegidas" includes: the final pick and the shortlisted ones. */
+export const isChosen = ({ review }: Generation): boolean => review.finalPick || review.starred;
+
+export const isLiked = ({ review }: Generation): boolean =>
+  !review.rejected && (review.finalPick || review.starred || review.rating >= LIKED_RATING);
+
+export const isDisliked = ({ review }: Generation): boolean =>
+  review.rejected || (review.rating > 0 && review.rating <= DISLIKED_RATING);
+
+/**
+ * Applies a change to one generation's review and keeps the set consistent:
+ * a single final pick per project, and rejecting a variation takes it out of
+ * the shortlist (and the other way round).
+ */
+export const updateReview = (generations: Generation[], generationId: string, changes: Partial<GenerationReview>): Generation[] =>
+  generations.map(gen => {
+    if (gen.id !== generationId) {
+      return changes.finalPick && gen.review.finalPick ? { ...gen, review: { ...gen.review, finalPick: false } } : gen;
+    }
+    const review = { ...gen.review, ...changes };
+    if (changes.rejected) {
+      review.starred = false;
+      review.finalPick = false;
+    } else if (changes.starred || changes.finalPick) {
+      review.rejected = false;
+    }
+    return { ...gen, review };
+  });
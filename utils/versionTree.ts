@@ -0,0 +1,71 @@
+import type { AdFormat, AdImage, ImageVersion, TextLayer } from '../types';
+
+// Edits never overwrite an image: each one adds a child of the version it was
+// applied to. Undo moves to the parent, redo to the newest child, and editing
+// an older version starts a new branch.
+
+export const createAdImage = (format: AdFormat, imageUrl: string, layers: TextLayer[] = []): AdImage => {
+  const root: ImageVersion = {
+    id: crypto.randomUUID(),
+    parentId: null,
+    prompt: null,
+    createdAt: Date.now(),
+    imageUrl,
+  };
+  return { format, versions: [root], currentVersionId: root.id, layers, logo: null };
+};
+
+export const getVersion = (image: AdImage, versionId: string): ImageVersion | undefined =>
+  image.versions.find(v => v.id === versionId);
+
+export const currentVersion = (image: AdImage): ImageVersion =>
+  getVersion(image, image.currentVersionId) ?? image.versions[0];
+
+export const currentImageUrl = (image: AdImage): string => currentVersion(image).imageUrl;
+
+export const childrenOf = (image: AdImage, versionId: string | null): ImageVersion[] =>
+  image.versions
+    .filter(v => v.parentId === versionId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/** The new version becomes the current one; it is a child of `parentId`, by default the current version. */
+export const addVersion = (image: AdImage, imageUrl: string, prompt: string, parentId: string = image.currentVersionId): AdImage => {
+  const version: ImageVersion = {
+    id: crypto.randomUUID(),
+    parentId,
+    prompt,
+    createdAt: Date.now(),
+    imageUrl,
+  };
+  return { ...image, versions: [...image.versions, version], currentVersionId: version.id };
+};
+
+export const selectVersion = (image: AdImage, versionId: string): AdImage =>
+  getVersion(image, versionId) ? { ...image, currentVersionId: versionId } : image;
+
+export const canUndo = (image: AdImage): boolean => currentVersion(image).parentId !== null;
+
+export const undo = (image: AdImage): AdImage => {
+  const parentId = currentVersion(image).parentId;
+  return parentId ? selectVersion(image, parentId) : image;
+};
+
+export const canRedo = (image: AdImage): boolean => childrenOf(image, image.currentVersionId).length > 0;
+
+export const redo = (image: AdImage): AdImage => {
+  const children = childrenOf(image, image.currentVersionId);
+  return children.length > 0 ? selectVersion(image, children[children.length - 1].id) : image;
+};
+
+/** Versions in depth-first order with their depth, for rendering the tree as an indented list. */
+export const flattenTree = (image: AdImage): { version: ImageVersion; depth: number }[] => {
+  const result: { version: ImageVersion; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const version of childrenOf(image, parentId)) {
+      result.push({ version, depth });
+      visit(version.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+};
@@ -0,0 +1,135 @@
+// Minimal ZIP writer and reader. Entries are written uncompressed: almost
+// everything we export is already-compressed JPEG/PNG, so deflating would only
+// cost time. The reader also inflates, for archives re-zipped by other tools.
+
+export type ZipEntry = {
+  /** Path inside the archive, using `/` as separator. */
+  name: string;
+  data: Blob | string;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/** Builds a ZIP archive (stored, UTF-8 names) from the given entries. */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string'
+      ? encoder.encode(entry.data)
+      : new Uint8Array(await entry.data.arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    parts.push(local.buffer, name, data);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+    central.push(new Uint8Array(header.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const inflateRaw = (data: Blob): Promise<Blob> =>
+  new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+
+/**
+ * Reads the entries of a ZIP archive, stored or deflated, keyed by path.
+ * Directory entries are skipped. Throws if the file is not a ZIP archive.
+ */
+export const readZip = async (zip: Blob): Promise<Map<string, Blob>> => {
+  const decoder = new TextDecoder();
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment of up to 64 KiB.
+  const tailStart = Math.max(0, zip.size - 22 - 0xffff);
+  const tail = new DataView(await zip.slice(tailStart).arrayBuffer());
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) { endOffset = i; break; }
+  }
+  if (endOffset < 0) throw new Error('El archivo no es un zip válido.');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  const central = new DataView(await zip.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+
+  const entries = new Map<string, Blob>();
+  let pos = 0;
+  for (let n = 0; n < count; n++) {
+    if (central.getUint32(pos, true) !== 0x02014b50) throw new Error('El índice del zip está dañado.');
+    const method = central.getUint16(pos + 10, true);
+    const compressedSize = central.getUint32(pos + 20, true);
+    const nameLength = central.getUint16(pos + 28, true);
+    const extraLength = central.getUint16(pos + 30, true);
+    const commentLength = central.getUint16(pos + 32, true);
+    const localOffset = central.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(central.buffer, pos + 46, nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue;
+
+    const local = new DataView(await zip.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    const data = zip.slice(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, await inflateRaw(data));
+    else throw new Error(`El zip usa un método de compresión no soportado (${method}).`);
+  }
+  return entries;
+};
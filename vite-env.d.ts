@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AD_PROVIDER?: string;
+  readonly VITE_MOCK_DELAY_MS?: string;
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_REQUEST_RETRIES?: string;
+  readonly VITE_UPLOAD_MAX_DIMENSION?: string;
+  readonly VITE_UPLOAD_QUALITY?: string;
+  readonly VITE_UPLOAD_FORMAT?: string;
+  readonly VITE_UPLOAD_MAX_MB?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -4,16 +4,19 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The API server listens on 127.0.0.1 unless SERVER_HOST says otherwise; a wildcard is still reachable there.
+    const serverHost = !env.SERVER_HOST || env.SERVER_HOST === '0.0.0.0' || env.SERVER_HOST === '::' ? '127.0.0.1' : env.SERVER_HOST;
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // Anyone who reaches the dev server can use the proxy below, so it stays local unless DEV_HOST opens it.
+        host: env.DEV_HOST || 'localhost',
+        // Model calls go to the API server (server/index.js), which holds the key.
+        proxy: {
+          '/api': `http://${serverHost}:${env.SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),